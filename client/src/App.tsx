@@ -1,8 +1,11 @@
 import { useEffect, useState } from 'react';
-import { CardDTO, Grade } from './types';
+import { AnswerMode, CardDTO, Grade, PracticeSet } from './types';
 import { statusFor } from './lib/time';
+import { authHeaders, loadSessionToken, saveSessionToken } from './lib/session';
 import LoginPage from './LoginPage';
+import TeacherLoginPage from './TeacherLoginPage';
 import TeacherDashboard from './TeacherDashboard';
+import SprintSession from './SprintSession';
 
 interface User {
   id: string;
@@ -11,18 +14,67 @@ interface User {
   user_type: string;
 }
 
-type PracticeSet = '9x9' | 'full';
-
 export default function App() {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [sessionToken, setSessionToken] = useState<string | null>(() => loadSessionToken());
+  const [restoringSession, setRestoringSession] = useState(() => loadSessionToken() !== null);
   const [sessionSize, setSessionSize] = useState<number | null>(null);
   const [practiceSet, setPracticeSet] = useState<PracticeSet | null>(null);
+  // Set while a timed sprint runs in place of a card session
+  const [sprintMinutes, setSprintMinutes] = useState<number | null>(null);
+  const [answerMode, setAnswerMode] = useState<AnswerMode>('self');
   const [cards, setCards] = useState<CardDTO[]>([]);
   const [currentCardIndex, setCurrentCardIndex] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const isTeacherRoute = typeof window !== 'undefined' && window.location.pathname.startsWith('/teacher');
 
+  const handleLogin = (user: User, token: string) => {
+    saveSessionToken(token);
+    setSessionToken(token);
+    setCurrentUser(user);
+  };
+
+  const handleLogout = () => {
+    if (sessionToken) {
+      fetch('/api/logout', { method: 'POST', headers: authHeaders(sessionToken) }).catch(err => {
+        console.error('Failed to end session', err);
+      });
+    }
+    saveSessionToken(null);
+    setSessionToken(null);
+    setCurrentUser(null);
+  };
+
+  useEffect(() => {
+    const storedToken = loadSessionToken();
+    if (!storedToken) return;
+    let active = true;
+    (async () => {
+      try {
+        const res = await fetch('/api/session', { headers: authHeaders(storedToken) });
+        if (!res.ok) {
+          throw new Error(`Session check failed: ${res.status}`);
+        }
+        const data: { user: User } = await res.json();
+        if (active) {
+          setCurrentUser(data.user);
+        }
+      } catch (err) {
+        console.warn('Stored session is no longer valid', err);
+        if (active) {
+          saveSessionToken(null);
+          setSessionToken(null);
+        }
+      } finally {
+        if (active) setRestoringSession(false);
+      }
+    })();
+    return () => {
+      active = false;
+    };
+  }, []);
+
   useEffect(() => {
     if (!currentUser) return;
     if (isTeacherRoute && currentUser.user_type !== 'teacher') {
@@ -31,11 +83,31 @@ export default function App() {
     }
   }, [currentUser, isTeacherRoute]);
 
+  useEffect(() => {
+    if (!currentUser || !sessionToken || currentUser.user_type === 'teacher') return;
+    let active = true;
+    (async () => {
+      try {
+        const res = await fetch('/api/practice-settings', { headers: authHeaders(sessionToken) });
+        if (!res.ok) throw new Error(`Failed to load practice settings: ${res.status}`);
+        const data: { answer_mode: AnswerMode } = await res.json();
+        if (active) setAnswerMode(data.answer_mode);
+      } catch (err) {
+        // Self-grading still works, so carry on with it
+        console.warn('Using self-graded practice', err);
+      }
+    })();
+    return () => {
+      active = false;
+    };
+  }, [currentUser, sessionToken]);
+
   useEffect(() => {
     if (
       sessionSize !== null &&
       practiceSet !== null &&
       currentUser &&
+      sessionToken &&
       currentUser.user_type !== 'teacher'
     ) {
       let active = true;
@@ -47,7 +119,7 @@ export default function App() {
           params.set('limit', String(sessionSize));
           params.set('set', practiceSet);
           const res = await fetch(`/api/cards?${params.toString()}`, {
-            headers: { 'X-User-Id': currentUser.id }
+            headers: authHeaders(sessionToken)
           });
           if (!res.ok) {
             throw new Error(`Failed to load cards: ${res.status}`);
@@ -72,16 +144,15 @@ export default function App() {
         active = false;
       };
     }
-  }, [sessionSize, practiceSet, currentUser]);
+  }, [sessionSize, practiceSet, currentUser, sessionToken]);
+
+  if (restoringSession) return <div>Loading…</div>;
 
   // Show login page if no user is logged in
-  if (!currentUser) {
-    return (
-      <LoginPage
-        onLogin={setCurrentUser}
-        mode={isTeacherRoute ? 'teacher' : 'student'}
-      />
-    );
+  if (!currentUser || !sessionToken) {
+    return isTeacherRoute
+      ? <TeacherLoginPage onLogin={handleLogin} />
+      : <LoginPage onLogin={handleLogin} />;
   }
 
   // Show teacher dashboard if user is teacher
@@ -111,7 +182,7 @@ export default function App() {
             </p>
             <button
               onClick={() => {
-                setCurrentUser(null);
+                handleLogout();
                 window.location.href = '/teacher';
               }}
               style={{
@@ -130,7 +201,21 @@ export default function App() {
         </div>
       );
     }
-    return <TeacherDashboard userId={currentUser.id} onLogout={() => setCurrentUser(null)} />;
+    return <TeacherDashboard sessionToken={sessionToken} onLogout={handleLogout} />;
+  }
+
+  if (practiceSet !== null && sprintMinutes !== null) {
+    return (
+      <SprintSession
+        practiceSet={practiceSet}
+        minutes={sprintMinutes}
+        sessionToken={sessionToken}
+        onExit={() => {
+          setSprintMinutes(null);
+          setPracticeSet(null);
+        }}
+      />
+    );
   }
 
   if (practiceSet === null || sessionSize === null) {
@@ -144,6 +229,10 @@ export default function App() {
           setPracticeSet(chosenSet);
           setSessionSize(size);
         }}
+        onStartSprint={({ minutes, chosenSet }) => {
+          setPracticeSet(chosenSet);
+          setSprintMinutes(minutes);
+        }}
       />
     );
   }
@@ -274,13 +363,29 @@ export default function App() {
         </div>
       </div>
       <SingleCard
+        key={currentCardIndex}
         card={currentCard}
-        onUpdate={(updated) => {
-          setCards(prev => prev.map(x => x.card_state_id === updated.card_state_id ? updated : x));
+        answerMode={answerMode}
+        onUpdate={(updated, requeue) => {
+          setCards(prev => {
+            const next = prev.map(x => x.card_state_id === updated.card_state_id ? updated : x);
+            if (!requeue) return next;
+            // A missed or still-learning fact comes back later in this session,
+            // after the cards that fall due before it
+            const dueAt = new Date(updated.next_review).getTime();
+            let insertAt = next.length;
+            for (let i = currentCardIndex + 1; i < next.length; i++) {
+              if (new Date(next[i].next_review).getTime() > dueAt) {
+                insertAt = i;
+                break;
+              }
+            }
+            return [...next.slice(0, insertAt), updated, ...next.slice(insertAt)];
+          });
         }}
         onNext={() => setCurrentCardIndex(prev => prev + 1)}
         isLastCard={isLastCard}
-        userId={currentUser.id}
+        sessionToken={sessionToken}
       />
     </div>
   );
@@ -288,9 +393,11 @@ export default function App() {
 
 function SessionSetup({
   onStart,
+  onStartSprint,
   initialSet
 }: {
   onStart: (options: { size: number; chosenSet: PracticeSet }) => void;
+  onStartSprint: (options: { minutes: number; chosenSet: PracticeSet }) => void;
   initialSet?: PracticeSet | null;
 }) {
   const [selectedSet, setSelectedSet] = useState<PracticeSet | null>(initialSet ?? null);
@@ -304,6 +411,7 @@ function SessionSetup({
     { id: 'full', label: 'Full Table', description: 'Complete factors 1–12' }
   ];
   const sessionSizes = [5, 10, 15, 20];
+  const sprintLengths = [1, 2, 3, 4, 5];
 
   return (
     <div style={{
@@ -381,9 +489,41 @@ function SessionSetup({
           ))}
         </div>
         
-        <p style={{ fontSize: '14px', color: '#999' }}>
+        <p style={{ fontSize: '14px', color: '#999', marginBottom: '32px' }}>
           Cards will be selected from those due for review
         </p>
+
+        <p style={{ marginBottom: '16px', color: '#666' }}>Or race the clock: how many minutes?</p>
+
+        <div style={{ display: 'flex', gap: '12px', justifyContent: 'center', marginBottom: '16px' }}>
+          {sprintLengths.map(minutes => (
+            <button
+              key={minutes}
+              onClick={() => {
+                if (!selectedSet) return;
+                onStartSprint({ minutes, chosenSet: selectedSet });
+              }}
+              disabled={!selectedSet}
+              style={{
+                padding: '12px 20px',
+                fontSize: '18px',
+                fontWeight: 'bold',
+                border: '2px solid #fd7e14',
+                backgroundColor: !selectedSet ? '#f1f1f1' : 'white',
+                color: !selectedSet ? '#999' : '#fd7e14',
+                borderRadius: '8px',
+                cursor: !selectedSet ? 'not-allowed' : 'pointer',
+                transition: 'all 0.2s ease'
+              }}
+            >
+              {minutes} min
+            </button>
+          ))}
+        </div>
+
+        <p style={{ fontSize: '14px', color: '#999' }}>
+          Answer as many facts as you can before time runs out
+        </p>
       </div>
     </div>
   );
@@ -391,24 +531,35 @@ function SessionSetup({
 
 function SingleCard({ 
   card, 
+  answerMode,
   onUpdate, 
   onNext, 
   isLastCard,
-  userId
+  sessionToken
 }: { 
   card: CardDTO; 
-  onUpdate: (updated: CardDTO) => void; 
+  answerMode: AnswerMode;
+  onUpdate: (updated: CardDTO, requeue: boolean) => void; 
   onNext: () => void; 
   isLastCard: boolean;
-  userId: string;
+  sessionToken: string;
 }) {
   const [showBack, setShowBack] = useState(false);
   const [busy, setBusy] = useState(false);
   const [hasAnswered, setHasAnswered] = useState(false);
+  const [typedAnswer, setTypedAnswer] = useState('');
+  const [checked, setChecked] = useState<{ correct: boolean; expected: string } | null>(null);
+  const [shownAt] = useState(() => Date.now());
+  const [flippedAt, setFlippedAt] = useState<number | null>(null);
   const color = statusFor(card.next_review); // red/yellow/green
-  const due = color === 'red';
+  // Cards in their learning steps may be studied a little ahead of time
+  const due = color === 'red' || card.learning_step !== null;
+  // Typed answers are checked by the server, so the card only turns over afterwards
+  const canFlip = due && answerMode === 'self';
 
-  const grade = async (label: Grade) => {
+  const submitReview = async (
+    body: { grade: Grade; responseMs?: number } | { answer: string; responseMs: number }
+  ) => {
     if (busy || hasAnswered) return;
     setBusy(true);
     setHasAnswered(true);
@@ -418,25 +569,31 @@ function SingleCard({
         method:'POST',
         headers:{
           'Content-Type':'application/json',
-          'X-User-Id': userId
+          ...authHeaders(sessionToken)
         },
-        body: JSON.stringify({ grade: label })
+        body: JSON.stringify(body)
       });
       if (!res.ok) throw new Error();
       const data = await res.json();
+      if (data.correct !== null && data.correct !== undefined) {
+        setChecked({ correct: data.correct, expected: data.expected_answer });
+        setShowBack(true);
+      }
       onUpdate({ ...card,
         next_review: data.next_review,
         interval_days: data.interval_days,
         ease_factor: data.ease_factor,
-        repetitions: data.repetitions
-      });
+        repetitions: data.repetitions,
+        learning_step: data.learning_step ?? null,
+        status: data.learning_step != null ? 'learning' : 'review'
+      }, Boolean(data.due_in_session));
       
-      // Auto-advance to next card after grading
+      // Auto-advance to next card after grading; a wrong typed answer stays up longer
       setTimeout(() => {
         onNext();
         setShowBack(false);
         setHasAnswered(false);
-      }, 1000);
+      }, data.correct === false ? 2500 : 1000);
     } catch {
       alert('Failed to submit review.');
       setBusy(false);
@@ -446,6 +603,15 @@ function SingleCard({
     }
   };
 
+  // Self-graded response time is how long the student took to turn the card over
+  const grade = (label: Grade) =>
+    submitReview({ grade: label, responseMs: flippedAt === null ? undefined : flippedAt - shownAt });
+
+  const submitAnswer = () => {
+    if (!typedAnswer.trim()) return;
+    submitReview({ answer: typedAnswer.trim(), responseMs: Date.now() - shownAt });
+  };
+
   return (
     <div style={{
       display: 'flex',
@@ -472,23 +638,24 @@ function SingleCard({
         textAlign: 'center',
         fontSize: '24px',
         fontWeight: 'bold',
-        cursor: due && !showBack ? 'pointer' : 'default',
+        cursor: canFlip && !showBack ? 'pointer' : 'default',
         transition: 'all 0.3s ease',
         boxShadow: '0 4px 12px rgba(0,0,0,0.1)'
       }}
       onClick={() => { 
-        if (due && !showBack && !hasAnswered) {
+        if (canFlip && !showBack && !hasAnswered) {
           setShowBack(true);
+          setFlippedAt(Date.now());
         }
       }}
       onMouseOver={(e) => {
-        if (due && !showBack && !hasAnswered) {
+        if (canFlip && !showBack && !hasAnswered) {
           e.currentTarget.style.transform = 'scale(1.02)';
           e.currentTarget.style.boxShadow = '0 8px 20px rgba(0,0,0,0.15)';
         }
       }}
       onMouseOut={(e) => {
-        if (due && !showBack && !hasAnswered) {
+        if (canFlip && !showBack && !hasAnswered) {
           e.currentTarget.style.transform = 'scale(1)';
           e.currentTarget.style.boxShadow = '0 4px 12px rgba(0,0,0,0.1)';
         }
@@ -496,13 +663,98 @@ function SingleCard({
       >
         <div style={{ marginBottom: '20px', color: '#666', fontSize: '14px' }}>
           {!showBack ? 'Question' : 'Answer'}
+          {card.status === 'new' && (
+            <span style={{
+              marginLeft: '8px',
+              padding: '2px 8px',
+              borderRadius: '10px',
+              backgroundColor: '#6f42c1',
+              color: 'white',
+              fontSize: '12px'
+            }}>
+              New fact
+            </span>
+          )}
         </div>
         <div style={{ minHeight: '60px' }}>
-          {showBack ? card.back : card.front}
+          {showBack ? card.back ?? checked?.expected : card.front}
         </div>
       </div>
 
-      {showBack && !hasAnswered && (
+      {answerMode === 'typed' && due && !hasAnswered && (
+        <form
+          onSubmit={e => {
+            e.preventDefault();
+            submitAnswer();
+          }}
+          style={{ marginTop: '30px', display: 'flex', gap: '12px', justifyContent: 'center' }}
+        >
+          <input
+            value={typedAnswer}
+            onChange={e => setTypedAnswer(e.target.value)}
+            inputMode="numeric"
+            autoFocus
+            aria-label="Your answer"
+            placeholder="?"
+            style={{
+              width: '140px',
+              padding: '12px',
+              fontSize: '24px',
+              textAlign: 'center',
+              border: '2px solid #ccc',
+              borderRadius: '8px'
+            }}
+          />
+          <button
+            type="submit"
+            disabled={busy || !typedAnswer.trim()}
+            style={{
+              padding: '12px 24px',
+              fontSize: '16px',
+              fontWeight: 'bold',
+              border: 'none',
+              borderRadius: '8px',
+              backgroundColor: '#28a745',
+              color: 'white',
+              cursor: busy || !typedAnswer.trim() ? 'not-allowed' : 'pointer',
+              opacity: busy || !typedAnswer.trim() ? 0.6 : 1
+            }}
+          >
+            Check
+          </button>
+        </form>
+      )}
+
+      {answerMode === 'choice' && due && !hasAnswered && (
+        <div style={{
+          marginTop: '30px',
+          display: 'grid',
+          gridTemplateColumns: 'repeat(2, minmax(120px, 1fr))',
+          gap: '16px'
+        }}>
+          {(card.choices ?? []).map(choice => (
+            <button
+              key={choice}
+              onClick={() => submitReview({ answer: choice, responseMs: Date.now() - shownAt })}
+              disabled={busy}
+              style={{
+                padding: '20px 32px',
+                fontSize: '28px',
+                fontWeight: 'bold',
+                border: '2px solid #007bff',
+                borderRadius: '8px',
+                backgroundColor: 'white',
+                color: '#007bff',
+                cursor: busy ? 'not-allowed' : 'pointer'
+              }}
+            >
+              {choice}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {answerMode === 'self' && showBack && !hasAnswered && (
         <div style={{ 
           marginTop: '30px', 
           display: 'flex', 
@@ -553,7 +805,21 @@ function SingleCard({
         </div>
       )}
 
-      {hasAnswered && (
+      {hasAnswered && checked && (
+        <div style={{
+          marginTop: '20px',
+          padding: '12px 20px',
+          backgroundColor: checked.correct ? '#d4edda' : '#f8d7da',
+          border: `1px solid ${checked.correct ? '#c3e6cb' : '#f5c6cb'}`,
+          borderRadius: '8px',
+          color: checked.correct ? '#155724' : '#721c24',
+          fontSize: '18px'
+        }}>
+          {checked.correct ? '✓ Correct!' : `✗ ${card.front} = ${checked.expected}`}
+        </div>
+      )}
+
+      {hasAnswered && !checked && (
         <div style={{ 
           marginTop: '20px', 
           padding: '12px 20px',
@@ -0,0 +1,180 @@
+import { useState, useEffect, useCallback } from 'react';
+import { authHeaders } from './lib/session';
+
+interface ArchivedStudent {
+  id: string;
+  username: string | null;
+  display_name: string;
+  archived_username: string;
+  archived_at: string;
+  needs_new_username: boolean;
+}
+
+const smallButtonStyle = (backgroundColor: string, disabled: boolean) => ({
+  padding: '6px 12px',
+  fontSize: '13px',
+  backgroundColor: disabled ? '#6c757d' : backgroundColor,
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: disabled ? 'not-allowed' : 'pointer'
+});
+
+export default function ArchivedStudents({
+  sessionToken,
+  onRestored
+}: {
+  sessionToken: string;
+  onRestored: () => void;
+}) {
+  const [students, setStudents] = useState<ArchivedStudent[]>([]);
+  const [canPurge, setCanPurge] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadArchived = useCallback(async () => {
+    try {
+      const response = await fetch('/api/teacher/students/archived', {
+        headers: authHeaders(sessionToken)
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !Array.isArray(data?.students)) {
+        throw new Error(data?.error ?? `Failed to load archived students (${response.status})`);
+      }
+      setStudents(data.students);
+      setCanPurge(Boolean(data.can_purge));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load archived students');
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionToken]);
+
+  useEffect(() => {
+    loadArchived();
+  }, [loadArchived]);
+
+  const restore = async (student: ArchivedStudent, username?: string) => {
+    if (!username && student.needs_new_username) {
+      const chosen = window.prompt(
+        `The username "${student.username ?? student.archived_username}" is not available. Choose a new username for ${student.display_name}:`
+      );
+      if (!chosen?.trim()) return;
+      username = chosen.trim();
+    }
+
+    setBusyId(student.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/teacher/students/${student.id}/restore`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders(sessionToken)
+        },
+        body: JSON.stringify(username ? { username } : {})
+      });
+      const data = await response.json().catch(() => null);
+      if (response.status === 409 && data?.conflict === 'username') {
+        const chosen = window.prompt(`${data.error}:`);
+        if (chosen?.trim()) await restore(student, chosen.trim());
+        return;
+      }
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || `Failed to restore student (${response.status})`);
+      }
+      await loadArchived();
+      onRestored();
+    } catch (err: any) {
+      setError(err.message || 'Failed to restore student');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const purge = async (student: ArchivedStudent) => {
+    const confirmed = window.confirm(
+      `Permanently delete ${student.display_name} and all of their review history? This cannot be undone.`
+    );
+    if (!confirmed) return;
+
+    setBusyId(student.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/teacher/students/${student.id}/purge`, {
+        method: 'DELETE',
+        headers: authHeaders(sessionToken)
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || `Failed to delete student (${response.status})`);
+      }
+      await loadArchived();
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete student');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div style={{ padding: '24px', borderBottom: '1px solid #ddd', backgroundColor: '#ffffff' }}>
+      <h2 style={{ margin: '0 0 16px 0', color: '#333' }}>Archived Students</h2>
+
+      {error && (
+        <div style={{
+          marginBottom: '16px',
+          padding: '12px',
+          backgroundColor: '#f8d7da',
+          border: '1px solid #f5c6cb',
+          borderRadius: '6px',
+          color: '#721c24',
+          fontSize: '14px'
+        }}>
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div style={{ fontSize: '14px', color: '#666' }}>Loading…</div>
+      ) : students.length === 0 ? (
+        <div style={{ fontSize: '14px', color: '#666' }}>No archived students.</div>
+      ) : (
+        students.map(student => (
+          <div
+            key={student.id}
+            style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '8px 0', borderTop: '1px solid #eee' }}
+          >
+            <span style={{ flex: 1, color: '#333' }}>
+              {student.display_name}
+              {student.username && <span style={{ color: '#666' }}> (@{student.username})</span>}
+              <span style={{ marginLeft: '8px', fontSize: '12px', color: '#999' }}>
+                archived {new Date(student.archived_at).toLocaleDateString()}
+              </span>
+              {student.needs_new_username && (
+                <span style={{ marginLeft: '8px', fontSize: '12px', color: '#856404' }}>needs a new username</span>
+              )}
+            </span>
+            <button
+              onClick={() => restore(student)}
+              disabled={busyId === student.id}
+              style={smallButtonStyle('#28a745', busyId === student.id)}
+            >
+              Restore
+            </button>
+            {canPurge && (
+              <button
+                onClick={() => purge(student)}
+                disabled={busyId === student.id}
+                style={smallButtonStyle('#dc3545', busyId === student.id)}
+              >
+                Delete Forever
+              </button>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import { useState, useEffect, useCallback } from 'react';
+import { authHeaders } from './lib/session';
+
+interface AuditEntry {
+  id: number;
+  action: string;
+  target_student_id: string | null;
+  target_student_name: string | null;
+  target_class_name: string | null;
+  payload: Record<string, unknown> | null;
+  outcome: 'success' | 'denied' | 'failure';
+  status_code: number;
+  details: Record<string, unknown> | null;
+  created_at: string;
+}
+
+interface AuditFilters {
+  action: string;
+  studentId: string;
+  outcome: string;
+}
+
+const PAGE_SIZE = 50;
+
+const OUTCOME_COLORS: Record<AuditEntry['outcome'], string> = {
+  success: '#155724',
+  denied: '#856404',
+  failure: '#721c24'
+};
+
+const cellStyle = {
+  padding: '6px 8px',
+  borderBottom: '1px solid #eee',
+  textAlign: 'left' as const,
+  verticalAlign: 'top' as const
+};
+
+const selectStyle = { padding: '6px', borderRadius: '6px', border: '1px solid #ccc' };
+
+function describeDetails(entry: AuditEntry): string {
+  const message = entry.details?.message ?? entry.details?.error;
+  return typeof message === 'string' ? message : '';
+}
+
+export default function AuditLog({
+  sessionToken,
+  students
+}: {
+  sessionToken: string;
+  students: { id: string; display_name: string }[];
+}) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [actions, setActions] = useState<string[]>([]);
+  const [filters, setFilters] = useState<AuditFilters>({ action: '', studentId: '', outcome: '' });
+  const [offset, setOffset] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const filterQuery = useCallback(() => {
+    const params = new URLSearchParams();
+    if (filters.action) params.set('action', filters.action);
+    if (filters.studentId) params.set('studentId', filters.studentId);
+    if (filters.outcome) params.set('outcome', filters.outcome);
+    return params;
+  }, [filters]);
+
+  const loadEntries = useCallback(async () => {
+    const params = filterQuery();
+    params.set('limit', String(PAGE_SIZE));
+    params.set('offset', String(offset));
+    try {
+      const response = await fetch(`/api/teacher/audit?${params}`, {
+        headers: authHeaders(sessionToken)
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !Array.isArray(data?.entries)) {
+        throw new Error(data?.error ?? `Failed to load audit log (${response.status})`);
+      }
+      setEntries(data.entries);
+      setTotal(data.total);
+      setActions(data.actions ?? []);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load audit log');
+    }
+  }, [sessionToken, filterQuery, offset]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const updateFilter = (key: keyof AuditFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+    setOffset(0);
+  };
+
+  const exportJson = async () => {
+    try {
+      const response = await fetch(`/api/teacher/audit/export?${filterQuery()}`, {
+        headers: authHeaders(sessionToken)
+      });
+      if (!response.ok) throw new Error(`Export failed (${response.status})`);
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-log-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError(err.message || 'Export failed');
+    }
+  };
+
+  return (
+    <div style={{ padding: '24px', borderBottom: '1px solid #ddd', backgroundColor: '#ffffff' }}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', alignItems: 'center', marginBottom: '16px' }}>
+        <h2 style={{ margin: 0, color: '#333', flex: 1 }}>Audit Log</h2>
+        <select value={filters.action} onChange={e => updateFilter('action', e.target.value)} style={selectStyle}>
+          <option value="">All actions</option>
+          {actions.map(action => (
+            <option key={action} value={action}>{action}</option>
+          ))}
+        </select>
+        <select value={filters.studentId} onChange={e => updateFilter('studentId', e.target.value)} style={selectStyle}>
+          <option value="">All students</option>
+          {students.map(student => (
+            <option key={student.id} value={student.id}>{student.display_name}</option>
+          ))}
+        </select>
+        <select value={filters.outcome} onChange={e => updateFilter('outcome', e.target.value)} style={selectStyle}>
+          <option value="">Any outcome</option>
+          <option value="success">Success</option>
+          <option value="denied">Denied</option>
+          <option value="failure">Failure</option>
+        </select>
+        <button
+          onClick={exportJson}
+          style={{ padding: '6px 12px', backgroundColor: '#007bff', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+        >
+          Export JSON
+        </button>
+      </div>
+
+      {error && (
+        <div style={{
+          marginBottom: '12px',
+          padding: '12px',
+          backgroundColor: '#f8d7da',
+          border: '1px solid #f5c6cb',
+          borderRadius: '6px',
+          color: '#721c24',
+          fontSize: '14px'
+        }}>
+          {error}
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+        <div style={{ fontSize: '14px', color: '#666' }}>No matching entries.</div>
+      ) : (
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+          <thead>
+            <tr>
+              {['When', 'Action', 'Target', 'Outcome', 'Details'].map(label => (
+                <th key={label} style={{ ...cellStyle, color: '#666' }}>{label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(entry => (
+              <tr key={entry.id}>
+                <td style={cellStyle}>{new Date(entry.created_at).toLocaleString()}</td>
+                <td style={{ ...cellStyle, fontFamily: 'monospace' }}>{entry.action}</td>
+                <td style={cellStyle}>
+                  {entry.target_student_name ?? (entry.target_student_id ? 'Deleted student' : '')}
+                  {entry.target_class_name && <div style={{ color: '#666' }}>{entry.target_class_name}</div>}
+                </td>
+                <td style={{ ...cellStyle, color: OUTCOME_COLORS[entry.outcome] }}>
+                  {entry.outcome} ({entry.status_code})
+                </td>
+                <td style={cellStyle}>{describeDetails(entry)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {total > PAGE_SIZE && (
+        <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginTop: '12px', fontSize: '14px' }}>
+          <button onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))} disabled={offset === 0}>
+            ← Newer
+          </button>
+          <span>
+            {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+          </span>
+          <button onClick={() => setOffset(offset + PAGE_SIZE)} disabled={offset + PAGE_SIZE >= total}>
+            Older →
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
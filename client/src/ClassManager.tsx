@@ -0,0 +1,353 @@
+import { useState } from 'react';
+import { authHeaders } from './lib/session';
+import { classJoinUrl } from './lib/classCode';
+import { AnswerMode, ClassSummary, SchedulerName } from './types';
+
+export const SCHEDULER_LABELS: Record<SchedulerName, string> = {
+  sm2: 'SM-2 (classic)',
+  fsrs: 'FSRS'
+};
+
+const ANSWER_MODE_LABELS: Record<AnswerMode, string> = {
+  self: 'Flip & self-grade',
+  typed: 'Type the answer',
+  choice: 'Multiple choice'
+};
+
+const inputStyle = {
+  padding: '8px',
+  borderRadius: '6px',
+  border: '1px solid #ccc'
+};
+
+const smallButtonStyle = (backgroundColor: string, color = 'white') => ({
+  padding: '6px 12px',
+  fontSize: '13px',
+  backgroundColor,
+  color,
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer'
+});
+
+function formatSteps(steps: number[] | null): string {
+  return steps === null ? '' : steps.join(', ');
+}
+
+// Blank means the server default; "none" turns the steps off.
+function parseSteps(input: string): number[] | null | undefined {
+  const trimmed = input.trim().toLowerCase();
+  if (!trimmed) return null;
+  if (trimmed === 'none') return [];
+  const steps = trimmed.split(/[\s,]+/).map(Number);
+  return steps.every(step => Number.isInteger(step) && step > 0 && step < 24 * 60) ? steps : undefined;
+}
+
+// Opens a print-ready card with the class code and a link that skips typing it.
+function printLoginCard(summary: ClassSummary) {
+  const popup = window.open('', '_blank', 'width=600,height=500');
+  if (!popup) {
+    alert('Allow pop-ups for this site to print the login card.');
+    return;
+  }
+  const doc = popup.document;
+  doc.title = `${summary.name} login card`;
+
+  const card = doc.createElement('div');
+  card.style.cssText =
+    'font-family: sans-serif; border: 3px dashed #333; border-radius: 16px; padding: 32px; max-width: 420px; margin: 24px auto; text-align: center;';
+  const lines: [string, string][] = [
+    ['12x12 · ' + summary.name, 'font-size: 22px; font-weight: bold; margin-bottom: 16px;'],
+    ['Class code', 'font-size: 14px; color: #666;'],
+    [summary.join_code, 'font-size: 48px; font-weight: bold; letter-spacing: 8px; margin: 8px 0 16px;'],
+    [classJoinUrl(summary.join_code), 'font-size: 14px; font-family: monospace; word-break: break-all; margin-bottom: 16px;'],
+    ['1. Open the link or type the code  2. Tap your name  3. Tap your pictures', 'font-size: 13px; color: #444;']
+  ];
+  for (const [text, style] of lines) {
+    const line = doc.createElement('div');
+    line.textContent = text;
+    line.style.cssText = style;
+    card.appendChild(line);
+  }
+  doc.body.appendChild(card);
+  popup.focus();
+  popup.print();
+}
+
+export default function ClassManager({
+  classes,
+  sessionToken,
+  onChanged
+}: {
+  classes: ClassSummary[];
+  sessionToken: string;
+  onChanged: (deletedClassId?: string) => void;
+}) {
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const send = async (url: string, method: string, body?: unknown) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders(sessionToken)
+        },
+        body: body ? JSON.stringify(body) : undefined
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || `Request failed (${response.status})`);
+      }
+      return true;
+    } catch (err: any) {
+      setError(err.message || 'Request failed');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createClass = async () => {
+    if (!newName.trim()) return;
+    if (await send('/api/teacher/classes', 'POST', { name: newName.trim() })) {
+      setNewName('');
+      onChanged();
+    }
+  };
+
+  const renameClass = async (classId: string) => {
+    if (!editingName.trim()) return;
+    if (await send(`/api/teacher/classes/${classId}`, 'PATCH', { name: editingName.trim() })) {
+      setEditingId(null);
+      onChanged();
+    }
+  };
+
+  const changeScheduler = async (summary: ClassSummary, scheduler: SchedulerName) => {
+    if (await send(`/api/teacher/classes/${summary.id}`, 'PATCH', { scheduler })) {
+      onChanged();
+    }
+  };
+
+  const changeAnswerMode = async (summary: ClassSummary, answerMode: AnswerMode) => {
+    if (await send(`/api/teacher/classes/${summary.id}`, 'PATCH', { answerMode })) {
+      onChanged();
+    }
+  };
+
+  const changeSteps = async (summary: ClassSummary) => {
+    const learning = window.prompt(
+      `Learning steps for new facts in ${summary.name}, in minutes (e.g. "1, 10"). Leave blank for the default, or type "none".`,
+      formatSteps(summary.learning_steps)
+    );
+    if (learning === null) return;
+    const relearning = window.prompt(
+      `Relearning steps for missed facts, in minutes (e.g. "10"). Leave blank for the default, or type "none".`,
+      formatSteps(summary.relearning_steps)
+    );
+    if (relearning === null) return;
+
+    const learningSteps = parseSteps(learning);
+    const relearningSteps = parseSteps(relearning);
+    if (learningSteps === undefined || relearningSteps === undefined) {
+      setError('Steps must be whole numbers of minutes, less than a day, separated by commas.');
+      return;
+    }
+    if (await send(`/api/teacher/classes/${summary.id}`, 'PATCH', { learningSteps, relearningSteps })) {
+      onChanged();
+    }
+  };
+
+  const changeNewCardsPerDay = async (summary: ClassSummary) => {
+    const input = window.prompt(
+      `New facts each student in ${summary.name} may start per day. Leave blank for the default.`,
+      summary.new_cards_per_day === null ? '' : String(summary.new_cards_per_day)
+    );
+    if (input === null) return;
+    const newCardsPerDay = input.trim() === '' ? null : Number(input.trim());
+    if (newCardsPerDay !== null && (!Number.isInteger(newCardsPerDay) || newCardsPerDay < 0 || newCardsPerDay > 144)) {
+      setError('New facts per day must be a whole number from 0 to 144.');
+      return;
+    }
+    if (await send(`/api/teacher/classes/${summary.id}`, 'PATCH', { newCardsPerDay })) {
+      onChanged();
+    }
+  };
+
+  const changeSchoolDay = async (summary: ClassSummary) => {
+    const timezone = window.prompt(
+      `Timezone for ${summary.name} (e.g. "America/Chicago"). Leave blank for the default.`,
+      summary.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone
+    );
+    if (timezone === null) return;
+    const rollover = window.prompt(
+      'Hour the school day starts, 0-23. Reviews fall due at this hour. Leave blank for the default.',
+      summary.day_rollover_hour === null ? '' : String(summary.day_rollover_hour)
+    );
+    if (rollover === null) return;
+
+    const dayRolloverHour = rollover.trim() === '' ? null : Number(rollover.trim());
+    if (dayRolloverHour !== null && (!Number.isInteger(dayRolloverHour) || dayRolloverHour < 0 || dayRolloverHour > 23)) {
+      setError('The day must start on a whole hour from 0 to 23.');
+      return;
+    }
+    const body = { timezone: timezone.trim() || null, dayRolloverHour };
+    if (await send(`/api/teacher/classes/${summary.id}`, 'PATCH', body)) {
+      onChanged();
+    }
+  };
+
+  const regenerateCode = async (summary: ClassSummary) => {
+    const confirmed = window.confirm(
+      `Give ${summary.name} a new class code? Printed cards with ${summary.join_code} will stop working.`
+    );
+    if (!confirmed) return;
+    if (await send(`/api/teacher/classes/${summary.id}/join-code`, 'POST')) {
+      onChanged();
+    }
+  };
+
+  const deleteClass = async (summary: ClassSummary) => {
+    // Students outside a class cannot sign in, so the server only deletes empty classes
+    if (summary.student_count > 0) {
+      setError(`Move or delete the ${summary.student_count} student(s) in ${summary.name} before deleting it.`);
+      return;
+    }
+    const confirmed = window.confirm(`Delete ${summary.name}?`);
+    if (!confirmed) return;
+    if (await send(`/api/teacher/classes/${summary.id}`, 'DELETE')) {
+      onChanged(summary.id);
+    }
+  };
+
+  return (
+    <div style={{ padding: '24px', borderBottom: '1px solid #ddd', backgroundColor: '#ffffff' }}>
+      <h2 style={{ margin: '0 0 16px 0', color: '#333' }}>Classes</h2>
+      <div style={{ display: 'flex', gap: '8px', marginBottom: '16px' }}>
+        <input
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          placeholder="New class name"
+          style={{ ...inputStyle, flex: '1 1 240px' }}
+        />
+        <button onClick={createClass} disabled={busy || !newName.trim()} style={smallButtonStyle('#28a745')}>
+          Create Class
+        </button>
+      </div>
+
+      {error && (
+        <div style={{
+          marginBottom: '16px',
+          padding: '12px',
+          backgroundColor: '#f8d7da',
+          border: '1px solid #f5c6cb',
+          borderRadius: '6px',
+          color: '#721c24',
+          fontSize: '14px'
+        }}>
+          {error}
+        </div>
+      )}
+
+      {classes.length === 0 ? (
+        <div style={{ fontSize: '14px', color: '#666' }}>No classes yet.</div>
+      ) : (
+        classes.map(summary => (
+          <div
+            key={summary.id}
+            style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '8px 0', borderTop: '1px solid #eee' }}
+          >
+            {editingId === summary.id ? (
+              <>
+                <input
+                  value={editingName}
+                  onChange={e => setEditingName(e.target.value)}
+                  autoFocus
+                  style={{ ...inputStyle, flex: 1 }}
+                />
+                <button onClick={() => renameClass(summary.id)} disabled={busy} style={smallButtonStyle('#007bff')}>
+                  Save
+                </button>
+                <button onClick={() => setEditingId(null)} style={smallButtonStyle('#6c757d')}>
+                  Cancel
+                </button>
+              </>
+            ) : (
+              <>
+                <span style={{ flex: 1, color: '#333' }}>
+                  {summary.name} <span style={{ color: '#999', fontSize: '13px' }}>({summary.student_count} students)</span>
+                  <span style={{ marginLeft: '8px', fontFamily: 'monospace', letterSpacing: '2px', color: '#555' }}>
+                    {summary.join_code}
+                  </span>
+                </span>
+                <select
+                  value={summary.scheduler}
+                  onChange={e => changeScheduler(summary, e.target.value as SchedulerName)}
+                  disabled={busy}
+                  title="Scheduling algorithm for students who have not been given their own"
+                  style={{ ...inputStyle, padding: '5px' }}
+                >
+                  {(Object.keys(SCHEDULER_LABELS) as SchedulerName[]).map(name => (
+                    <option key={name} value={name}>{SCHEDULER_LABELS[name]}</option>
+                  ))}
+                </select>
+                <select
+                  value={summary.answer_mode}
+                  onChange={e => changeAnswerMode(summary, e.target.value as AnswerMode)}
+                  disabled={busy}
+                  title="How students answer each card"
+                  style={{ ...inputStyle, padding: '5px' }}
+                >
+                  {(Object.keys(ANSWER_MODE_LABELS) as AnswerMode[]).map(mode => (
+                    <option key={mode} value={mode}>{ANSWER_MODE_LABELS[mode]}</option>
+                  ))}
+                </select>
+                <button onClick={() => changeSteps(summary)} disabled={busy} style={smallButtonStyle('#6f42c1')}>
+                  Steps
+                </button>
+                <button onClick={() => changeNewCardsPerDay(summary)} disabled={busy} style={smallButtonStyle('#6f42c1')}>
+                  New/day
+                </button>
+                <button
+                  onClick={() => changeSchoolDay(summary)}
+                  disabled={busy}
+                  title={`${summary.timezone ?? 'Default timezone'}, day starts ${
+                    summary.day_rollover_hour === null ? 'at the default hour' : `at ${summary.day_rollover_hour}:00`
+                  }`}
+                  style={smallButtonStyle('#6f42c1')}
+                >
+                  School Day
+                </button>
+                <button onClick={() => printLoginCard(summary)} style={smallButtonStyle('#17a2b8')}>
+                  Print Card
+                </button>
+                <button onClick={() => regenerateCode(summary)} disabled={busy} style={smallButtonStyle('#6c757d')}>
+                  New Code
+                </button>
+                <button
+                  onClick={() => {
+                    setEditingId(summary.id);
+                    setEditingName(summary.name);
+                  }}
+                  style={smallButtonStyle('#ffc107', '#212529')}
+                >
+                  Rename
+                </button>
+                <button onClick={() => deleteClass(summary)} disabled={busy} style={smallButtonStyle('#dc3545')}>
+                  Delete
+                </button>
+              </>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
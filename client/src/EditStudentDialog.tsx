@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { authHeaders } from './lib/session';
+import { ClassSummary, PictureCatalog, PictureDifficulty, SchedulerName } from './types';
+import PictureSequencePicker, { difficultyLength } from './PictureSequencePicker';
+import { SCHEDULER_LABELS } from './ClassManager';
+
+export interface EditableStudent {
+  id: string;
+  username: string;
+  display_name: string;
+  class_id: string | null;
+  scheduler: SchedulerName | null;
+}
+
+const labelStyle = { display: 'block', fontSize: '14px', color: '#555', marginBottom: '4px' };
+
+const inputStyle = {
+  width: '100%',
+  padding: '10px',
+  borderRadius: '6px',
+  border: '1px solid #ccc',
+  boxSizing: 'border-box' as const
+};
+
+export default function EditStudentDialog({
+  student,
+  classes,
+  pictureCatalog,
+  sessionToken,
+  onSaved,
+  onClose
+}: {
+  student: EditableStudent;
+  classes: ClassSummary[];
+  pictureCatalog: PictureCatalog | null;
+  sessionToken: string;
+  onSaved: () => void;
+  onClose: () => void;
+}) {
+  const [displayName, setDisplayName] = useState(student.display_name);
+  const [username, setUsername] = useState(student.username);
+  const [classId, setClassId] = useState(student.class_id ?? '');
+  const [scheduler, setScheduler] = useState<SchedulerName | ''>(student.scheduler ?? '');
+  const [changePictures, setChangePictures] = useState(false);
+  const [pictureDifficulty, setPictureDifficulty] = useState<PictureDifficulty>('easy');
+  const [picturePassword, setPicturePassword] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async () => {
+    const changes: Record<string, unknown> = {};
+    if (displayName.trim() !== student.display_name) changes.displayName = displayName.trim();
+    if (username.trim() !== student.username) changes.username = username.trim();
+    // A student signs in through their class's join code, so the class can be changed but not removed
+    if (classId && classId !== student.class_id) changes.classId = classId;
+    if ((scheduler || null) !== student.scheduler) changes.scheduler = scheduler || null;
+    if (changePictures) {
+      if (!pictureCatalog || picturePassword.length !== difficultyLength(pictureCatalog, pictureDifficulty)) {
+        setError('Please choose all of the new pictures.');
+        return;
+      }
+      changes.pictureDifficulty = pictureDifficulty;
+      changes.picturePassword = picturePassword;
+    }
+    if (Object.keys(changes).length === 0) {
+      onClose();
+      return;
+    }
+    if (changes.displayName === '' || changes.username === '') {
+      setError('Display name and username cannot be empty.');
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/teacher/students/${student.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders(sessionToken)
+        },
+        body: JSON.stringify(changes)
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || `Failed to update student (${response.status})`);
+      }
+      onSaved();
+    } catch (err: any) {
+      setError(err.message || 'Failed to update student');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Students without a class fall back to SM-2 on the server
+  const classScheduler = classes.find(summary => summary.id === classId)?.scheduler ?? 'sm2';
+
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        backgroundColor: 'rgba(0,0,0,0.4)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 10
+      }}
+    >
+      <div
+        onClick={e => e.stopPropagation()}
+        style={{
+          backgroundColor: 'white',
+          padding: '24px',
+          borderRadius: '12px',
+          width: '100%',
+          maxWidth: '520px',
+          boxShadow: '0 4px 20px rgba(0,0,0,0.2)'
+        }}
+      >
+        <h2 style={{ margin: '0 0 16px 0', color: '#333' }}>Edit {student.display_name}</h2>
+
+        <div style={{ marginBottom: '12px' }}>
+          <label style={labelStyle}>Display Name</label>
+          <input value={displayName} onChange={e => setDisplayName(e.target.value)} style={inputStyle} />
+        </div>
+        <div style={{ marginBottom: '12px' }}>
+          <label style={labelStyle}>Username</label>
+          <input value={username} onChange={e => setUsername(e.target.value)} style={inputStyle} />
+        </div>
+        <div style={{ marginBottom: '12px' }}>
+          <label style={labelStyle}>Class</label>
+          <select value={classId} onChange={e => setClassId(e.target.value)} style={inputStyle}>
+            {!student.class_id && <option value="" disabled>No class (cannot sign in)</option>}
+            {classes.map(summary => (
+              <option key={summary.id} value={summary.id}>{summary.name}</option>
+            ))}
+          </select>
+        </div>
+        <div style={{ marginBottom: '12px' }}>
+          <label style={labelStyle}>Scheduling Algorithm</label>
+          <select value={scheduler} onChange={e => setScheduler(e.target.value as SchedulerName | '')} style={inputStyle}>
+            <option value="">Class default ({SCHEDULER_LABELS[classScheduler]})</option>
+            {(Object.keys(SCHEDULER_LABELS) as SchedulerName[]).map(name => (
+              <option key={name} value={name}>{SCHEDULER_LABELS[name]}</option>
+            ))}
+          </select>
+        </div>
+        <div style={{ marginBottom: '16px' }}>
+          <label style={{ fontSize: '14px', color: '#555' }}>
+            <input
+              type="checkbox"
+              checked={changePictures}
+              onChange={e => setChangePictures(e.target.checked)}
+              style={{ marginRight: '8px' }}
+            />
+            Change picture password (signs the student out everywhere)
+          </label>
+          {changePictures && pictureCatalog && (
+            <div style={{ marginTop: '12px' }}>
+              <PictureSequencePicker
+                catalog={pictureCatalog}
+                difficulty={pictureDifficulty}
+                sequence={picturePassword}
+                onDifficultyChange={setPictureDifficulty}
+                onSequenceChange={setPicturePassword}
+              />
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div style={{
+            marginBottom: '16px',
+            padding: '12px',
+            backgroundColor: '#f8d7da',
+            border: '1px solid #f5c6cb',
+            borderRadius: '6px',
+            color: '#721c24',
+            fontSize: '14px'
+          }}>
+            {error}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', gap: '12px', justifyContent: 'flex-end' }}>
+          <button
+            onClick={onClose}
+            style={{ padding: '10px 20px', backgroundColor: '#6c757d', color: 'white', border: 'none', borderRadius: '6px', cursor: 'pointer' }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={save}
+            disabled={busy}
+            style={{
+              padding: '10px 20px',
+              backgroundColor: '#007bff',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: busy ? 'not-allowed' : 'pointer'
+            }}
+          >
+            {busy ? 'Saving…' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
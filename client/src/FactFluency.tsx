@@ -0,0 +1,202 @@
+import { useState, useEffect } from 'react';
+import { authHeaders } from './lib/session';
+
+interface FactFluencyRow {
+  card_id: number;
+  front: string;
+  factor_a: number | null;
+  factor_b: number | null;
+  attempts: number;
+  accuracy: number;
+  median_response_ms: number | null;
+  fluent: boolean;
+}
+
+interface FluencyReport {
+  fluent_response_ms: number;
+  fluent_accuracy: number;
+  facts: FactFluencyRow[];
+}
+
+interface Misconception {
+  card_id: number;
+  front: string;
+  back: string;
+  answer: string;
+  misconception_label: string | null;
+  times: number;
+  students: number;
+}
+
+const FACTORS = Array.from({ length: 12 }, (_, index) => index + 1);
+const REPORT_RANGES = [7, 30, 90];
+
+const cellSize = '34px';
+
+function cellColor(fact: FactFluencyRow | undefined, report: FluencyReport): string {
+  if (!fact) return '#f1f3f5';
+  if (fact.fluent) return '#8ce99a';
+  if (fact.accuracy >= report.fluent_accuracy) return '#ffe066';
+  return '#ffa8a8';
+}
+
+function seconds(ms: number | null): string {
+  return ms === null ? '—' : `${(ms / 1000).toFixed(1)}s`;
+}
+
+// A times-table grid of how quickly and reliably each fact is answered, and the
+// wrong answers given most often. `endpoint` is the student or class URL the
+// /fluency and /misconceptions reports hang off.
+export default function FactFluency({
+  endpoint,
+  sessionToken,
+  showStudentCounts = false
+}: {
+  endpoint: string;
+  sessionToken: string;
+  showStudentCounts?: boolean;
+}) {
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<FluencyReport | null>(null);
+  const [misconceptions, setMisconceptions] = useState<Misconception[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setError(null);
+      try {
+        const [fluencyResponse, misconceptionResponse] = await Promise.all([
+          fetch(`${endpoint}/fluency?days=${days}`, { headers: authHeaders(sessionToken) }),
+          fetch(`${endpoint}/misconceptions?days=${days}`, { headers: authHeaders(sessionToken) })
+        ]);
+        const fluency = await fluencyResponse.json().catch(() => null);
+        const wrong = await misconceptionResponse.json().catch(() => null);
+        if (!fluencyResponse.ok || !Array.isArray(fluency?.facts)) {
+          throw new Error(fluency?.error ?? `Failed to load fluency (${fluencyResponse.status})`);
+        }
+        if (!misconceptionResponse.ok || !Array.isArray(wrong?.misconceptions)) {
+          throw new Error(wrong?.error ?? `Failed to load misconceptions (${misconceptionResponse.status})`);
+        }
+        if (!cancelled) {
+          setReport(fluency);
+          setMisconceptions(wrong.misconceptions);
+        }
+      } catch (err: any) {
+        if (!cancelled) setError(err.message || 'Failed to load fluency');
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [endpoint, sessionToken, days]);
+
+  const byFactors = new Map<string, FactFluencyRow>();
+  for (const fact of report?.facts ?? []) {
+    byFactors.set(`${fact.factor_a}x${fact.factor_b}`, fact);
+  }
+  const fluentCount = (report?.facts ?? []).filter(fact => fact.fluent).length;
+
+  return (
+    <div style={{
+      backgroundColor: 'white',
+      padding: '24px',
+      borderRadius: '8px',
+      border: '1px solid #ddd',
+      marginBottom: '32px'
+    }}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', alignItems: 'center', marginBottom: '16px' }}>
+        <h3 style={{ margin: 0, color: '#333', flex: 1 }}>Fact Fluency</h3>
+        <select
+          value={days}
+          onChange={e => setDays(Number(e.target.value))}
+          style={{ padding: '6px', borderRadius: '6px', border: '1px solid #ccc' }}
+        >
+          {REPORT_RANGES.map(range => (
+            <option key={range} value={range}>Last {range} days</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div style={{
+          marginBottom: '12px',
+          padding: '10px',
+          backgroundColor: '#f8d7da',
+          border: '1px solid #f5c6cb',
+          borderRadius: '6px',
+          color: '#721c24',
+          fontSize: '14px'
+        }}>
+          {error}
+        </div>
+      )}
+
+      {report && (
+        <>
+          <div style={{ fontSize: '14px', color: '#555', marginBottom: '12px' }}>
+            {fluentCount} of {report.facts.length} practised facts fluent (at least{' '}
+            {Math.round(report.fluent_accuracy * 100)}% right, typically within {seconds(report.fluent_response_ms)}).
+            Yellow facts are right but slow; red ones are often wrong.
+          </div>
+          <div style={{ overflowX: 'auto', marginBottom: '16px' }}>
+            <table style={{ borderCollapse: 'collapse', fontSize: '11px' }}>
+              <thead>
+                <tr>
+                  <th style={{ width: cellSize }}>×</th>
+                  {FACTORS.map(b => <th key={b} style={{ width: cellSize }}>{b}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {FACTORS.map(a => (
+                  <tr key={a}>
+                    <th>{a}</th>
+                    {FACTORS.map(b => {
+                      const fact = byFactors.get(`${a}x${b}`);
+                      return (
+                        <td
+                          key={b}
+                          title={fact
+                            ? `${fact.front}: ${Math.round(fact.accuracy * 100)}% right over ${fact.attempts}, median ${seconds(fact.median_response_ms)}`
+                            : `${a} × ${b}: no timed answers yet`}
+                          style={{
+                            width: cellSize,
+                            height: cellSize,
+                            textAlign: 'center',
+                            border: '1px solid white',
+                            backgroundColor: cellColor(fact, report)
+                          }}
+                        >
+                          {fact ? seconds(fact.median_response_ms) : ''}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <h4 style={{ margin: '0 0 8px 0', color: '#333' }}>Common Wrong Answers</h4>
+          {misconceptions.length === 0 ? (
+            <div style={{ fontSize: '14px', color: '#666' }}>No wrong answers recorded in this period.</div>
+          ) : (
+            <ul style={{ margin: 0, paddingLeft: '20px', fontSize: '14px', color: '#333' }}>
+              {misconceptions.map(item => (
+                <li key={`${item.card_id}-${item.answer}`} style={{ marginBottom: '4px' }}>
+                  {item.front} = {item.back}, answered <strong>{item.answer}</strong>{' '}
+                  {item.times === 1 ? 'once' : `${item.times} times`}
+                  {showStudentCounts && ` by ${item.students} student${item.students === 1 ? '' : 's'}`}
+                  {item.misconception_label && (
+                    <span style={{ color: '#666' }}> ({item.misconception_label})</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
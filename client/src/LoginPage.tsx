@@ -1,63 +1,98 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, FormEvent } from 'react';
+import { fetchPictureCatalog, pictureById } from './lib/pictures';
+import { loadClassCode, saveClassCode } from './lib/classCode';
+import { PictureOption } from './types';
 
 interface User {
   id: string;
   username: string;
   display_name: string;
   user_type: string;
-  picture_password: string;
+}
+
+interface RosterEntry {
+  id: string;
+  display_name: string;
+  avatar: string | null;
+  picture_length: number;
+}
+
+interface RosterResponse {
+  class: { name: string; join_code: string } | null;
+  students: RosterEntry[];
+  error?: string;
+  locked?: boolean;
+  retry_after_seconds?: number;
 }
 
 interface LoginResponse {
   user?: User;
+  token?: string;
   success: boolean;
   error?: string;
+  locked?: boolean;
+  retry_after_seconds?: number;
 }
 
-type LoginMode = 'student' | 'teacher';
-
-const PICTURE_OPTIONS = [
-  { id: '1', emoji: '🐶', label: 'Dog' },
-  { id: '2', emoji: '🐱', label: 'Cat' },
-  { id: '3', emoji: '🐰', label: 'Rabbit' },
-  { id: '4', emoji: '🦊', label: 'Fox' },
-  { id: '5', emoji: '🐻', label: 'Bear' }
-];
-
-const filterUsers = (list: User[], teacherOnly: boolean) =>
-  list.filter(user =>
-    teacherOnly ? user.user_type === 'teacher' : user.user_type !== 'teacher'
-  );
-
 export default function LoginPage({
-  onLogin,
-  mode = 'student'
+  onLogin
 }: {
-  onLogin: (user: User) => void;
-  mode?: LoginMode;
+  onLogin: (user: User, token: string) => void;
 }) {
-  const isTeacherMode = mode === 'teacher';
-  const [users, setUsers] = useState<User[]>([]);
-  const [selectedUser, setSelectedUser] = useState<User | null>(null);
-  const [selectedPicture, setSelectedPicture] = useState<string | null>(null);
+  const [users, setUsers] = useState<RosterEntry[]>([]);
+  const [classCode, setClassCode] = useState<string | null>(() => loadClassCode());
+  const [className, setClassName] = useState<string | null>(null);
+  const [codeInput, setCodeInput] = useState('');
+  const [codeError, setCodeError] = useState<string | null>(null);
+  const [selectedUser, setSelectedUser] = useState<RosterEntry | null>(null);
+  const [pictures, setPictures] = useState<PictureOption[]>([]);
+  const [pictureSequence, setPictureSequence] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [loadingUsers, setLoadingUsers] = useState(true);
   const [userListError, setUserListError] = useState<string | null>(null);
 
   useEffect(() => {
+    fetchPictureCatalog()
+      .then(catalog => setPictures(catalog.pictures))
+      .catch(err => console.error('Failed to load picture catalog:', err));
+  }, []);
+
+  useEffect(() => {
+    // Only a class code brings up a roster
+    if (!classCode) {
+      setUsers([]);
+      setUserListError(null);
+      setLoadingUsers(false);
+      return;
+    }
     let active = true;
     setLoadingUsers(true);
     setUserListError(null);
 
     (async () => {
       try {
-        const response = await fetch('/api/users');
-        const data: User[] = await response.json();
-        if (active) {
-          setUsers(filterUsers(data, isTeacherMode));
-          setUserListError(null);
+        const response = await fetch(`/api/login/roster?classCode=${encodeURIComponent(classCode)}`);
+        const data: RosterResponse = await response.json();
+        if (!active) return;
+
+        if (response.status === 404 || response.status === 429) {
+          saveClassCode(null);
+          setClassCode(null);
+          setCodeError(
+            response.status === 429
+              ? `Too many wrong codes. Try again in ${data.retry_after_seconds ?? 'a few'} seconds.`
+              : 'That class code was not found. Check the code on your login card.'
+          );
+          return;
+        }
+        if (!response.ok) {
+          throw new Error(`Failed to load roster: ${response.status}`);
         }
+        saveClassCode(classCode);
+        setUsers(data.students);
+        setClassName(data.class?.name ?? null);
+        setUserListError(null);
       } catch (err) {
         console.error('Failed to load users:', err);
         if (active) {
@@ -74,22 +109,42 @@ export default function LoginPage({
     return () => {
       active = false;
     };
-  }, [isTeacherMode]);
+  }, [classCode]);
+
+  const submitClassCode = (e: FormEvent) => {
+    e.preventDefault();
+    const code = codeInput.trim().toUpperCase();
+    if (!code) return;
+    setCodeError(null);
+    setCodeInput('');
+    setClassCode(code);
+  };
+
+  const changeClass = () => {
+    window.history.replaceState(null, '', window.location.pathname);
+    saveClassCode(null);
+    setClassCode(null);
+    setClassName(null);
+    setCodeError(null);
+  };
 
-  const handleUserSelect = (user: User) => {
+  const handleUserSelect = (user: RosterEntry) => {
     setSelectedUser(user);
-    setSelectedPicture(null);
+    setPictureSequence([]);
     setError('');
   };
 
+  const requiredLength = selectedUser?.picture_length ?? 1;
+  const sequenceComplete = pictureSequence.length === requiredLength;
+
   const handlePictureSelect = (pictureId: string) => {
-    setSelectedPicture(pictureId);
+    setPictureSequence(prev => (prev.length < requiredLength ? [...prev, pictureId] : prev));
     setError('');
   };
 
   const handleLogin = async () => {
-    if (!selectedUser || !selectedPicture) {
-      setError('Please select your username and picture');
+    if (!selectedUser || !sequenceComplete) {
+      setError('Please select your username and all of your pictures');
       return;
     }
 
@@ -101,24 +156,27 @@ export default function LoginPage({
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          username: selectedUser.username,
-          picturePassword: selectedPicture
+          userId: selectedUser.id,
+          picturePassword: pictureSequence
         })
       });
 
       const data: LoginResponse = await response.json();
 
-      if (data.success && data.user) {
-        if (isTeacherMode && data.user.user_type !== 'teacher') {
-          setError('This portal is for teachers only.');
-          return;
-        }
-        if (!isTeacherMode && data.user.user_type === 'teacher') {
-          setError('Teacher accounts must use the teacher portal.');
-          return;
-        }
-        onLogin(data.user);
+      if (response.status === 429) {
+        setPictureSequence([]);
+        setError(
+          data.locked
+            ? 'Too many wrong tries. Please ask your teacher to help you log in.'
+            : `Too many tries. Take a breath and try again in ${data.retry_after_seconds ?? 'a few'} seconds.`
+        );
+        return;
+      }
+
+      if (data.success && data.user && data.token) {
+        onLogin(data.user, data.token);
       } else {
+        setPictureSequence([]);
         setError(data.error || 'Login failed');
       }
     } catch (err) {
@@ -130,7 +188,7 @@ export default function LoginPage({
 
   const goBack = () => {
     setSelectedUser(null);
-    setSelectedPicture(null);
+    setPictureSequence([]);
     setError('');
   };
 
@@ -171,49 +229,94 @@ export default function LoginPage({
           <h1 style={{ marginBottom: '16px', color: '#333' }}>
             {`Welcome back, ${selectedUser.display_name}!`}
           </h1>
-          <p style={{ marginBottom: '32px', color: '#666' }}>
-            {isTeacherMode
-              ? 'Confirm your teacher picture password to continue'
+          <p style={{ marginBottom: '24px', color: '#666' }}>
+            {requiredLength > 1
+              ? `Tap your ${requiredLength} pictures in order`
               : 'Select your picture password to continue'}
           </p>
 
+          <div style={{
+            display: 'flex',
+            justifyContent: 'center',
+            alignItems: 'center',
+            gap: '12px',
+            marginBottom: '24px'
+          }}>
+            {Array.from({ length: requiredLength }, (_, index) => {
+              const picture = pictureSequence[index]
+                ? pictureById(pictures, pictureSequence[index])
+                : undefined;
+              return (
+                <div
+                  key={index}
+                  style={{
+                    width: '56px',
+                    height: '56px',
+                    borderRadius: '12px',
+                    border: picture ? '3px solid #007bff' : '2px dashed #ccc',
+                    backgroundColor: picture ? '#e7f3ff' : '#fafafa',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    fontSize: '32px'
+                  }}
+                >
+                  {picture?.emoji ?? ''}
+                </div>
+              );
+            })}
+            <button
+              onClick={() => setPictureSequence(prev => prev.slice(0, -1))}
+              disabled={pictureSequence.length === 0}
+              aria-label="Undo last picture"
+              style={{
+                padding: '8px 12px',
+                fontSize: '18px',
+                backgroundColor: 'white',
+                border: '2px solid #ddd',
+                borderRadius: '8px',
+                cursor: pictureSequence.length === 0 ? 'not-allowed' : 'pointer',
+                opacity: pictureSequence.length === 0 ? 0.5 : 1
+              }}
+            >
+              ⌫
+            </button>
+          </div>
+
           <div style={{
             display: 'grid',
-            gridTemplateColumns: 'repeat(3, 1fr)',
-            gap: '16px',
+            gridTemplateColumns: 'repeat(4, 1fr)',
+            gap: '12px',
             marginBottom: '32px'
           }}>
-            {PICTURE_OPTIONS.map(option => (
+            {pictures.map(option => (
               <button
                 key={option.id}
                 onClick={() => handlePictureSelect(option.id)}
+                disabled={sequenceComplete}
                 style={{
-                  padding: '24px',
-                  border: selectedPicture === option.id
-                    ? '3px solid #007bff'
-                    : '2px solid #ddd',
+                  padding: '12px',
+                  border: '2px solid #ddd',
                   borderRadius: '12px',
-                  backgroundColor: selectedPicture === option.id ? '#e7f3ff' : 'white',
-                  cursor: 'pointer',
-                  fontSize: '48px',
+                  backgroundColor: 'white',
+                  cursor: sequenceComplete ? 'default' : 'pointer',
+                  fontSize: '40px',
                   transition: 'all 0.2s ease',
                   display: 'flex',
                   flexDirection: 'column',
                   alignItems: 'center',
-                  gap: '8px',
-                  minHeight: '120px'
+                  gap: '4px',
+                  minHeight: '96px'
                 }}
                 onMouseOver={(e) => {
-                  if (selectedPicture !== option.id) {
+                  if (!sequenceComplete) {
                     e.currentTarget.style.backgroundColor = '#f8f9fa';
                     e.currentTarget.style.transform = 'scale(1.05)';
                   }
                 }}
                 onMouseOut={(e) => {
-                  if (selectedPicture !== option.id) {
-                    e.currentTarget.style.backgroundColor = 'white';
-                    e.currentTarget.style.transform = 'scale(1)';
-                  }
+                  e.currentTarget.style.backgroundColor = 'white';
+                  e.currentTarget.style.transform = 'scale(1)';
                 }}
               >
                 <span>{option.emoji}</span>
@@ -256,17 +359,17 @@ export default function LoginPage({
             </button>
             <button
               onClick={handleLogin}
-              disabled={loading || !selectedPicture}
+              disabled={loading || !sequenceComplete}
               style={{
                 flex: 2,
                 padding: '14px',
                 fontSize: '16px',
                 fontWeight: 'bold',
-                backgroundColor: (loading || !selectedPicture) ? '#6c757d' : '#007bff',
+                backgroundColor: (loading || !sequenceComplete) ? '#6c757d' : '#007bff',
                 color: 'white',
                 border: 'none',
                 borderRadius: '6px',
-                cursor: (loading || !selectedPicture) ? 'not-allowed' : 'pointer',
+                cursor: (loading || !sequenceComplete) ? 'not-allowed' : 'pointer',
                 transition: 'background-color 0.2s ease'
               }}
             >
@@ -298,13 +401,74 @@ export default function LoginPage({
         maxWidth: '600px'
       }}>
         <h1 style={{ marginBottom: '8px', color: '#333' }}>
-          {isTeacherMode ? 'Teacher Portal' : '12x12'}
+          12x12
         </h1>
-        <p style={{ marginBottom: '32px', color: '#666' }}>
-          {isTeacherMode
-            ? 'Sign in to manage student progress and sessions.'
-            : 'Select your username card to continue'}
-        </p>
+        {className ? (
+          <p style={{ marginBottom: '32px', color: '#666' }}>
+            <strong>{className}</strong> · Select your username card to continue{' '}
+            <button
+              onClick={changeClass}
+              style={{
+                marginLeft: '8px',
+                padding: '4px 10px',
+                fontSize: '12px',
+                backgroundColor: 'white',
+                color: '#007bff',
+                border: '1px solid #007bff',
+                borderRadius: '4px',
+                cursor: 'pointer'
+              }}
+            >
+              Change class
+            </button>
+          </p>
+        ) : (
+          <form onSubmit={submitClassCode} style={{ marginBottom: '32px' }}>
+            <p style={{ marginBottom: '12px', color: '#666' }}>
+              Type the class code from your login card
+            </p>
+            <div style={{ display: 'flex', gap: '8px', justifyContent: 'center' }}>
+              <input
+                value={codeInput}
+                onChange={e => setCodeInput(e.target.value)}
+                placeholder="CLASS CODE"
+                autoCapitalize="characters"
+                autoComplete="off"
+                style={{
+                  width: '180px',
+                  padding: '12px',
+                  fontSize: '20px',
+                  letterSpacing: '4px',
+                  textAlign: 'center',
+                  textTransform: 'uppercase',
+                  borderRadius: '6px',
+                  border: '1px solid #ccc'
+                }}
+              />
+              <button
+                type="submit"
+                disabled={!codeInput.trim()}
+                style={{
+                  padding: '12px 20px',
+                  fontSize: '16px',
+                  fontWeight: 'bold',
+                  backgroundColor: codeInput.trim() ? '#007bff' : '#6c757d',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '6px',
+                  cursor: codeInput.trim() ? 'pointer' : 'not-allowed'
+                }}
+              >
+                Go →
+              </button>
+            </div>
+            {codeError && (
+              <div style={{ marginTop: '12px', color: '#721c24', fontSize: '14px' }}>
+                {codeError}
+              </div>
+            )}
+          </form>
+        )}
 
         {users.length > 0 ? (
           <div style={{
@@ -345,7 +509,7 @@ export default function LoginPage({
                   width: '60px',
                   height: '60px',
                   borderRadius: '50%',
-                  backgroundColor: user.user_type === 'teacher' ? '#28a745' : '#007bff',
+                  backgroundColor: '#007bff',
                   display: 'flex',
                   alignItems: 'center',
                   justifyContent: 'center',
@@ -354,25 +518,22 @@ export default function LoginPage({
                   fontWeight: 'bold',
                   marginBottom: '8px'
                 }}>
-                  {user.user_type === 'teacher' ? '👨‍🏫' : '👨‍🎓'}
+                  {user.avatar ?? '👨‍🎓'}
                 </div>
                 <div style={{ fontSize: '18px', fontWeight: 'bold', color: '#333' }}>
                   {user.display_name}
                 </div>
-                <div style={{ fontSize: '14px', color: '#666' }}>
-                  @{user.username}
-                </div>
                 <div style={{
                   fontSize: '12px',
-                  color: user.user_type === 'teacher' ? '#28a745' : '#007bff',
+                  color: '#007bff',
                   fontWeight: 'bold'
                 }}>
-                  {user.user_type === 'teacher' ? 'Teacher' : 'Student'}
+                  Student
                 </div>
               </button>
             ))}
           </div>
-        ) : (
+        ) : (className || userListError) && (
           <div style={{
             marginBottom: '32px'
           }}>
@@ -384,7 +545,7 @@ export default function LoginPage({
               color: userListError ? '#721c24' : '#856404'
             }}>
               {userListError ??
-                `No ${isTeacherMode ? 'teacher' : 'student'} accounts found. Please contact your administrator.`}
+                'No students in this class yet. Please ask your teacher.'}
             </div>
           </div>
         )}
@@ -404,35 +565,19 @@ export default function LoginPage({
         )}
 
         <div style={{ marginTop: '32px', paddingTop: '24px', borderTop: '1px solid #eee' }}>
-          {isTeacherMode ? (
-            <button
-              onClick={() => (window.location.href = '/')}
-              style={{
-                padding: '8px 16px',
-                backgroundColor: '#6c757d',
-                color: 'white',
-                border: 'none',
-                borderRadius: '4px',
-                cursor: 'pointer'
-              }}
-            >
-              ← Back to student login
-            </button>
-          ) : (
-            <button
-              onClick={() => (window.location.href = '/teacher')}
-              style={{
-                padding: '8px 16px',
-                backgroundColor: '#28a745',
-                color: 'white',
-                border: 'none',
-                borderRadius: '4px',
-                cursor: 'pointer'
-              }}
-            >
-              Teacher login →
-            </button>
-          )}
+          <button
+            onClick={() => (window.location.href = '/teacher')}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: '#28a745',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer'
+            }}
+          >
+            Teacher login →
+          </button>
         </div>
       </div>
     </div>
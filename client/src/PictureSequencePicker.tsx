@@ -0,0 +1,111 @@
+import { PictureCatalog, PictureDifficulty } from './types';
+import { pictureById } from './lib/pictures';
+
+export function randomPictureSequence(catalog: PictureCatalog, length: number): string[] {
+  return Array.from({ length }, () => {
+    const index = Math.floor(Math.random() * catalog.pictures.length);
+    return catalog.pictures[index].id;
+  });
+}
+
+export function difficultyLength(catalog: PictureCatalog, difficulty: PictureDifficulty): number {
+  return catalog.difficulties.find(option => option.id === difficulty)?.length ?? 2;
+}
+
+export default function PictureSequencePicker({
+  catalog,
+  difficulty,
+  sequence,
+  onDifficultyChange,
+  onSequenceChange
+}: {
+  catalog: PictureCatalog;
+  difficulty: PictureDifficulty;
+  sequence: string[];
+  onDifficultyChange: (difficulty: PictureDifficulty) => void;
+  onSequenceChange: (sequence: string[]) => void;
+}) {
+  const length = difficultyLength(catalog, difficulty);
+  const complete = sequence.length >= length;
+
+  return (
+    <div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '12px', alignItems: 'center', marginBottom: '12px' }}>
+        <select
+          value={difficulty}
+          onChange={e => {
+            const next = e.target.value as PictureDifficulty;
+            onDifficultyChange(next);
+            onSequenceChange(sequence.slice(0, difficultyLength(catalog, next)));
+          }}
+          style={{ padding: '8px', borderRadius: '6px', border: '1px solid #ccc' }}
+        >
+          {catalog.difficulties.map(option => (
+            <option key={option.id} value={option.id}>
+              {option.id.charAt(0).toUpperCase() + option.id.slice(1)} ({option.length} pictures)
+            </option>
+          ))}
+        </select>
+        <div style={{ display: 'flex', gap: '6px' }}>
+          {Array.from({ length }, (_, index) => (
+            <div
+              key={index}
+              style={{
+                width: '40px',
+                height: '40px',
+                borderRadius: '8px',
+                border: sequence[index] ? '2px solid #007bff' : '2px dashed #ccc',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                fontSize: '24px'
+              }}
+            >
+              {sequence[index] ? pictureById(catalog.pictures, sequence[index])?.emoji : ''}
+            </div>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => onSequenceChange(randomPictureSequence(catalog, length))}
+          style={{ padding: '6px 12px', borderRadius: '6px', border: '1px solid #007bff', backgroundColor: 'white', color: '#007bff', cursor: 'pointer' }}
+        >
+          Random
+        </button>
+        <button
+          type="button"
+          onClick={() => onSequenceChange([])}
+          disabled={sequence.length === 0}
+          style={{ padding: '6px 12px', borderRadius: '6px', border: '1px solid #6c757d', backgroundColor: 'white', color: '#6c757d', cursor: sequence.length === 0 ? 'not-allowed' : 'pointer' }}
+        >
+          Clear
+        </button>
+      </div>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(8, 40px)', gap: '6px' }}>
+        {catalog.pictures.map(option => (
+          <button
+            type="button"
+            key={option.id}
+            title={option.label}
+            onClick={() => {
+              if (!complete) onSequenceChange([...sequence, option.id]);
+            }}
+            disabled={complete}
+            style={{
+              width: '40px',
+              height: '40px',
+              fontSize: '22px',
+              borderRadius: '8px',
+              border: '1px solid #ddd',
+              backgroundColor: 'white',
+              cursor: complete ? 'default' : 'pointer',
+              opacity: complete ? 0.5 : 1
+            }}
+          >
+            {option.emoji}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+import { useState, useEffect, useCallback } from 'react';
+import { authHeaders } from './lib/session';
+import { SchedulerName } from './types';
+import { SCHEDULER_LABELS } from './ClassManager';
+
+interface FitMetrics {
+  review_count: number;
+  evaluated_review_count: number;
+  observed_retention: number;
+  log_loss_before: number;
+  log_loss_after: number;
+  target_retention: number;
+  scheduled_card_count: number;
+  predicted_retention_before: number | null;
+  predicted_retention_after: number | null;
+}
+
+// A fit queued or running on the server, or the last one if it failed
+interface FitJob {
+  status: 'queued' | 'running' | 'failed';
+  target_retention: number;
+  queued_at: string;
+  error: string | null;
+}
+
+interface SchedulerParams {
+  active_scheduler: SchedulerName;
+  job: FitJob | null;
+  fitted: {
+    scheduler: SchedulerName;
+    target_retention: number;
+    metrics: FitMetrics;
+    fitted_at: string;
+  } | null;
+}
+
+const TARGET_RETENTIONS = [0.8, 0.85, 0.9, 0.95];
+const POLL_INTERVAL_MS = 2000;
+
+function percent(value: number | null | undefined): string {
+  return value === null || value === undefined ? '—' : `${Math.round(value * 100)}%`;
+}
+
+const smallButtonStyle = (backgroundColor: string, disabled: boolean) => ({
+  padding: '6px 12px',
+  fontSize: '13px',
+  backgroundColor: disabled ? '#adb5bd' : backgroundColor,
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: disabled ? 'not-allowed' : 'pointer'
+});
+
+// Fits FSRS parameters to a student's or class's review history and shows the
+// retention their current schedule is heading for against the fitted one. The
+// fit runs in the background on the server, so this polls until it is done.
+export default function SchedulerTuning({
+  endpoint,
+  sessionToken
+}: {
+  endpoint: string;
+  sessionToken: string;
+}) {
+  const [params, setParams] = useState<SchedulerParams | null>(null);
+  const [targetRetention, setTargetRetention] = useState(0.9);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadParams = useCallback(async () => {
+    try {
+      const response = await fetch(endpoint, { headers: authHeaders(sessionToken) });
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !data?.active_scheduler) {
+        throw new Error(data?.error ?? `Failed to load scheduler settings (${response.status})`);
+      }
+      setParams(data);
+      if (data.job && data.job.status !== 'failed') {
+        setTargetRetention(data.job.target_retention);
+      } else if (data.fitted) {
+        setTargetRetention(data.fitted.target_retention);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load scheduler settings');
+    }
+  }, [endpoint, sessionToken]);
+
+  useEffect(() => {
+    setError(null);
+    loadParams();
+  }, [loadParams]);
+
+  const fitting = params?.job?.status === 'queued' || params?.job?.status === 'running';
+
+  useEffect(() => {
+    if (!fitting) return;
+    const timer = setTimeout(loadParams, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [fitting, params, loadParams]);
+
+  const send = async (method: 'POST' | 'DELETE') => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(endpoint, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders(sessionToken)
+        },
+        body: method === 'POST' ? JSON.stringify({ targetRetention }) : undefined
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || `Request failed (${response.status})`);
+      }
+      await loadParams();
+    } catch (err: any) {
+      setError(err.message || 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const fitted = params?.fitted;
+  const metrics = fitted?.metrics;
+  const failedJob = params?.job?.status === 'failed' ? params.job : null;
+  const disabled = busy || fitting;
+  // Only FSRS has parameters to fit; the server refuses a fit for SM-2
+  const canFit = params?.active_scheduler === 'fsrs';
+
+  return (
+    <div style={{
+      backgroundColor: 'white',
+      padding: '24px',
+      borderRadius: '8px',
+      border: '1px solid #ddd',
+      marginBottom: '32px'
+    }}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', alignItems: 'center', marginBottom: '16px' }}>
+        <h3 style={{ margin: 0, color: '#333', flex: 1 }}>Scheduling</h3>
+        <label style={{ fontSize: '13px', color: '#555' }}>
+          Target retention{' '}
+          <select
+            value={targetRetention}
+            onChange={e => setTargetRetention(Number(e.target.value))}
+            style={{ padding: '6px', borderRadius: '6px', border: '1px solid #ccc' }}
+          >
+            {TARGET_RETENTIONS.map(value => (
+              <option key={value} value={value}>{percent(value)}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={() => send('POST')}
+          disabled={disabled || !canFit}
+          style={smallButtonStyle('#6f42c1', disabled || !canFit)}
+        >
+          {fitting ? 'Fitting…' : 'Fit FSRS From History'}
+        </button>
+        {fitted && (
+          <button onClick={() => send('DELETE')} disabled={disabled} style={smallButtonStyle('#6c757d', disabled)}>
+            Use Defaults
+          </button>
+        )}
+      </div>
+
+      <div style={{ fontSize: '13px', color: '#666', marginBottom: '12px' }}>
+        Fitting only tunes FSRS.{' '}
+        {params && !canFit
+          ? `Scheduling here uses ${SCHEDULER_LABELS[params.active_scheduler]}, which has no parameters to fit; switch to ${SCHEDULER_LABELS.fsrs} first.`
+          : `Students scheduled with ${SCHEDULER_LABELS.sm2} keep its standard intervals.`}
+      </div>
+
+      {(error || failedJob) && (
+        <div style={{
+          marginBottom: '12px',
+          padding: '10px',
+          backgroundColor: '#f8d7da',
+          border: '1px solid #f5c6cb',
+          borderRadius: '6px',
+          color: '#721c24',
+          fontSize: '14px'
+        }}>
+          {error ?? `Last fit failed: ${failedJob?.error ?? 'unknown error'}`}
+        </div>
+      )}
+
+      {params && (
+        <div style={{ fontSize: '14px', color: '#555', marginBottom: fitted ? '16px' : 0 }}>
+          Uses {SCHEDULER_LABELS[params.active_scheduler]}.{' '}
+          {fitting && 'Fitting parameters from review history… '}
+          {fitted
+            ? `Parameters fitted ${new Date(fitted.fitted_at).toLocaleDateString()} from ${metrics?.review_count ?? 0} reviews.`
+            : 'Using default parameters.'}
+          {fitted && fitted.scheduler !== params.active_scheduler && (
+            <span style={{ color: '#856404' }}>
+              {' '}Fitted parameters apply once {SCHEDULER_LABELS[fitted.scheduler]} is selected.
+            </span>
+          )}
+        </div>
+      )}
+
+      {metrics && (
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(160px, 1fr))', gap: '12px' }}>
+          {[
+            { label: 'Observed Retention', value: percent(metrics.observed_retention) },
+            { label: 'Predicted (current schedule)', value: percent(metrics.predicted_retention_before) },
+            { label: 'Predicted (fitted schedule)', value: percent(metrics.predicted_retention_after) },
+            {
+              label: 'Model Error (log loss)',
+              value: `${metrics.log_loss_before.toFixed(3)} → ${metrics.log_loss_after.toFixed(3)}`
+            }
+          ].map(tile => (
+            <div key={tile.label} style={{ padding: '12px', borderRadius: '6px', backgroundColor: '#f8f9fa' }}>
+              <div style={{ fontSize: '12px', color: '#666', marginBottom: '4px' }}>{tile.label}</div>
+              <div style={{ fontSize: '20px', fontWeight: 'bold', color: '#333' }}>{tile.value}</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState, useEffect } from 'react';
+import { AnswerMode, PracticeSet } from './types';
+import { authHeaders } from './lib/session';
+
+interface SprintBest {
+  practice_set: PracticeSet;
+  duration_seconds: number;
+  score: number;
+  sprints: number;
+}
+
+interface SprintResult {
+  id: string;
+  practice_set: PracticeSet;
+  duration_seconds: number;
+  answer_mode: AnswerMode;
+  attempted: number;
+  score: number;
+  accuracy: number;
+  started_at: string;
+  // Beat every earlier sprint of the same set and length
+  personal_best: boolean;
+}
+
+interface SprintHistoryReport {
+  bests: SprintBest[];
+  sprints: SprintResult[];
+}
+
+const PRACTICE_SET_LABELS: Record<PracticeSet, string> = {
+  '9x9': '9×9',
+  full: 'Full table'
+};
+
+function sprintLabel(sprint: { practice_set: PracticeSet; duration_seconds: number }): string {
+  return `${PRACTICE_SET_LABELS[sprint.practice_set]} · ${sprint.duration_seconds / 60} min`;
+}
+
+// Timed sprint scores with personal bests. `endpoint` is /api/sprints for the
+// signed-in student or the teacher URL for one of their students;
+// `highlightSprintId` marks a sprint that has just finished.
+export default function SprintHistory({
+  endpoint,
+  sessionToken,
+  highlightSprintId
+}: {
+  endpoint: string;
+  sessionToken: string;
+  highlightSprintId?: string;
+}) {
+  const [report, setReport] = useState<SprintHistoryReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setError(null);
+      try {
+        const response = await fetch(endpoint, { headers: authHeaders(sessionToken) });
+        const data = await response.json().catch(() => null);
+        if (!response.ok || !Array.isArray(data?.sprints)) {
+          throw new Error(data?.error ?? `Failed to load sprint history (${response.status})`);
+        }
+        if (!cancelled) setReport(data);
+      } catch (err: any) {
+        if (!cancelled) setError(err.message || 'Failed to load sprint history');
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [endpoint, sessionToken, highlightSprintId]);
+
+  const highlighted = report?.sprints.find(sprint => sprint.id === highlightSprintId);
+
+  return (
+    <div style={{
+      backgroundColor: 'white',
+      padding: '24px',
+      borderRadius: '8px',
+      border: '1px solid #ddd',
+      marginBottom: '32px',
+      textAlign: 'left'
+    }}>
+      <h3 style={{ margin: '0 0 16px 0', color: '#333' }}>Sprint Scores</h3>
+
+      {error && (
+        <div style={{
+          marginBottom: '12px',
+          padding: '10px',
+          backgroundColor: '#f8d7da',
+          border: '1px solid #f5c6cb',
+          borderRadius: '6px',
+          color: '#721c24',
+          fontSize: '14px'
+        }}>
+          {error}
+        </div>
+      )}
+
+      {highlighted?.personal_best && (
+        <div style={{
+          marginBottom: '12px',
+          padding: '10px',
+          backgroundColor: '#fff3cd',
+          border: '1px solid #ffeeba',
+          borderRadius: '6px',
+          color: '#856404',
+          fontSize: '16px',
+          fontWeight: 'bold'
+        }}>
+          🏆 New personal best for {sprintLabel(highlighted)}!
+        </div>
+      )}
+
+      {report && report.sprints.length === 0 && (
+        <div style={{ fontSize: '14px', color: '#666' }}>No sprints finished yet.</div>
+      )}
+
+      {report && report.sprints.length > 0 && (
+        <>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', marginBottom: '16px' }}>
+            {report.bests.map(best => (
+              <div
+                key={`${best.practice_set}-${best.duration_seconds}`}
+                style={{
+                  padding: '8px 12px',
+                  borderRadius: '6px',
+                  backgroundColor: '#f1f3f5',
+                  fontSize: '14px',
+                  color: '#333'
+                }}
+              >
+                {sprintLabel(best)}: best <strong>{best.score}</strong>
+                <span style={{ color: '#666' }}> ({best.sprints} sprint{best.sprints === 1 ? '' : 's'})</span>
+              </div>
+            ))}
+          </div>
+          <div style={{ overflowX: 'auto' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px' }}>
+              <thead>
+                <tr style={{ textAlign: 'left', borderBottom: '2px solid #ddd' }}>
+                  <th style={{ padding: '6px' }}>Date</th>
+                  <th style={{ padding: '6px' }}>Sprint</th>
+                  <th style={{ padding: '6px' }}>Score</th>
+                  <th style={{ padding: '6px' }}>Accuracy</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.sprints.map(sprint => (
+                  <tr
+                    key={sprint.id}
+                    style={{
+                      borderBottom: '1px solid #eee',
+                      backgroundColor: sprint.id === highlightSprintId ? '#e7f1ff' : undefined
+                    }}
+                  >
+                    <td style={{ padding: '6px' }}>{new Date(sprint.started_at).toLocaleString()}</td>
+                    <td style={{ padding: '6px' }}>{sprintLabel(sprint)}</td>
+                    <td style={{ padding: '6px' }}>
+                      {sprint.score} of {sprint.attempted}
+                      {sprint.personal_best && <span title="Personal best at the time"> ★</span>}
+                    </td>
+                    <td style={{ padding: '6px' }}>{Math.round(sprint.accuracy * 100)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+import { useEffect, useState } from 'react';
+import { AnswerMode, PracticeSet, SprintCard } from './types';
+import { authHeaders } from './lib/session';
+import SprintHistory from './SprintHistory';
+
+interface Sprint {
+  sprint_id: string;
+  duration_seconds: number;
+  // Typed unless the class answers by picking from options
+  answer_mode: AnswerMode;
+  cards: SprintCard[];
+}
+
+interface LastAnswer {
+  front: string;
+  correct: boolean;
+  expected: string;
+}
+
+function formatClock(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+}
+
+// A timed "mad minute": facts from the chosen set come one after another as
+// fast as the student answers until the clock runs out. The server checks each
+// answer, keeps the score and feeds misses and due facts into scheduling.
+export default function SprintSession({
+  practiceSet,
+  minutes,
+  sessionToken,
+  onExit
+}: {
+  practiceSet: PracticeSet;
+  minutes: number;
+  sessionToken: string;
+  onExit: () => void;
+}) {
+  const [sprint, setSprint] = useState<Sprint | null>(null);
+  const [endsAt, setEndsAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [index, setIndex] = useState(0);
+  const [shownAt, setShownAt] = useState(() => Date.now());
+  const [typedAnswer, setTypedAnswer] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [score, setScore] = useState(0);
+  const [attempted, setAttempted] = useState(0);
+  const [lastAnswer, setLastAnswer] = useState<LastAnswer | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    (async () => {
+      try {
+        const res = await fetch('/api/sprints', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...authHeaders(sessionToken)
+          },
+          body: JSON.stringify({ practiceSet, minutes })
+        });
+        const data = await res.json().catch(() => null);
+        if (!res.ok || !Array.isArray(data?.cards)) {
+          throw new Error(data?.error ?? `Failed to start sprint (${res.status})`);
+        }
+        if (active) {
+          // The clock starts once the first fact is on screen
+          const startedAt = Date.now();
+          setSprint(data);
+          setEndsAt(startedAt + data.duration_seconds * 1000);
+          setNow(startedAt);
+          setShownAt(startedAt);
+        }
+      } catch (err: any) {
+        if (active) setError(err.message || 'Failed to start sprint');
+      }
+    })();
+    return () => {
+      active = false;
+    };
+  }, [practiceSet, minutes, sessionToken]);
+
+  const running = endsAt !== null && now < endsAt;
+
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  const card = sprint && sprint.cards.length > 0 ? sprint.cards[index % sprint.cards.length] : null;
+  // An answer still on its way when time runs out is counted before the results show
+  const finished = endsAt !== null && !running && !busy;
+
+  const submitAnswer = async (answer: string) => {
+    if (!sprint || !card || !running || busy || !answer.trim()) return;
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/sprints/${sprint.sprint_id}/answers`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders(sessionToken)
+        },
+        body: JSON.stringify({
+          cardStateId: card.card_state_id,
+          answer: answer.trim(),
+          responseMs: Date.now() - shownAt
+        })
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error ?? `Failed to record answer (${res.status})`);
+      setScore(data.score);
+      setAttempted(data.attempted);
+      setLastAnswer({ front: card.front, correct: data.correct, expected: data.expected_answer });
+      setIndex(prev => prev + 1);
+      setTypedAnswer('');
+      setShownAt(Date.now());
+    } catch (err: any) {
+      setError(err.message || 'Failed to record answer');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const errorBanner = error && (
+    <div style={{
+      marginTop: '20px',
+      padding: '12px 20px',
+      backgroundColor: '#f8d7da',
+      border: '1px solid #f5c6cb',
+      borderRadius: '8px',
+      color: '#721c24',
+      fontSize: '14px'
+    }}>
+      {error}
+    </div>
+  );
+
+  if (finished && sprint) {
+    return (
+      <div style={{
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        minHeight: '100vh',
+        backgroundColor: '#f5f5f5',
+        padding: '40px 20px'
+      }}>
+        <div style={{
+          backgroundColor: 'white',
+          padding: '48px',
+          borderRadius: '12px',
+          boxShadow: '0 4px 20px rgba(0,0,0,0.1)',
+          textAlign: 'center',
+          width: '100%',
+          maxWidth: '640px'
+        }}>
+          <h1 style={{ marginBottom: '16px', color: '#28a745' }}>⏱️ Time's Up!</h1>
+          <p style={{ marginBottom: '8px', fontSize: '24px', color: '#333' }}>
+            {score} right out of {attempted}
+          </p>
+          <p style={{ marginBottom: '32px', color: '#666' }}>
+            {attempted > 0 ? `${Math.round((score / attempted) * 100)}% accuracy` : 'No answers this time'}
+          </p>
+          {errorBanner}
+          <SprintHistory endpoint="/api/sprints" sessionToken={sessionToken} highlightSprintId={sprint.sprint_id} />
+          <button
+            onClick={onExit}
+            style={{
+              padding: '12px 24px',
+              fontSize: '16px',
+              backgroundColor: '#007bff',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: 'pointer'
+            }}
+          >
+            Back to Session Setup
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div style={{ padding: '16px', borderBottom: '1px solid #ddd', marginBottom: '16px' }}>
+        <button
+          onClick={onExit}
+          style={{ padding: '8px 16px', backgroundColor: '#007bff', color: 'white', border: 'none', borderRadius: '4px' }}
+        >
+          ← Back to Session Setup
+        </button>
+        <div style={{ display: 'flex', gap: '24px', alignItems: 'baseline', marginTop: '8px' }}>
+          <h2 style={{ margin: 0 }}>
+            Sprint: {endsAt === null ? formatClock(minutes * 60 * 1000) : formatClock(Math.max(0, endsAt - now))}
+          </h2>
+          <div style={{ fontSize: '18px', color: '#333' }}>Score: {score}</div>
+        </div>
+        <div style={{ fontSize: '14px', color: '#666' }}>
+          Practice Set: {practiceSet === '9x9' ? '9×9 Times Table' : 'Full Times Table'}
+        </div>
+      </div>
+
+      <div style={{
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        minHeight: '60vh',
+        padding: '20px'
+      }}>
+        {!sprint && !error && <div>Getting ready…</div>}
+
+        {card && (
+          <>
+            <div style={{
+              border: '2px solid #ddd',
+              borderRadius: '12px',
+              padding: '40px',
+              width: '100%',
+              maxWidth: '600px',
+              backgroundColor: '#e7f1ff',
+              textAlign: 'center',
+              fontSize: '40px',
+              fontWeight: 'bold',
+              boxShadow: '0 4px 12px rgba(0,0,0,0.1)'
+            }}>
+              {card.front}
+            </div>
+
+            {sprint?.answer_mode === 'choice' ? (
+              <div style={{
+                marginTop: '30px',
+                display: 'grid',
+                gridTemplateColumns: 'repeat(2, minmax(120px, 1fr))',
+                gap: '16px'
+              }}>
+                {(card.choices ?? []).map(choice => (
+                  <button
+                    key={choice}
+                    onClick={() => submitAnswer(choice)}
+                    disabled={busy || !running}
+                    style={{
+                      padding: '20px 32px',
+                      fontSize: '28px',
+                      fontWeight: 'bold',
+                      border: '2px solid #007bff',
+                      borderRadius: '8px',
+                      backgroundColor: 'white',
+                      color: '#007bff',
+                      cursor: busy || !running ? 'not-allowed' : 'pointer'
+                    }}
+                  >
+                    {choice}
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <form
+                onSubmit={e => {
+                  e.preventDefault();
+                  submitAnswer(typedAnswer);
+                }}
+                style={{ marginTop: '30px', display: 'flex', gap: '12px', justifyContent: 'center' }}
+              >
+                {/* Left enabled while an answer is checked so focus stays put between facts */}
+                <input
+                  value={typedAnswer}
+                  onChange={e => setTypedAnswer(e.target.value)}
+                  inputMode="numeric"
+                  autoFocus
+                  aria-label="Your answer"
+                  placeholder="?"
+                  style={{
+                    width: '140px',
+                    padding: '12px',
+                    fontSize: '24px',
+                    textAlign: 'center',
+                    border: '2px solid #ccc',
+                    borderRadius: '8px'
+                  }}
+                />
+                <button
+                  type="submit"
+                  disabled={busy || !running || !typedAnswer.trim()}
+                  style={{
+                    padding: '12px 24px',
+                    fontSize: '16px',
+                    fontWeight: 'bold',
+                    border: 'none',
+                    borderRadius: '8px',
+                    backgroundColor: '#28a745',
+                    color: 'white',
+                    cursor: busy || !running || !typedAnswer.trim() ? 'not-allowed' : 'pointer',
+                    opacity: busy || !running || !typedAnswer.trim() ? 0.6 : 1
+                  }}
+                >
+                  Enter
+                </button>
+              </form>
+            )}
+
+            {lastAnswer && (
+              <div style={{
+                marginTop: '20px',
+                fontSize: '16px',
+                color: lastAnswer.correct ? '#155724' : '#721c24'
+              }}>
+                {lastAnswer.correct ? '✓ Correct' : `✗ ${lastAnswer.front} = ${lastAnswer.expected}`}
+              </div>
+            )}
+          </>
+        )}
+
+        {errorBanner}
+      </div>
+    </div>
+  );
+}
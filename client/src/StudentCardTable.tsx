@@ -0,0 +1,215 @@
+import { useState, useEffect, useCallback } from 'react';
+import { authHeaders } from './lib/session';
+
+interface StudentCard {
+  card_state_id: string;
+  card_id: number;
+  front: string;
+  back: string;
+  due_at: string;
+  interval_days: number;
+  ease_factor: number;
+  reps: number;
+  last_reviewed_at: string | null;
+  learning_step: number | null;
+  introduced_at: string | null;
+  suspended: boolean;
+  review_count: number;
+  correct_count: number;
+}
+
+type CardFilter = 'all' | 'due' | 'suspended';
+type OverrideAction = 'known' | 'due' | 'suspend' | 'unsuspend';
+
+const OVERRIDE_BUTTONS: { action: OverrideAction; label: string; color: string }[] = [
+  { action: 'known', label: 'Mark Known', color: '#28a745' },
+  { action: 'due', label: 'Due Now', color: '#007bff' },
+  { action: 'suspend', label: 'Suspend', color: '#6c757d' },
+  { action: 'unsuspend', label: 'Unsuspend', color: '#17a2b8' }
+];
+
+const cellStyle = { padding: '6px 8px', borderBottom: '1px solid #eee', textAlign: 'left' as const };
+
+export default function StudentCardTable({
+  studentId,
+  sessionToken
+}: {
+  studentId: string;
+  sessionToken: string;
+}) {
+  const [cards, setCards] = useState<StudentCard[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [filter, setFilter] = useState<CardFilter>('all');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ kind: 'error' | 'success'; text: string } | null>(null);
+
+  const loadCards = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/teacher/students/${studentId}/cards`, {
+        headers: authHeaders(sessionToken)
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !Array.isArray(data)) {
+        throw new Error(data?.error ?? `Failed to load cards (${response.status})`);
+      }
+      setCards(data);
+    } catch (err: any) {
+      setMessage({ kind: 'error', text: err.message || 'Failed to load cards' });
+    }
+  }, [studentId, sessionToken]);
+
+  useEffect(() => {
+    setSelected(new Set());
+    setMessage(null);
+    loadCards();
+  }, [loadCards]);
+
+  const now = Date.now();
+  const visible = cards.filter(card =>
+    filter === 'suspended'
+      ? card.suspended
+      : filter === 'due'
+        ? !card.suspended && new Date(card.due_at).getTime() <= now
+        : true
+  );
+  const allVisibleSelected = visible.length > 0 && visible.every(card => selected.has(card.card_id));
+
+  const toggle = (cardId: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(cardId)) next.delete(cardId);
+      else next.add(cardId);
+      return next;
+    });
+  };
+
+  const toggleAllVisible = () => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      for (const card of visible) {
+        if (allVisibleSelected) next.delete(card.card_id);
+        else next.add(card.card_id);
+      }
+      return next;
+    });
+  };
+
+  const applyOverride = async (action: OverrideAction) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/teacher/students/${studentId}/cards/override`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders(sessionToken)
+        },
+        body: JSON.stringify({ action, cardIds: Array.from(selected) })
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || `Failed to update cards (${response.status})`);
+      }
+      setMessage({ kind: 'success', text: data.message });
+      setSelected(new Set());
+      await loadCards();
+    } catch (err: any) {
+      setMessage({ kind: 'error', text: err.message || 'Failed to update cards' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div style={{
+      backgroundColor: 'white',
+      padding: '24px',
+      borderRadius: '8px',
+      border: '1px solid #ddd',
+      marginBottom: '32px'
+    }}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', alignItems: 'center', marginBottom: '16px' }}>
+        <h3 style={{ margin: 0, color: '#333', flex: 1 }}>Cards</h3>
+        <select
+          value={filter}
+          onChange={e => setFilter(e.target.value as CardFilter)}
+          style={{ padding: '6px', borderRadius: '6px', border: '1px solid #ccc' }}
+        >
+          <option value="all">All cards</option>
+          <option value="due">Due now</option>
+          <option value="suspended">Suspended</option>
+        </select>
+        {OVERRIDE_BUTTONS.map(button => (
+          <button
+            key={button.action}
+            onClick={() => applyOverride(button.action)}
+            disabled={busy || selected.size === 0}
+            style={{
+              padding: '6px 12px',
+              fontSize: '13px',
+              backgroundColor: busy || selected.size === 0 ? '#adb5bd' : button.color,
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: busy || selected.size === 0 ? 'not-allowed' : 'pointer'
+            }}
+          >
+            {button.label}
+          </button>
+        ))}
+      </div>
+
+      {message && (
+        <div style={{
+          marginBottom: '12px',
+          padding: '10px',
+          backgroundColor: message.kind === 'error' ? '#f8d7da' : '#d4edda',
+          border: `1px solid ${message.kind === 'error' ? '#f5c6cb' : '#c3e6cb'}`,
+          borderRadius: '6px',
+          color: message.kind === 'error' ? '#721c24' : '#155724',
+          fontSize: '14px'
+        }}>
+          {message.text}
+        </div>
+      )}
+
+      <div style={{ maxHeight: '400px', overflowY: 'auto' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px' }}>
+          <thead>
+            <tr>
+              <th style={cellStyle}>
+                <input type="checkbox" checked={allVisibleSelected} onChange={toggleAllVisible} />
+              </th>
+              {['Fact', 'Due', 'Interval', 'Reviews', 'Correct', 'Status'].map(label => (
+                <th key={label} style={{ ...cellStyle, color: '#666' }}>{label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map(card => (
+              <tr key={card.card_id} style={{ opacity: card.suspended ? 0.6 : 1 }}>
+                <td style={cellStyle}>
+                  <input type="checkbox" checked={selected.has(card.card_id)} onChange={() => toggle(card.card_id)} />
+                </td>
+                <td style={cellStyle}>{card.front} = {card.back}</td>
+                <td style={cellStyle}>{new Date(card.due_at).toLocaleDateString()}</td>
+                <td style={cellStyle}>{card.interval_days}d</td>
+                <td style={cellStyle}>{card.review_count}</td>
+                <td style={cellStyle}>
+                  {card.review_count > 0 ? `${Math.round((card.correct_count / card.review_count) * 100)}%` : '—'}
+                </td>
+                <td style={cellStyle}>{card.suspended
+                    ? 'Suspended'
+                    : card.learning_step !== null
+                      ? `Learning (step ${card.learning_step + 1})`
+                      : card.introduced_at === null
+                        ? 'New'
+                        : 'Review'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
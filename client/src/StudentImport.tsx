@@ -0,0 +1,245 @@
+import { useState, ChangeEvent } from 'react';
+import { authHeaders } from './lib/session';
+import { pictureById } from './lib/pictures';
+import { ClassSummary, PictureCatalog, PictureDifficulty } from './types';
+
+interface ImportPreviewRow {
+  line: number;
+  username: string;
+  display_name: string;
+  class_name: string | null;
+  picture_password: string[] | null;
+  password_generated: boolean;
+  errors: string[];
+}
+
+interface ImportPreview {
+  valid: boolean;
+  summary: { total: number; valid: number; invalid: number };
+  classes_to_create: string[];
+  rows: ImportPreviewRow[];
+}
+
+interface ImportedStudent {
+  id: string;
+  username: string;
+  display_name: string;
+  picture_password: string[];
+  password_generated: boolean;
+}
+
+const buttonStyle = (backgroundColor: string, disabled = false) => ({
+  padding: '10px 20px',
+  backgroundColor: disabled ? '#6c757d' : backgroundColor,
+  color: 'white',
+  border: 'none',
+  borderRadius: '6px',
+  cursor: disabled ? 'not-allowed' : 'pointer'
+});
+
+const cellStyle = { padding: '6px 8px', borderBottom: '1px solid #eee', textAlign: 'left' as const };
+
+export default function StudentImport({
+  sessionToken,
+  classes,
+  selectedClassId,
+  pictureCatalog,
+  onImported,
+  onClose
+}: {
+  sessionToken: string;
+  classes: ClassSummary[];
+  selectedClassId: string;
+  pictureCatalog: PictureCatalog | null;
+  onImported: () => void;
+  onClose: () => void;
+}) {
+  const [csv, setCsv] = useState('');
+  const [pictureDifficulty, setPictureDifficulty] = useState<PictureDifficulty>('easy');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [imported, setImported] = useState<ImportedStudent[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const defaultClassName = classes.find(summary => summary.id === selectedClassId)?.name;
+
+  const readFile = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text().then(text => {
+      setCsv(text);
+      setPreview(null);
+      setImported(null);
+    });
+  };
+
+  const submit = async (dryRun: boolean) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/teacher/students/import', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders(sessionToken)
+        },
+        body: JSON.stringify({
+          csv,
+          dryRun,
+          classId: selectedClassId || null,
+          pictureDifficulty
+        })
+      });
+      const data = await response.json().catch(() => null);
+      if (data?.rows) setPreview(data);
+      if (!response.ok) {
+        throw new Error(data?.error || `Import failed (${response.status})`);
+      }
+      if (!dryRun) {
+        setImported(data.students);
+        setPreview(null);
+        setCsv('');
+        onImported();
+      }
+    } catch (err: any) {
+      setError(err.message || 'Import failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderPictures = (sequence: string[] | null) =>
+    sequence && pictureCatalog
+      ? sequence.map((id, index) => <span key={index}>{pictureById(pictureCatalog.pictures, id)?.emoji}</span>)
+      : <span style={{ color: '#999' }}>generated</span>;
+
+  return (
+    <div style={{ padding: '24px', borderBottom: '1px solid #ddd', backgroundColor: '#ffffff' }}>
+      <h2 style={{ margin: '0 0 8px 0', color: '#333' }}>Import Students from CSV</h2>
+      <p style={{ margin: '0 0 16px 0', fontSize: '14px', color: '#666' }}>
+        Columns: <code>username</code>, <code>display name</code>, optional <code>picture password</code>{' '}
+        (picture names or numbers, e.g. <code>Dog-Cat</code>) and optional <code>class</code>.
+        {defaultClassName ? ` Rows without a class go into ${defaultClassName}.` : ''}
+        {' '}Unknown classes are created.
+      </p>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '12px', alignItems: 'center', marginBottom: '12px' }}>
+        <input type="file" accept=".csv,text/csv" onChange={readFile} />
+        <label style={{ fontSize: '14px', color: '#555' }}>
+          Generated passwords:{' '}
+          <select
+            value={pictureDifficulty}
+            onChange={e => {
+              setPictureDifficulty(e.target.value as PictureDifficulty);
+              setPreview(null);
+            }}
+            style={{ padding: '6px', borderRadius: '6px', border: '1px solid #ccc' }}
+          >
+            {(pictureCatalog?.difficulties ?? []).map(option => (
+              <option key={option.id} value={option.id}>
+                {option.id} ({option.length} pictures)
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <textarea
+        value={csv}
+        onChange={e => {
+          setCsv(e.target.value);
+          setPreview(null);
+        }}
+        placeholder={'username,display name,picture password,class\nava.m,Ava M,Dog-Cat,Room 4'}
+        rows={6}
+        style={{ width: '100%', padding: '10px', borderRadius: '6px', border: '1px solid #ccc', fontFamily: 'monospace', boxSizing: 'border-box' }}
+      />
+
+      {error && (
+        <div style={{
+          margin: '12px 0',
+          padding: '12px',
+          backgroundColor: '#f8d7da',
+          border: '1px solid #f5c6cb',
+          borderRadius: '6px',
+          color: '#721c24',
+          fontSize: '14px'
+        }}>
+          {error}
+        </div>
+      )}
+
+      {preview && (
+        <div style={{ margin: '16px 0' }}>
+          <div style={{ marginBottom: '8px', fontSize: '14px', color: '#333' }}>
+            {preview.summary.valid} of {preview.summary.total} rows ready
+            {preview.summary.invalid > 0 && `, ${preview.summary.invalid} need fixing`}
+            {preview.classes_to_create.length > 0 && ` · new classes: ${preview.classes_to_create.join(', ')}`}
+          </div>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px' }}>
+            <thead>
+              <tr>
+                {['Line', 'Username', 'Display name', 'Class', 'Pictures', 'Problems'].map(label => (
+                  <th key={label} style={{ ...cellStyle, color: '#666' }}>{label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {preview.rows.map(row => (
+                <tr key={row.line} style={{ backgroundColor: row.errors.length > 0 ? '#fff3f3' : 'white' }}>
+                  <td style={cellStyle}>{row.line}</td>
+                  <td style={cellStyle}>{row.username}</td>
+                  <td style={cellStyle}>{row.display_name}</td>
+                  <td style={cellStyle}>{row.class_name ?? defaultClassName ?? '—'}</td>
+                  <td style={cellStyle}>{renderPictures(row.picture_password)}</td>
+                  <td style={{ ...cellStyle, color: '#721c24' }}>{row.errors.join('; ')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {imported && (
+        <div style={{ margin: '16px 0' }}>
+          <div style={{
+            marginBottom: '8px',
+            padding: '12px',
+            backgroundColor: '#d4edda',
+            border: '1px solid #c3e6cb',
+            borderRadius: '6px',
+            color: '#155724',
+            fontSize: '14px'
+          }}>
+            Imported {imported.length} students. Write down the generated picture passwords now; they cannot be shown again.
+          </div>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px' }}>
+            <tbody>
+              {imported.map(student => (
+                <tr key={student.id}>
+                  <td style={cellStyle}>{student.display_name} (@{student.username})</td>
+                  <td style={{ ...cellStyle, fontSize: '20px' }}>{renderPictures(student.picture_password)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: '12px', marginTop: '12px' }}>
+        <button onClick={() => submit(true)} disabled={busy || !csv.trim()} style={buttonStyle('#007bff', busy || !csv.trim())}>
+          {busy ? 'Checking…' : 'Preview'}
+        </button>
+        <button
+          onClick={() => submit(false)}
+          disabled={busy || !preview?.valid}
+          style={buttonStyle('#28a745', busy || !preview?.valid)}
+        >
+          Import {preview?.valid ? `${preview.summary.total} students` : ''}
+        </button>
+        <button onClick={onClose} style={buttonStyle('#6c757d')}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
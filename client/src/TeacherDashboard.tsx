@@ -10,6 +10,20 @@ import {
   Legend
 } from 'chart.js';
 import { Line } from 'react-chartjs-2';
+import { authHeaders } from './lib/session';
+import { fetchPictureCatalog } from './lib/pictures';
+import { ClassSummary, PictureCatalog, PictureDifficulty, SchedulerName } from './types';
+import PictureSequencePicker from './PictureSequencePicker';
+import ClassManager from './ClassManager';
+import StudentImport from './StudentImport';
+import EditStudentDialog from './EditStudentDialog';
+import ArchivedStudents from './ArchivedStudents';
+import StudentCardTable from './StudentCardTable';
+import AuditLog from './AuditLog';
+import SchedulerTuning from './SchedulerTuning';
+import WorkloadForecast from './WorkloadForecast';
+import FactFluency from './FactFluency';
+import SprintHistory from './SprintHistory';
 
 ChartJS.register(
   CategoryScale,
@@ -25,12 +39,24 @@ interface Student {
   id: string;
   username: string;
   display_name: string;
+  class_id: string | null;
+  scheduler: SchedulerName | null;
+  locked_out: boolean;
   total_reviews: number;
   correct_reviews: number;
   cards_completed: number;
   last_activity: string | null;
 }
 
+interface ClassStats {
+  student_count: number;
+  stats: {
+    total_reviews: number;
+    correct_reviews: number;
+    active_students: number;
+  };
+}
+
 interface StudentStats {
   total_reviews: number;
   correct_reviews: number;
@@ -43,50 +69,132 @@ interface ReviewData {
   correct_count: number;
 }
 
-const PICTURE_OPTIONS = [
-  { id: '1', label: 'Dog 🐶' },
-  { id: '2', label: 'Cat 🐱' },
-  { id: '3', label: 'Rabbit 🐰' },
-  { id: '4', label: 'Fox 🦊' },
-  { id: '5', label: 'Bear 🐻' }
-];
+interface AddStudentForm {
+  displayName: string;
+  username: string;
+  pictureDifficulty: PictureDifficulty;
+  picturePassword: string[];
+}
+
+type ResetScopeType = 'all' | 'set' | 'factor';
+
+const FACTORS = Array.from({ length: 12 }, (_, index) => index + 1);
+
+const EMPTY_ADD_FORM: AddStudentForm = {
+  displayName: '',
+  username: '',
+  pictureDifficulty: 'easy',
+  picturePassword: []
+};
 
-export default function TeacherDashboard({ onLogout, userId }: { onLogout: () => void; userId: string }) {
+export default function TeacherDashboard({ onLogout, sessionToken }: { onLogout: () => void; sessionToken: string }) {
   const [students, setStudents] = useState<Student[]>([]);
   const [selectedStudent, setSelectedStudent] = useState<Student | null>(null);
   const [studentStats, setStudentStats] = useState<StudentStats | null>(null);
   const [reviewData, setReviewData] = useState<ReviewData[]>([]);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [showAddForm, setShowAddForm] = useState(false);
-  const [addForm, setAddForm] = useState({
-    displayName: '',
-    username: '',
-    picturePassword: '1'
-  });
+  const [addForm, setAddForm] = useState<AddStudentForm>(EMPTY_ADD_FORM);
+  const [pictureCatalog, setPictureCatalog] = useState<PictureCatalog | null>(null);
   const [addError, setAddError] = useState<string | null>(null);
   const [addBusy, setAddBusy] = useState(false);
   const [deleteBusyId, setDeleteBusyId] = useState<string | null>(null);
+  const [unlockBusyId, setUnlockBusyId] = useState<string | null>(null);
+  const [showPasswordForm, setShowPasswordForm] = useState(false);
+  const [passwordForm, setPasswordForm] = useState({ current: '', next: '', confirm: '' });
+  const [passwordMessage, setPasswordMessage] = useState<{ kind: 'error' | 'success'; text: string } | null>(null);
+  const [passwordBusy, setPasswordBusy] = useState(false);
+  const [classes, setClasses] = useState<ClassSummary[]>([]);
+  const [selectedClassId, setSelectedClassId] = useState('');
+  const [classStats, setClassStats] = useState<ClassStats | null>(null);
+  const [showClassManager, setShowClassManager] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [showAudit, setShowAudit] = useState(false);
+  const [editingStudent, setEditingStudent] = useState<Student | null>(null);
+  const [cardTableVersion, setCardTableVersion] = useState(0);
+  const [resetScope, setResetScope] = useState<{ type: ResetScopeType; value: number }>({ type: 'all', value: 9 });
+  // Reset cards come back as new facts under the daily limit instead of all due at once
+  const [resetAsNew, setResetAsNew] = useState(false);
+
+  const loadClasses = useCallback(async () => {
+    try {
+      const response = await fetch('/api/teacher/classes', {
+        headers: authHeaders(sessionToken)
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !Array.isArray(data)) {
+        throw new Error(data?.error ?? `Failed to load classes (${response.status})`);
+      }
+      setClasses(data);
+    } catch (err) {
+      console.error('Failed to load classes:', err);
+    }
+  }, [sessionToken]);
 
   const loadStudents = useCallback(async () => {
     try {
-      const response = await fetch('/api/teacher/students', {
-        headers: { 'X-User-Id': userId }
+      const query = selectedClassId ? `?classId=${encodeURIComponent(selectedClassId)}` : '';
+      const response = await fetch(`/api/teacher/students${query}`, {
+        headers: authHeaders(sessionToken)
       });
-      const data = await response.json();
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !Array.isArray(data)) {
+        throw new Error(data?.error ?? `Failed to load students (${response.status})`);
+      }
       setStudents(data);
     } catch (err) {
       console.error('Failed to load students:', err);
     }
-  }, [userId]);
+  }, [sessionToken, selectedClassId]);
+
+  const loadClassStats = useCallback(async () => {
+    if (!selectedClassId) {
+      setClassStats(null);
+      setReviewData([]);
+      return;
+    }
+    try {
+      const response = await fetch(`/api/teacher/classes/${selectedClassId}/stats`, {
+        headers: authHeaders(sessionToken)
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !data) {
+        throw new Error(data?.error ?? `Failed to load class stats (${response.status})`);
+      }
+      setClassStats(data);
+      setReviewData(Array.isArray(data.recentReviews) ? data.recentReviews : []);
+    } catch (err) {
+      console.error('Failed to load class stats:', err);
+      setClassStats(null);
+      setReviewData([]);
+    }
+  }, [sessionToken, selectedClassId]);
+
+  useEffect(() => {
+    loadClasses();
+  }, [loadClasses]);
 
   useEffect(() => {
     loadStudents();
   }, [loadStudents]);
 
+  useEffect(() => {
+    setSelectedStudent(null);
+    setStudentStats(null);
+    loadClassStats();
+  }, [loadClassStats]);
+
+  useEffect(() => {
+    fetchPictureCatalog()
+      .then(setPictureCatalog)
+      .catch(err => console.error('Failed to load picture catalog:', err));
+  }, []);
+
   const loadStudentStats = async (student: Student) => {
     try {
       const response = await fetch(`/api/teacher/stats/${student.id}`, {
-        headers: { 'X-User-Id': userId }
+        headers: authHeaders(sessionToken)
       });
       const data = await response.json().catch(() => null);
       if (!response.ok || !data) {
@@ -107,22 +215,39 @@ export default function TeacherDashboard({ onLogout, userId }: { onLogout: () =>
   };
 
   const resetStudent = async (studentId: string, type: 'clear' | 'reset-srs') => {
+    if (
+      type === 'clear' &&
+      !window.confirm('Delete all of this student\'s reviews and start every card over? This cannot be undone.')
+    ) {
+      return;
+    }
     setActionLoading(type);
     try {
+      const scope =
+        resetScope.type === 'set'
+          ? { type: 'set', max: resetScope.value }
+          : resetScope.type === 'factor'
+            ? { type: 'factor', factor: resetScope.value }
+            : { type: 'all' };
       const response = await fetch(`/api/teacher/${type}/${studentId}`, {
         method: 'POST',
-        headers: { 'X-User-Id': userId }
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders(sessionToken)
+        },
+        body: type === 'reset-srs' ? JSON.stringify({ scope, reintroduce: resetAsNew }) : undefined
       });
       const data = await response.json();
       
       if (data.success) {
         alert(data.message);
+        setCardTableVersion(version => version + 1);
         loadStudents();
         if (selectedStudent?.id === studentId) {
           loadStudentStats(selectedStudent);
         }
       } else {
-        alert('Failed to reset student data');
+        alert(data.error || 'Failed to reset student data');
       }
     } catch (err) {
       alert('Network error. Please try again.');
@@ -136,6 +261,13 @@ export default function TeacherDashboard({ onLogout, userId }: { onLogout: () =>
       setAddError('Please enter a display name and username.');
       return;
     }
+    const requiredLength = pictureCatalog?.difficulties.find(
+      option => option.id === addForm.pictureDifficulty
+    )?.length;
+    if (!requiredLength || addForm.picturePassword.length !== requiredLength) {
+      setAddError(`Please choose ${requiredLength ?? 'all'} pictures for the picture password.`);
+      return;
+    }
 
     setAddBusy(true);
     setAddError(null);
@@ -145,12 +277,14 @@ export default function TeacherDashboard({ onLogout, userId }: { onLogout: () =>
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-User-Id': userId
+          ...authHeaders(sessionToken)
         },
         body: JSON.stringify({
           displayName: addForm.displayName.trim(),
           username: addForm.username.trim(),
-          picturePassword: addForm.picturePassword
+          pictureDifficulty: addForm.pictureDifficulty,
+          picturePassword: addForm.picturePassword,
+          classId: selectedClassId || null
         })
       });
 
@@ -161,9 +295,9 @@ export default function TeacherDashboard({ onLogout, userId }: { onLogout: () =>
 
       const newStudent: Student = await response.json();
       setShowAddForm(false);
-      setAddForm({ displayName: '', username: '', picturePassword: '1' });
+      setAddForm(EMPTY_ADD_FORM);
       setAddError(null);
-      await loadStudents();
+      await Promise.all([loadStudents(), loadClasses()]);
       setSelectedStudent(newStudent);
       setStudentStats({
         total_reviews: 0,
@@ -186,7 +320,7 @@ export default function TeacherDashboard({ onLogout, userId }: { onLogout: () =>
     try {
       const response = await fetch(`/api/teacher/students/${student.id}`, {
         method: 'DELETE',
-        headers: { 'X-User-Id': userId }
+        headers: authHeaders(sessionToken)
       });
       const data = await response.json().catch(() => null);
       if (!response.ok || !data?.success) {
@@ -196,11 +330,11 @@ export default function TeacherDashboard({ onLogout, userId }: { onLogout: () =>
       if (data?.message) {
         alert(data.message);
       }
-      await loadStudents();
+      await Promise.all([loadStudents(), loadClasses()]);
       if (selectedStudent?.id === student.id) {
         setSelectedStudent(null);
         setStudentStats(null);
-        setReviewData([]);
+        await loadClassStats();
       }
     } catch (err: any) {
       alert(err.message || 'Failed to delete student');
@@ -209,6 +343,57 @@ export default function TeacherDashboard({ onLogout, userId }: { onLogout: () =>
     }
   };
 
+  const unlockStudent = async (student: Student) => {
+    setUnlockBusyId(student.id);
+    try {
+      const response = await fetch(`/api/teacher/students/${student.id}/unlock`, {
+        method: 'POST',
+        headers: authHeaders(sessionToken)
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || `Failed to unlock student (${response.status})`);
+      }
+      await loadStudents();
+    } catch (err: any) {
+      alert(err.message || 'Failed to unlock student');
+    } finally {
+      setUnlockBusyId(null);
+    }
+  };
+
+  const changePassword = async () => {
+    if (passwordForm.next !== passwordForm.confirm) {
+      setPasswordMessage({ kind: 'error', text: 'New passwords do not match.' });
+      return;
+    }
+    setPasswordBusy(true);
+    setPasswordMessage(null);
+    try {
+      const response = await fetch('/api/teacher/password', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders(sessionToken)
+        },
+        body: JSON.stringify({
+          currentPassword: passwordForm.current,
+          newPassword: passwordForm.next
+        })
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || `Failed to change password (${response.status})`);
+      }
+      setPasswordForm({ current: '', next: '', confirm: '' });
+      setPasswordMessage({ kind: 'success', text: data.message || 'Password updated.' });
+    } catch (err: any) {
+      setPasswordMessage({ kind: 'error', text: err.message || 'Failed to change password' });
+    } finally {
+      setPasswordBusy(false);
+    }
+  };
+
   const chartData = {
     labels: reviewData.map(d => new Date(d.date).toLocaleDateString()),
     datasets: [
@@ -231,6 +416,23 @@ export default function TeacherDashboard({ onLogout, userId }: { onLogout: () =>
 
   return (
     <div style={{ backgroundColor: '#f5f5f5', minHeight: '100vh' }}>
+      {editingStudent && (
+        <EditStudentDialog
+          student={editingStudent}
+          classes={classes}
+          pictureCatalog={pictureCatalog}
+          sessionToken={sessionToken}
+          onClose={() => setEditingStudent(null)}
+          onSaved={() => {
+            setEditingStudent(null);
+            setSelectedStudent(null);
+            setStudentStats(null);
+            loadClasses();
+            loadStudents();
+            loadClassStats();
+          }}
+        />
+      )}
       {/* Header */}
       <div style={{
         backgroundColor: 'white',
@@ -258,6 +460,74 @@ export default function TeacherDashboard({ onLogout, userId }: { onLogout: () =>
           >
             {showAddForm ? 'Close' : 'Add Student'}
           </button>
+          <button
+            onClick={() => setShowImport(prev => !prev)}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: showImport ? '#6c757d' : '#6f42c1',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer'
+            }}
+          >
+            {showImport ? 'Close' : 'Import CSV'}
+          </button>
+          <button
+            onClick={() => setShowAudit(prev => !prev)}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: showAudit ? '#6c757d' : '#495057',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer'
+            }}
+          >
+            {showAudit ? 'Close' : 'Audit Log'}
+          </button>
+          <button
+            onClick={() => setShowArchived(prev => !prev)}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: showArchived ? '#6c757d' : '#343a40',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer'
+            }}
+          >
+            {showArchived ? 'Close' : 'Archived'}
+          </button>
+          <button
+            onClick={() => setShowClassManager(prev => !prev)}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: showClassManager ? '#6c757d' : '#007bff',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer'
+            }}
+          >
+            {showClassManager ? 'Close' : 'Manage Classes'}
+          </button>
+          <button
+            onClick={() => {
+              setShowPasswordForm(prev => !prev);
+              setPasswordMessage(null);
+            }}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: showPasswordForm ? '#6c757d' : '#17a2b8',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer'
+            }}
+          >
+            {showPasswordForm ? 'Close' : 'Change Password'}
+          </button>
           <button
             onClick={onLogout}
             style={{
@@ -282,9 +552,23 @@ export default function TeacherDashboard({ onLogout, userId }: { onLogout: () =>
           borderRight: '1px solid #ddd',
           overflowY: 'auto'
         }}>
-          <h2 style={{ padding: '16px', margin: 0, borderBottom: '1px solid #eee' }}>
-            Students ({students.length})
-          </h2>
+          <div style={{ padding: '16px', borderBottom: '1px solid #eee' }}>
+            <select
+              value={selectedClassId}
+              onChange={e => setSelectedClassId(e.target.value)}
+              style={{ width: '100%', padding: '8px', borderRadius: '6px', border: '1px solid #ccc', marginBottom: '12px' }}
+            >
+              <option value="">All students</option>
+              {classes.map(summary => (
+                <option key={summary.id} value={summary.id}>
+                  {summary.name} ({summary.student_count})
+                </option>
+              ))}
+            </select>
+            <h2 style={{ margin: 0 }}>
+              Students ({students.length})
+            </h2>
+          </div>
           {students.map(student => (
             <div
               key={student.id}
@@ -309,25 +593,76 @@ export default function TeacherDashboard({ onLogout, userId }: { onLogout: () =>
             >
               <div style={{ fontWeight: 'bold', color: '#333', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                 <span>{student.display_name} (@{student.username})</span>
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    deleteStudent(student);
-                  }}
-                  disabled={deleteBusyId === student.id}
-                  style={{
-                    padding: '4px 8px',
-                    fontSize: '12px',
-                    backgroundColor: '#dc3545',
-                    color: 'white',
-                    border: 'none',
-                    borderRadius: '4px',
-                    cursor: deleteBusyId === student.id ? 'not-allowed' : 'pointer'
-                  }}
-                >
-                  {deleteBusyId === student.id ? 'Removing…' : 'Remove'}
-                </button>
+                <span style={{ display: 'flex', gap: '6px' }}>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setEditingStudent(student);
+                    }}
+                    style={{
+                      padding: '4px 8px',
+                      fontSize: '12px',
+                      backgroundColor: '#007bff',
+                      color: 'white',
+                      border: 'none',
+                      borderRadius: '4px',
+                      cursor: 'pointer'
+                    }}
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      deleteStudent(student);
+                    }}
+                    disabled={deleteBusyId === student.id}
+                    style={{
+                      padding: '4px 8px',
+                      fontSize: '12px',
+                      backgroundColor: '#dc3545',
+                      color: 'white',
+                      border: 'none',
+                      borderRadius: '4px',
+                      cursor: deleteBusyId === student.id ? 'not-allowed' : 'pointer'
+                    }}
+                  >
+                    {deleteBusyId === student.id ? 'Removing…' : 'Remove'}
+                  </button>
+                </span>
               </div>
+              {student.locked_out && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '6px' }}>
+                  <span style={{
+                    padding: '2px 8px',
+                    fontSize: '12px',
+                    borderRadius: '10px',
+                    backgroundColor: '#fff3cd',
+                    color: '#856404',
+                    border: '1px solid #ffeeba'
+                  }}>
+                    🔒 Locked out
+                  </span>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      unlockStudent(student);
+                    }}
+                    disabled={unlockBusyId === student.id}
+                    style={{
+                      padding: '2px 8px',
+                      fontSize: '12px',
+                      backgroundColor: '#ffc107',
+                      color: '#212529',
+                      border: 'none',
+                      borderRadius: '4px',
+                      cursor: unlockBusyId === student.id ? 'not-allowed' : 'pointer'
+                    }}
+                  >
+                    {unlockBusyId === student.id ? 'Unlocking…' : 'Unlock'}
+                  </button>
+                </div>
+              )}
               <div style={{ fontSize: '14px', color: '#666', marginTop: '4px' }}>
                 Reviews: {student.total_reviews} | 
                 Correct: {student.correct_reviews} | 
@@ -342,13 +677,116 @@ export default function TeacherDashboard({ onLogout, userId }: { onLogout: () =>
 
         {/* Student Details */}
         <div style={{ flex: 1, overflowY: 'auto' }}>
+          {showClassManager && (
+            <ClassManager
+              classes={classes}
+              sessionToken={sessionToken}
+              onChanged={deletedClassId => {
+                if (deletedClassId && deletedClassId === selectedClassId) {
+                  setSelectedClassId('');
+                }
+                loadClasses();
+                loadStudents();
+              }}
+            />
+          )}
+          {showImport && (
+            <StudentImport
+              sessionToken={sessionToken}
+              classes={classes}
+              selectedClassId={selectedClassId}
+              pictureCatalog={pictureCatalog}
+              onImported={() => {
+                loadClasses();
+                loadStudents();
+                loadClassStats();
+              }}
+              onClose={() => setShowImport(false)}
+            />
+          )}
+          {showAudit && <AuditLog sessionToken={sessionToken} students={students} />}
+          {showArchived && (
+            <ArchivedStudents
+              sessionToken={sessionToken}
+              onRestored={() => {
+                loadClasses();
+                loadStudents();
+              }}
+            />
+          )}
+          {showPasswordForm && (
+            <div style={{
+              padding: '24px',
+              borderBottom: '1px solid #ddd',
+              backgroundColor: '#ffffff'
+            }}>
+              <h2 style={{ margin: '0 0 16px 0', color: '#333' }}>Change Password</h2>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '16px', marginBottom: '16px' }}>
+                {([
+                  { key: 'current', label: 'Current Password', autoComplete: 'current-password' },
+                  { key: 'next', label: 'New Password', autoComplete: 'new-password' },
+                  { key: 'confirm', label: 'Confirm New Password', autoComplete: 'new-password' }
+                ] as const).map(field => (
+                  <div key={field.key} style={{ flex: '1 1 200px' }}>
+                    <label style={{ display: 'block', fontSize: '14px', color: '#555', marginBottom: '4px' }}>{field.label}</label>
+                    <input
+                      type="password"
+                      autoComplete={field.autoComplete}
+                      value={passwordForm[field.key]}
+                      onChange={e => setPasswordForm(prev => ({ ...prev, [field.key]: e.target.value }))}
+                      style={{
+                        width: '100%',
+                        padding: '10px',
+                        borderRadius: '6px',
+                        border: '1px solid #ccc'
+                      }}
+                    />
+                  </div>
+                ))}
+              </div>
+              {passwordMessage && (
+                <div style={{
+                  marginBottom: '16px',
+                  padding: '12px',
+                  backgroundColor: passwordMessage.kind === 'error' ? '#f8d7da' : '#d4edda',
+                  border: `1px solid ${passwordMessage.kind === 'error' ? '#f5c6cb' : '#c3e6cb'}`,
+                  borderRadius: '6px',
+                  color: passwordMessage.kind === 'error' ? '#721c24' : '#155724',
+                  fontSize: '14px'
+                }}>
+                  {passwordMessage.text}
+                </div>
+              )}
+              <button
+                onClick={changePassword}
+                disabled={passwordBusy || !passwordForm.current || !passwordForm.next}
+                style={{
+                  padding: '10px 20px',
+                  backgroundColor: '#17a2b8',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '6px',
+                  cursor: passwordBusy ? 'not-allowed' : 'pointer'
+                }}
+              >
+                {passwordBusy ? 'Saving…' : 'Update Password'}
+              </button>
+            </div>
+          )}
           {showAddForm && (
             <div style={{
               padding: '24px',
               borderBottom: '1px solid #ddd',
               backgroundColor: '#ffffff'
             }}>
-              <h2 style={{ margin: '0 0 16px 0', color: '#333' }}>Add Student</h2>
+              <h2 style={{ margin: '0 0 16px 0', color: '#333' }}>
+                Add Student
+                {selectedClassId && (
+                  <span style={{ fontSize: '16px', fontWeight: 'normal', color: '#666' }}>
+                    {' '}to {classes.find(summary => summary.id === selectedClassId)?.name}
+                  </span>
+                )}
+              </h2>
               <div style={{ display: 'flex', flexWrap: 'wrap', gap: '16px', marginBottom: '16px' }}>
                 <div style={{ flex: '1 1 240px' }}>
                   <label style={{ display: 'block', fontSize: '14px', color: '#555', marginBottom: '4px' }}>Display Name</label>
@@ -378,25 +816,20 @@ export default function TeacherDashboard({ onLogout, userId }: { onLogout: () =>
                     }}
                   />
                 </div>
-                <div style={{ flex: '1 1 200px' }}>
-                  <label style={{ display: 'block', fontSize: '14px', color: '#555', marginBottom: '4px' }}>Picture Password</label>
-                  <select
-                    value={addForm.picturePassword}
-                    onChange={e => setAddForm(prev => ({ ...prev, picturePassword: e.target.value }))}
-                    style={{
-                      width: '100%',
-                      padding: '10px',
-                      borderRadius: '6px',
-                      border: '1px solid #ccc'
-                    }}
-                  >
-                    {PICTURE_OPTIONS.map(option => (
-                      <option value={option.id} key={option.id}>
-                        {option.label}
-                      </option>
-                    ))}
-                  </select>
-                </div>
+              </div>
+              <div style={{ marginBottom: '16px' }}>
+                <label style={{ display: 'block', fontSize: '14px', color: '#555', marginBottom: '4px' }}>Picture Password</label>
+                {pictureCatalog ? (
+                  <PictureSequencePicker
+                    catalog={pictureCatalog}
+                    difficulty={addForm.pictureDifficulty}
+                    sequence={addForm.picturePassword}
+                    onDifficultyChange={difficulty => setAddForm(prev => ({ ...prev, pictureDifficulty: difficulty }))}
+                    onSequenceChange={sequence => setAddForm(prev => ({ ...prev, picturePassword: sequence }))}
+                  />
+                ) : (
+                  <div style={{ fontSize: '14px', color: '#666' }}>Loading pictures…</div>
+                )}
               </div>
 
               {addError && (
@@ -431,7 +864,7 @@ export default function TeacherDashboard({ onLogout, userId }: { onLogout: () =>
                 <button
                   onClick={() => {
                     setShowAddForm(false);
-                    setAddForm({ displayName: '', username: '', picturePassword: '1' });
+                    setAddForm(EMPTY_ADD_FORM);
                     setAddError(null);
                   }}
                   style={{
@@ -538,8 +971,69 @@ export default function TeacherDashboard({ onLogout, userId }: { onLogout: () =>
                 </div>
               )}
 
+              <StudentCardTable
+                key={`${selectedStudent.id}-${cardTableVersion}`}
+                studentId={selectedStudent.id}
+                sessionToken={sessionToken}
+              />
+
+              <WorkloadForecast
+                key={`forecast-${selectedStudent.id}-${cardTableVersion}`}
+                studentId={selectedStudent.id}
+                sessionToken={sessionToken}
+              />
+
+              <FactFluency
+                key={`fluency-${selectedStudent.id}-${cardTableVersion}`}
+                endpoint={`/api/teacher/students/${selectedStudent.id}`}
+                sessionToken={sessionToken}
+              />
+
+              <SprintHistory
+                key={`sprints-${selectedStudent.id}`}
+                endpoint={`/api/teacher/students/${selectedStudent.id}/sprints`}
+                sessionToken={sessionToken}
+              />
+
+              <SchedulerTuning
+                key={`scheduler-${selectedStudent.id}-${selectedStudent.scheduler ?? ''}`}
+                endpoint={`/api/teacher/students/${selectedStudent.id}/scheduler-params`}
+                sessionToken={sessionToken}
+              />
+
               {/* Action Buttons */}
-              <div style={{ display: 'flex', gap: '16px' }}>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '16px', alignItems: 'center' }}>
+                <div style={{ display: 'flex', gap: '8px' }}>
+                  <select
+                    value={resetScope.type}
+                    onChange={e => setResetScope(prev => ({ ...prev, type: e.target.value as ResetScopeType }))}
+                    style={{ padding: '10px', borderRadius: '6px', border: '1px solid #ccc' }}
+                  >
+                    <option value="all">All cards</option>
+                    <option value="set">Practice set up to…</option>
+                    <option value="factor">Fact family (the …s)</option>
+                  </select>
+                  {resetScope.type !== 'all' && (
+                    <select
+                      value={resetScope.value}
+                      onChange={e => setResetScope(prev => ({ ...prev, value: Number(e.target.value) }))}
+                      style={{ padding: '10px', borderRadius: '6px', border: '1px solid #ccc' }}
+                    >
+                      {FACTORS.map(factor => (
+                        <option key={factor} value={factor}>
+                          {resetScope.type === 'set' ? `${factor}×${factor}` : `${factor}s`}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+                <label
+                  title="Off: the cards are all due right away as reviews. On: they return as new facts, a few a day under the class's new-fact limit, so a big reset can take weeks to come back."
+                  style={{ display: 'flex', gap: '6px', alignItems: 'center', fontSize: '14px', color: '#333' }}
+                >
+                  <input type="checkbox" checked={resetAsNew} onChange={e => setResetAsNew(e.target.checked)} />
+                  Re-teach as new facts (counts toward the daily new-fact limit)
+                </label>
                 <button
                   onClick={() => resetStudent(selectedStudent.id, 'reset-srs')}
                   disabled={actionLoading === 'reset-srs'}
@@ -553,7 +1047,7 @@ export default function TeacherDashboard({ onLogout, userId }: { onLogout: () =>
                     opacity: actionLoading === 'reset-srs' ? 0.6 : 1
                   }}
                 >
-                  {actionLoading === 'reset-srs' ? 'Resetting...' : 'Reset SRS Only'}
+                  {actionLoading === 'reset-srs' ? 'Resetting...' : resetScope.type === 'all' ? 'Reset SRS Only' : 'Reset These Cards'}
                 </button>
                 <button
                   onClick={() => resetStudent(selectedStudent.id, 'clear')}
@@ -573,10 +1067,84 @@ export default function TeacherDashboard({ onLogout, userId }: { onLogout: () =>
               </div>
 
               <div style={{ marginTop: '16px', fontSize: '12px', color: '#666' }}>
-                <strong>Reset SRS Only:</strong> Keeps cards but resets scheduling and intervals<br />
+                <strong>Reset SRS Only:</strong> Keeps cards and history but resets scheduling and intervals (for all cards, a practice set or one fact family)<br />
                 <strong>Clear All Data:</strong> Removes all progress and card assignments
               </div>
             </div>
+          ) : classStats ? (
+            <div style={{ padding: '24px' }}>
+              <h2 style={{ margin: '0 0 24px 0', color: '#333' }}>
+                {classes.find(summary => summary.id === selectedClassId)?.name ?? 'Class'} Overview
+              </h2>
+              <div style={{
+                display: 'grid',
+                gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))',
+                gap: '16px',
+                marginBottom: '32px'
+              }}>
+                {[
+                  { label: 'Students', value: classStats.student_count, color: '#333' },
+                  { label: 'Active Students', value: classStats.stats.active_students, color: '#6f42c1' },
+                  { label: 'Total Reviews', value: classStats.stats.total_reviews, color: '#007bff' },
+                  {
+                    label: 'Success Rate',
+                    value: `${classStats.stats.total_reviews > 0
+                      ? Math.round((classStats.stats.correct_reviews / classStats.stats.total_reviews) * 100)
+                      : 0}%`,
+                    color: '#17a2b8'
+                  }
+                ].map(tile => (
+                  <div key={tile.label} style={{
+                    backgroundColor: 'white',
+                    padding: '20px',
+                    borderRadius: '8px',
+                    border: '1px solid #ddd'
+                  }}>
+                    <div style={{ fontSize: '14px', color: '#666', marginBottom: '8px' }}>
+                      {tile.label}
+                    </div>
+                    <div style={{ fontSize: '24px', fontWeight: 'bold', color: tile.color }}>
+                      {tile.value}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {reviewData.length > 0 && (
+                <div style={{
+                  backgroundColor: 'white',
+                  padding: '24px',
+                  borderRadius: '8px',
+                  border: '1px solid #ddd'
+                }}>
+                  <h3 style={{ margin: '0 0 16px 0', color: '#333' }}>
+                    Class Activity
+                  </h3>
+                  <div style={{ height: '300px' }}>
+                    <Line data={chartData} options={{
+                      responsive: true,
+                      maintainAspectRatio: false,
+                      scales: { y: { beginAtZero: true } }
+                    }} />
+                  </div>
+                </div>
+              )}
+              <div style={{ marginTop: '32px' }}>
+                <SchedulerTuning
+                  key={`scheduler-${selectedClassId}-${classes.find(summary => summary.id === selectedClassId)?.scheduler ?? ''}`}
+                  endpoint={`/api/teacher/classes/${selectedClassId}/scheduler-params`}
+                  sessionToken={sessionToken}
+                />
+                <FactFluency
+                  key={`fluency-${selectedClassId}`}
+                  endpoint={`/api/teacher/classes/${selectedClassId}`}
+                  sessionToken={sessionToken}
+                  showStudentCounts
+                />
+              </div>
+              <div style={{ color: '#666' }}>
+                Select a student to view their progress
+              </div>
+            </div>
           ) : (
             <div style={{
               display: 'flex',
@@ -0,0 +1,262 @@
+import { useState, useEffect, FormEvent } from 'react';
+
+interface User {
+  id: string;
+  username: string;
+  display_name: string;
+  user_type: string;
+}
+
+interface LoginResponse {
+  user?: User;
+  token?: string;
+  success?: boolean;
+  error?: string;
+  locked?: boolean;
+  retry_after_seconds?: number;
+}
+
+const inputStyle = {
+  width: '100%',
+  padding: '12px',
+  fontSize: '16px',
+  borderRadius: '6px',
+  border: '1px solid #ccc',
+  boxSizing: 'border-box' as const
+};
+
+const labelStyle = {
+  display: 'block',
+  textAlign: 'left' as const,
+  fontSize: '14px',
+  color: '#555',
+  marginBottom: '4px'
+};
+
+export default function TeacherLoginPage({
+  onLogin
+}: {
+  onLogin: (user: User, token: string) => void;
+}) {
+  const [needsSetup, setNeedsSetup] = useState<boolean | null>(null);
+  const [username, setUsername] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let active = true;
+    (async () => {
+      try {
+        const response = await fetch('/api/setup/status');
+        const data = await response.json();
+        if (active) setNeedsSetup(Boolean(data.needs_teacher));
+      } catch (err) {
+        console.error('Failed to check setup status:', err);
+        if (active) setNeedsSetup(false);
+      }
+    })();
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password) {
+      setError('Please enter your username and password.');
+      return;
+    }
+    if (needsSetup && password !== confirmPassword) {
+      setError('Passwords do not match.');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = needsSetup
+        ? await fetch('/api/setup/teacher', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              username: username.trim(),
+              displayName: displayName.trim() || username.trim(),
+              password
+            })
+          })
+        : await fetch('/api/login', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ username: username.trim(), password })
+          });
+      const data: LoginResponse = await response.json();
+
+      if (response.status === 429) {
+        setError(
+          data.locked
+            ? 'Too many failed attempts. This account is temporarily locked; try again later.'
+            : `Too many attempts. Try again in ${data.retry_after_seconds ?? 'a few'} seconds.`
+        );
+        return;
+      }
+
+      if (data.success && data.user && data.token) {
+        onLogin(data.user, data.token);
+      } else {
+        setPassword('');
+        setConfirmPassword('');
+        setError(data.error || 'Login failed');
+      }
+    } catch (err) {
+      setError('Network error. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (needsSetup === null) {
+    return (
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        minHeight: '100vh',
+        backgroundColor: '#f5f5f5'
+      }}>
+        <div style={{ fontSize: '18px', color: '#666' }}>Loading…</div>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      justifyContent: 'center',
+      minHeight: '100vh',
+      backgroundColor: '#f5f5f5',
+      padding: '20px'
+    }}>
+      <form
+        onSubmit={handleSubmit}
+        style={{
+          backgroundColor: 'white',
+          padding: '48px',
+          borderRadius: '12px',
+          boxShadow: '0 4px 20px rgba(0,0,0,0.1)',
+          textAlign: 'center',
+          width: '100%',
+          maxWidth: '420px'
+        }}
+      >
+        <h1 style={{ marginBottom: '8px', color: '#333' }}>Teacher Portal</h1>
+        <p style={{ marginBottom: '32px', color: '#666' }}>
+          {needsSetup
+            ? 'No teacher accounts exist yet. Create the first one to get started.'
+            : 'Sign in to manage student progress and sessions.'}
+        </p>
+
+        <div style={{ marginBottom: '16px' }}>
+          <label style={labelStyle}>Username</label>
+          <input
+            value={username}
+            onChange={e => setUsername(e.target.value)}
+            autoComplete="username"
+            autoFocus
+            style={inputStyle}
+          />
+        </div>
+        {needsSetup && (
+          <div style={{ marginBottom: '16px' }}>
+            <label style={labelStyle}>Display Name</label>
+            <input
+              value={displayName}
+              onChange={e => setDisplayName(e.target.value)}
+              placeholder="Ms. Example"
+              style={inputStyle}
+            />
+          </div>
+        )}
+        <div style={{ marginBottom: '16px' }}>
+          <label style={labelStyle}>Password</label>
+          <input
+            type="password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            autoComplete={needsSetup ? 'new-password' : 'current-password'}
+            style={inputStyle}
+          />
+        </div>
+        {needsSetup && (
+          <div style={{ marginBottom: '16px' }}>
+            <label style={labelStyle}>Confirm Password</label>
+            <input
+              type="password"
+              value={confirmPassword}
+              onChange={e => setConfirmPassword(e.target.value)}
+              autoComplete="new-password"
+              style={inputStyle}
+            />
+          </div>
+        )}
+
+        {error && (
+          <div style={{
+            marginBottom: '24px',
+            padding: '12px',
+            backgroundColor: '#f8d7da',
+            border: '1px solid #f5c6cb',
+            borderRadius: '6px',
+            color: '#721c24',
+            fontSize: '14px'
+          }}>
+            {error}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={loading}
+          style={{
+            width: '100%',
+            padding: '14px',
+            fontSize: '16px',
+            fontWeight: 'bold',
+            backgroundColor: loading ? '#6c757d' : '#28a745',
+            color: 'white',
+            border: 'none',
+            borderRadius: '6px',
+            cursor: loading ? 'not-allowed' : 'pointer',
+            marginBottom: '24px'
+          }}
+        >
+          {loading
+            ? needsSetup ? 'Creating account…' : 'Signing in…'
+            : needsSetup ? 'Create Teacher Account' : 'Sign In →'}
+        </button>
+
+        <div style={{ paddingTop: '24px', borderTop: '1px solid #eee' }}>
+          <button
+            type="button"
+            onClick={() => (window.location.href = '/')}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: '#6c757d',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer'
+            }}
+          >
+            ← Back to student login
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
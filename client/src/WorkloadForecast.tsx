@@ -0,0 +1,118 @@
+import { useState, useEffect } from 'react';
+import { Chart as ChartJS, BarElement, CategoryScale, LinearScale, Tooltip } from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+import { authHeaders } from './lib/session';
+
+ChartJS.register(BarElement, CategoryScale, LinearScale, Tooltip);
+
+interface Forecast {
+  overdue: number;
+  forecast: { date: string; due: number }[];
+  peak: number;
+  average: number;
+}
+
+const FORECAST_RANGES = [14, 30, 60, 90];
+
+// Reviews a student has coming due per day, to check that their workload is
+// spread out rather than arriving in waves.
+export default function WorkloadForecast({
+  studentId,
+  sessionToken
+}: {
+  studentId: string;
+  sessionToken: string;
+}) {
+  const [days, setDays] = useState(30);
+  const [forecast, setForecast] = useState<Forecast | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setError(null);
+      try {
+        const response = await fetch(`/api/teacher/students/${studentId}/forecast?days=${days}`, {
+          headers: authHeaders(sessionToken)
+        });
+        const data = await response.json().catch(() => null);
+        if (!response.ok || !Array.isArray(data?.forecast)) {
+          throw new Error(data?.error ?? `Failed to load forecast (${response.status})`);
+        }
+        if (!cancelled) setForecast(data);
+      } catch (err: any) {
+        if (!cancelled) setError(err.message || 'Failed to load forecast');
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [studentId, sessionToken, days]);
+
+  const chartData = {
+    labels: (forecast?.forecast ?? []).map(day =>
+      new Date(`${day.date}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' })
+    ),
+    datasets: [
+      {
+        label: 'Reviews due',
+        data: (forecast?.forecast ?? []).map(day => day.due),
+        backgroundColor: 'rgba(0, 123, 255, 0.6)'
+      }
+    ]
+  };
+
+  return (
+    <div style={{
+      backgroundColor: 'white',
+      padding: '24px',
+      borderRadius: '8px',
+      border: '1px solid #ddd',
+      marginBottom: '32px'
+    }}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', alignItems: 'center', marginBottom: '16px' }}>
+        <h3 style={{ margin: 0, color: '#333', flex: 1 }}>Upcoming Reviews</h3>
+        <select
+          value={days}
+          onChange={e => setDays(Number(e.target.value))}
+          style={{ padding: '6px', borderRadius: '6px', border: '1px solid #ccc' }}
+        >
+          {FORECAST_RANGES.map(range => (
+            <option key={range} value={range}>Next {range} days</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div style={{
+          marginBottom: '12px',
+          padding: '10px',
+          backgroundColor: '#f8d7da',
+          border: '1px solid #f5c6cb',
+          borderRadius: '6px',
+          color: '#721c24',
+          fontSize: '14px'
+        }}>
+          {error}
+        </div>
+      )}
+
+      {forecast && (
+        <>
+          <div style={{ fontSize: '14px', color: '#555', marginBottom: '12px' }}>
+            {forecast.overdue} overdue · busiest day {forecast.peak} · {forecast.average.toFixed(1)} a day on average
+          </div>
+          <div style={{ height: '220px' }}>
+            <Bar data={chartData} options={{
+              responsive: true,
+              maintainAspectRatio: false,
+              plugins: { legend: { display: false } },
+              scales: { y: { beginAtZero: true, ticks: { precision: 0 } } }
+            }} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
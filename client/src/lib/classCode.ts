@@ -0,0 +1,28 @@
+const CLASS_CODE_STORAGE_KEY = '12x12.classCode';
+
+// Unlike the session token, the class code is remembered across browser
+// restarts: a classroom device normally stays with the same class.
+export function loadClassCode(): string | null {
+  try {
+    const fromUrl = new URLSearchParams(window.location.search).get('class');
+    return fromUrl?.trim() || window.localStorage.getItem(CLASS_CODE_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function saveClassCode(code: string | null): void {
+  try {
+    if (code) {
+      window.localStorage.setItem(CLASS_CODE_STORAGE_KEY, code);
+    } else {
+      window.localStorage.removeItem(CLASS_CODE_STORAGE_KEY);
+    }
+  } catch {
+    // Without storage the code just has to be entered again next time.
+  }
+}
+
+export function classJoinUrl(code: string): string {
+  return `${window.location.origin}/?class=${encodeURIComponent(code)}`;
+}
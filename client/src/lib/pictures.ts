@@ -0,0 +1,13 @@
+import { PictureCatalog, PictureOption } from '../types';
+
+export async function fetchPictureCatalog(): Promise<PictureCatalog> {
+  const response = await fetch('/api/pictures');
+  if (!response.ok) {
+    throw new Error(`Failed to load pictures: ${response.status}`);
+  }
+  return response.json();
+}
+
+export function pictureById(catalog: PictureOption[], id: string): PictureOption | undefined {
+  return catalog.find(option => option.id === id);
+}
@@ -0,0 +1,28 @@
+const SESSION_STORAGE_KEY = '12x12.sessionToken';
+
+// Session storage keeps a login alive across reloads without leaving it
+// behind on a shared classroom computer once the tab is closed.
+export function loadSessionToken(): string | null {
+  try {
+    return window.sessionStorage.getItem(SESSION_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function saveSessionToken(token: string | null): void {
+  try {
+    if (token) {
+      window.sessionStorage.setItem(SESSION_STORAGE_KEY, token);
+    } else {
+      window.sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    }
+  } catch {
+    // Storage can be unavailable (private mode, disabled cookies); the
+    // session then simply lasts until the page is reloaded.
+  }
+}
+
+export function authHeaders(token: string): Record<string, string> {
+  return { Authorization: `Bearer ${token}` };
+}
@@ -4,10 +4,61 @@ export interface CardDTO {
   card_state_id: string;
   card_id: number;
   front: string;
-  back: string;
+  // Only sent to self-grading classes; elsewhere the review response carries it
+  back?: string;
   next_review: string;
   interval_days: number;
   ease_factor: number;
   repetitions: number;
+  // Index into the learning/relearning steps, null once the card has graduated
+  learning_step: number | null;
+  // 'new' cards are facts the student is meeting for the first time
+  status: 'new' | 'learning' | 'review';
+  // Options to pick from in multiple-choice classes, the right one among them
+  choices?: string[];
   last_grade: Grade | null;
 }
+
+export type PracticeSet = '9x9' | 'full';
+
+// A fact served in a timed sprint; its answer stays on the server
+export interface SprintCard {
+  card_state_id: string;
+  front: string;
+  choices?: string[];
+}
+
+export interface PictureOption {
+  id: string;
+  emoji: string;
+  label: string;
+}
+
+export type PictureDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface PictureCatalog {
+  pictures: PictureOption[];
+  difficulties: { id: PictureDifficulty; length: number }[];
+}
+
+export type SchedulerName = 'sm2' | 'fsrs';
+
+// 'self' flips the card and self-grades; 'typed' and 'choice' check the answer given
+export type AnswerMode = 'self' | 'typed' | 'choice';
+
+export interface ClassSummary {
+  id: string;
+  name: string;
+  join_code: string;
+  scheduler: SchedulerName;
+  // Minutes; null uses the server defaults
+  learning_steps: number[] | null;
+  relearning_steps: number[] | null;
+  // null uses the server default
+  new_cards_per_day: number | null;
+  // IANA timezone and the local hour a new school day starts; null uses the server defaults
+  timezone: string | null;
+  day_rollover_hour: number | null;
+  answer_mode: AnswerMode;
+  student_count: number;
+}
@@ -0,0 +1,12 @@
+-- Server-issued login sessions. The API hands out signed tokens that reference
+-- a row here so sessions can expire and be revoked on logout.
+CREATE TABLE IF NOT EXISTS srs.sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES srs.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_srs_sessions_user_id ON srs.sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_srs_sessions_expires_at ON srs.sessions(expires_at);
@@ -0,0 +1,21 @@
+-- Track which teacher owns each student so teacher endpoints can be scoped.
+ALTER TABLE srs.users
+  ADD COLUMN IF NOT EXISTS teacher_id UUID REFERENCES srs.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_srs_users_teacher_id ON srs.users(teacher_id);
+
+-- Single-teacher deployments predate ownership; hand existing students to that teacher.
+-- With several teachers, assign owners manually:
+--   UPDATE srs.users SET teacher_id = '<teacher uuid>' WHERE id = '<student uuid>';
+DO $$
+DECLARE
+  teacher_count INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO teacher_count FROM srs.users WHERE user_type = 'teacher';
+  IF teacher_count = 1 THEN
+    UPDATE srs.users
+       SET teacher_id = (SELECT id FROM srs.users WHERE user_type = 'teacher')
+     WHERE user_type IN ('student', 'archived_student')
+       AND teacher_id IS NULL;
+  END IF;
+END $$;
@@ -0,0 +1,9 @@
+-- Picture passwords are stored as scrypt hashes. The server hashes any
+-- remaining plain values in picture_password at startup (or on first login)
+-- and clears the old column, so it only ever holds legacy data.
+ALTER TABLE srs.users
+  ADD COLUMN IF NOT EXISTS picture_password_hash TEXT;
+
+-- Emoji shown on the login picker; the roster falls back to a default per role.
+ALTER TABLE srs.users
+  ADD COLUMN IF NOT EXISTS avatar VARCHAR(32);
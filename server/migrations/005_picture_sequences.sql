@@ -0,0 +1,5 @@
+-- Picture passwords are ordered sequences of catalog pictures. The login
+-- picker needs to know how many pictures to collect; legacy single-picture
+-- passwords default to a length of 1.
+ALTER TABLE srs.users
+  ADD COLUMN IF NOT EXISTS picture_sequence_length SMALLINT NOT NULL DEFAULT 1;
@@ -0,0 +1,10 @@
+-- Failed login attempts, keyed by 'user:<uuid>' or 'ip:<address>'. Drives
+-- progressive delays and temporary lockouts for picture-password guessing.
+CREATE TABLE IF NOT EXISTS srs.login_throttle (
+    key TEXT PRIMARY KEY,
+    failures INTEGER NOT NULL DEFAULT 0,
+    last_failure_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    locked_until TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_srs_login_throttle_locked_until ON srs.login_throttle(locked_until);
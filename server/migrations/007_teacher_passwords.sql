@@ -0,0 +1,4 @@
+-- Teachers sign in with a username and a hashed text password instead of the
+-- student picture picker. Set one with `npm run create-teacher`.
+ALTER TABLE srs.users
+  ADD COLUMN IF NOT EXISTS password_hash TEXT;
@@ -0,0 +1,15 @@
+-- Teachers group their students into classes; a student belongs to at most one.
+CREATE TABLE IF NOT EXISTS srs.classes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    teacher_id UUID NOT NULL REFERENCES srs.users(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (teacher_id, name)
+);
+
+ALTER TABLE srs.users
+  ADD COLUMN IF NOT EXISTS class_id UUID REFERENCES srs.classes(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_srs_classes_teacher_id ON srs.classes(teacher_id);
+CREATE INDEX IF NOT EXISTS idx_srs_users_class_id ON srs.users(class_id);
@@ -0,0 +1,18 @@
+-- Short codes students type (or open as a link) to reach their class's login screen.
+ALTER TABLE srs.classes
+  ADD COLUMN IF NOT EXISTS join_code VARCHAR(12);
+
+-- Same unambiguous alphabet the server uses (no 0/O, 1/I/L). The reference to c.id
+-- correlates the subquery so each class gets its own code.
+UPDATE srs.classes c
+   SET join_code = (
+     SELECT string_agg(substr('ABCDEFGHJKMNPQRSTUVWXYZ23456789', 1 + floor(random() * 31)::int, 1), '')
+       FROM generate_series(1, 6)
+      WHERE c.id IS NOT NULL
+   )
+ WHERE join_code IS NULL;
+
+ALTER TABLE srs.classes
+  ALTER COLUMN join_code SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_srs_classes_join_code ON srs.classes(join_code);
@@ -0,0 +1,8 @@
+-- Teachers can suspend individual facts for a student; suspended cards are
+-- never served for practice until they are unsuspended.
+ALTER TABLE srs.card_state
+  ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_srs_card_state_user_due_active
+  ON srs.card_state(user_id, due_at)
+  WHERE suspended_at IS NULL;
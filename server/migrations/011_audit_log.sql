@@ -0,0 +1,17 @@
+-- One row per teacher mutation. target_student_id deliberately has no foreign
+-- key so entries survive the student being purged.
+CREATE TABLE IF NOT EXISTS srs.audit_log (
+    id BIGSERIAL PRIMARY KEY,
+    actor_id UUID REFERENCES srs.users(id) ON DELETE SET NULL,
+    action VARCHAR(100) NOT NULL,
+    target_student_id UUID,
+    target_class_id UUID,
+    payload JSONB,
+    outcome VARCHAR(20) NOT NULL CHECK (outcome IN ('success', 'denied', 'failure')),
+    status_code INTEGER NOT NULL,
+    details JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_srs_audit_log_actor_created ON srs.audit_log(actor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_srs_audit_log_target_student ON srs.audit_log(target_student_id);
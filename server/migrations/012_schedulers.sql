@@ -0,0 +1,15 @@
+-- Scheduling algorithm selection. Classes pick a scheduler; a student can
+-- override it (NULL inherits the class, and students without a class use SM-2).
+-- card_state remembers which scheduler last wrote each card along with that
+-- scheduler's own memory state (e.g. FSRS stability and difficulty).
+ALTER TABLE srs.classes
+  ADD COLUMN IF NOT EXISTS scheduler VARCHAR(20) NOT NULL DEFAULT 'sm2'
+    CHECK (scheduler IN ('sm2', 'fsrs'));
+
+ALTER TABLE srs.users
+  ADD COLUMN IF NOT EXISTS scheduler VARCHAR(20)
+    CHECK (scheduler IN ('sm2', 'fsrs'));
+
+ALTER TABLE srs.card_state
+  ADD COLUMN IF NOT EXISTS scheduler VARCHAR(20) NOT NULL DEFAULT 'sm2',
+  ADD COLUMN IF NOT EXISTS scheduler_state JSONB;
@@ -0,0 +1,15 @@
+-- Scheduler parameters fitted to review history, for either one student or one
+-- class. A student's own row wins over their class's; with neither, the
+-- scheduler uses its built-in defaults.
+CREATE TABLE IF NOT EXISTS srs.scheduler_params (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID UNIQUE REFERENCES srs.users(id) ON DELETE CASCADE,
+    class_id UUID UNIQUE REFERENCES srs.classes(id) ON DELETE CASCADE,
+    scheduler VARCHAR(20) NOT NULL CHECK (scheduler IN ('sm2', 'fsrs')),
+    params JSONB NOT NULL,
+    -- Fit summary (review counts, log loss, predicted retention before/after)
+    metrics JSONB NOT NULL,
+    fitted_by UUID REFERENCES srs.users(id) ON DELETE SET NULL,
+    fitted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK ((user_id IS NULL) <> (class_id IS NULL))
+);
@@ -0,0 +1,12 @@
+-- Sub-day learning and relearning steps, in minutes. NULL uses the server
+-- defaults (LEARNING_STEPS_MINUTES / RELEARNING_STEPS_MINUTES); an empty array
+-- turns the steps off for the class.
+ALTER TABLE srs.classes
+  ADD COLUMN IF NOT EXISTS learning_steps INTEGER[]
+    CHECK (learning_steps IS NULL OR 0 < ALL (learning_steps)),
+  ADD COLUMN IF NOT EXISTS relearning_steps INTEGER[]
+    CHECK (relearning_steps IS NULL OR 0 < ALL (relearning_steps));
+
+-- Index into the learning or relearning steps; NULL once a card has graduated.
+ALTER TABLE srs.card_state
+  ADD COLUMN IF NOT EXISTS learning_step SMALLINT;
@@ -0,0 +1,17 @@
+-- A card is "new" until it is first shown to the student; introduced_at
+-- records when that happened so each class can cap new facts per day.
+ALTER TABLE srs.card_state
+  ADD COLUMN IF NOT EXISTS introduced_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE srs.card_state
+   SET introduced_at = last_reviewed_at
+ WHERE introduced_at IS NULL
+   AND last_reviewed_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_srs_card_state_user_introduced
+  ON srs.card_state(user_id, introduced_at);
+
+-- NULL uses the server default (NEW_CARDS_PER_DAY).
+ALTER TABLE srs.classes
+  ADD COLUMN IF NOT EXISTS new_cards_per_day INTEGER
+    CHECK (new_cards_per_day IS NULL OR new_cards_per_day >= 0);
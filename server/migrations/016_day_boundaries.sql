@@ -0,0 +1,8 @@
+-- Where a class's school day begins: the rollover hour in the class's IANA
+-- timezone. Scheduled reviews fall due at the start of a day and teacher charts
+-- bucket by these days. NULL uses the server defaults (DEFAULT_TIMEZONE /
+-- DAY_ROLLOVER_HOUR).
+ALTER TABLE srs.classes
+  ADD COLUMN IF NOT EXISTS timezone TEXT,
+  ADD COLUMN IF NOT EXISTS day_rollover_hour SMALLINT
+    CHECK (day_rollover_hour IS NULL OR day_rollover_hour BETWEEN 0 AND 23);
@@ -0,0 +1,12 @@
+-- What the student actually entered and how long they took, for modes where
+-- the app rather than the student decides whether an answer was right.
+ALTER TABLE srs.reviews
+  ADD COLUMN IF NOT EXISTS answer TEXT,
+  ADD COLUMN IF NOT EXISTS response_ms INTEGER
+    CHECK (response_ms IS NULL OR response_ms >= 0);
+
+-- How a class's students answer: 'self' flips the card and self-grades,
+-- 'typed' has them type the product and grades it automatically.
+ALTER TABLE srs.classes
+  ADD COLUMN IF NOT EXISTS answer_mode VARCHAR(20) NOT NULL DEFAULT 'self'
+    CONSTRAINT classes_answer_mode_check CHECK (answer_mode IN ('self', 'typed'));
@@ -0,0 +1,11 @@
+-- How each review was answered, so response times from different modes are
+-- not compared with each other: for self-graded reviews response_ms is the time
+-- until the card was turned over, for typed answers the time until submitting.
+-- correct is set whenever the app checked the answer itself.
+ALTER TABLE srs.reviews
+  ADD COLUMN IF NOT EXISTS answer_mode VARCHAR(20)
+    CONSTRAINT reviews_answer_mode_check CHECK (answer_mode IN ('self', 'typed')),
+  ADD COLUMN IF NOT EXISTS correct BOOLEAN;
+
+CREATE INDEX IF NOT EXISTS idx_srs_reviews_user_card_created
+  ON srs.reviews(user_id, card_id, created_at);
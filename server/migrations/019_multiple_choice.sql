@@ -0,0 +1,11 @@
+-- Multiple-choice answering. Classes and reviews gain a 'choice' answer mode,
+-- and a wrong answer records which misconception it matches (see
+-- src/distractors.ts), e.g. 'addition' for 7 × 8 = 15.
+ALTER TABLE srs.classes
+  DROP CONSTRAINT IF EXISTS classes_answer_mode_check,
+  ADD CONSTRAINT classes_answer_mode_check CHECK (answer_mode IN ('self', 'typed', 'choice'));
+
+ALTER TABLE srs.reviews
+  DROP CONSTRAINT IF EXISTS reviews_answer_mode_check,
+  ADD CONSTRAINT reviews_answer_mode_check CHECK (answer_mode IN ('self', 'typed', 'choice')),
+  ADD COLUMN IF NOT EXISTS misconception VARCHAR(30);
@@ -0,0 +1,19 @@
+-- Timed "mad minute" sprints: answer as many facts as possible before the
+-- clock runs out. Answers are checked as they arrive, so score (correct
+-- answers) and attempted are running totals; a sprint is over once ends_at has
+-- passed, whether or not the student stayed to the end. card_state_ids is the
+-- order facts were served in; answers must follow it, cycling from the start.
+CREATE TABLE IF NOT EXISTS srs.sprints (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES srs.users(id) ON DELETE CASCADE,
+    practice_set VARCHAR(10) NOT NULL CHECK (practice_set IN ('9x9', 'full')),
+    duration_seconds INTEGER NOT NULL CHECK (duration_seconds BETWEEN 60 AND 300),
+    answer_mode VARCHAR(20) NOT NULL CHECK (answer_mode IN ('typed', 'choice')),
+    card_state_ids UUID[] NOT NULL CHECK (cardinality(card_state_ids) > 0),
+    attempted INTEGER NOT NULL DEFAULT 0 CHECK (attempted >= 0),
+    score INTEGER NOT NULL DEFAULT 0 CHECK (score >= 0 AND score <= attempted),
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    ends_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_srs_sprints_user_started ON srs.sprints(user_id, started_at DESC);
@@ -0,0 +1,6 @@
+-- Teachers sign in with a case-insensitive username, so two teachers may not
+-- differ only in capitalisation ('Smith' and 'smith'). If this fails, rename
+-- one of the clashing teacher accounts and run it again.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_srs_users_teacher_username_lower
+  ON srs.users (LOWER(username))
+  WHERE user_type = 'teacher';
@@ -0,0 +1,97 @@
+import {
+  checkAnswer,
+  checkedAnswerMode,
+  gradeAnswer,
+  isCorrectAnswer,
+  normalizeAnswer,
+  studentCardFace
+} from './answers';
+
+describe('gradeAnswer', () => {
+  test('grades a wrong answer Again however fast it came', () => {
+    expect(gradeAnswer(false, 500, 'typed')).toBe('again');
+    expect(gradeAnswer(false, 500, 'choice')).toBe('again');
+  });
+
+  test('grades a right typed answer by response time', () => {
+    expect(gradeAnswer(true, 3000, 'typed')).toBe('easy');
+    expect(gradeAnswer(true, 3001, 'typed')).toBe('good');
+    expect(gradeAnswer(true, 8000, 'typed')).toBe('good');
+    expect(gradeAnswer(true, 8001, 'typed')).toBe('hard');
+  });
+
+  test('never grades a multiple-choice answer Easy', () => {
+    expect(gradeAnswer(true, 0, 'choice')).toBe('good');
+    expect(gradeAnswer(true, 8000, 'choice')).toBe('good');
+    expect(gradeAnswer(true, 8001, 'choice')).toBe('hard');
+  });
+});
+
+describe('isCorrectAnswer', () => {
+  test('ignores spacing, separators and leading zeros', () => {
+    expect(normalizeAnswer(' 1,44 ')).toBe('144');
+    expect(isCorrectAnswer('1 44', '144')).toBe(true);
+    expect(isCorrectAnswer('007', '7')).toBe(true);
+    expect(isCorrectAnswer('0', '0')).toBe(true);
+  });
+
+  test('rejects empty and different answers', () => {
+    expect(isCorrectAnswer('', '0')).toBe(false);
+    expect(isCorrectAnswer('   ', '')).toBe(false);
+    expect(isCorrectAnswer('145', '144')).toBe(false);
+    expect(isCorrectAnswer('14.4', '144')).toBe(false);
+  });
+});
+
+describe('checkedAnswerMode', () => {
+  test('checks typed answers unless the class picks from options', () => {
+    expect(checkedAnswerMode('self')).toBe('typed');
+    expect(checkedAnswerMode('typed')).toBe('typed');
+    expect(checkedAnswerMode('choice')).toBe('choice');
+  });
+});
+
+describe('checkAnswer', () => {
+  const card = { front: '7 × 8', back: '56' };
+
+  test('grades a right answer by speed and records it', () => {
+    expect(checkAnswer(card, ' 56 ', 2500, 'typed')).toEqual({
+      correct: true,
+      grade: 'easy',
+      details: { answer: ' 56 ', responseMs: 2500, answerMode: 'typed', correct: true, misconception: null }
+    });
+    expect(checkAnswer(card, '56', 2500, 'choice').grade).toBe('good');
+  });
+
+  test('labels a wrong answer with the mistake it looks like', () => {
+    const checked = checkAnswer(card, '48', 1000, 'typed');
+    expect(checked.correct).toBe(false);
+    expect(checked.grade).toBe('again');
+    expect(checked.details.misconception).toBe('off_by_one_factor');
+    expect(checkAnswer(card, '15', 1000, 'typed').details.misconception).toBe('addition');
+    expect(checkAnswer(card, '3', 1000, 'typed').details.misconception).toBeNull();
+  });
+
+  test('does not guess a misconception for cards that are not a times-table fact', () => {
+    expect(checkAnswer({ front: 'Square of 7', back: '49' }, '48', 1000, 'typed').details.misconception).toBeNull();
+  });
+});
+
+describe('studentCardFace', () => {
+  test('only shows the answer on self-graded cards', () => {
+    expect(studentCardFace('7 × 8', '56', 'self')).toEqual({ front: '7 × 8', back: '56' });
+    expect(studentCardFace('7 × 8', '56', 'typed')).toEqual({ front: '7 × 8' });
+  });
+
+  test('offers four options including the answer without saying which is right', () => {
+    const face = studentCardFace('7 × 8', '56', 'choice');
+    expect(face).not.toHaveProperty('back');
+    expect(face.choices).toHaveLength(4);
+    expect(face.choices).toContain('56');
+    expect(new Set(face.choices).size).toBe(4);
+  });
+
+  test('falls back to the answer alone when the front has no factors', () => {
+    expect(studentCardFace('Square of 7', '49', 'choice')).toEqual({ front: 'Square of 7', choices: ['49'] });
+  });
+});
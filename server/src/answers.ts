@@ -0,0 +1,105 @@
+import { Misconception, buildChoices, classifyAnswer, parseFactors } from './distractors';
+import { Grade } from './scheduler';
+
+/**
+ * Automatic grading for answer modes where the student enters or picks the
+ * product instead of grading themselves. A wrong answer is Again; a right one
+ * is graded by how quickly it came, since instant recall is what fluency means.
+ * Picking from a few options is recognition rather than recall, so a multiple
+ * choice answer is never graded Easy.
+ */
+
+export const ANSWER_MODES = ['self', 'typed', 'choice'] as const;
+export type AnswerMode = (typeof ANSWER_MODES)[number];
+export const DEFAULT_ANSWER_MODE: AnswerMode = 'self';
+
+export const MAX_ANSWER_LENGTH = 20;
+// Anything slower is treated as the student having walked away
+export const MAX_RESPONSE_MS = 10 * 60 * 1000;
+
+const EASY_RESPONSE_MS = 3000;
+const GOOD_RESPONSE_MS = 8000;
+
+// A fact counts as fluent when it is nearly always right and typically as quick as an Easy answer
+export const FLUENT_RESPONSE_MS = EASY_RESPONSE_MS;
+export const FLUENT_ACCURACY = 0.9;
+
+// Drops spacing, thousands separators and leading zeros so "1,44" style typos
+// are judged on the digits the student meant
+export function normalizeAnswer(value: string): string {
+  const compact = value.trim().toLowerCase().replace(/[\s,]+/g, '');
+  return /^\d+$/.test(compact) ? String(Number(compact)) : compact;
+}
+
+export function isCorrectAnswer(answer: string, expected: string): boolean {
+  const normalized = normalizeAnswer(answer);
+  return normalized !== '' && normalized === normalizeAnswer(expected);
+}
+
+export function gradeAnswer(correct: boolean, responseMs: number, mode: AnswerMode): Grade {
+  if (!correct) return 'again';
+  if (responseMs <= EASY_RESPONSE_MS) return mode === 'choice' ? 'good' : 'easy';
+  if (responseMs <= GOOD_RESPONSE_MS) return 'good';
+  return 'hard';
+}
+
+// Typed unless the class picks from options; also what sprints use, since a
+// timed score needs answers the app checks itself
+export function checkedAnswerMode(classAnswerMode: AnswerMode): AnswerMode {
+  return classAnswerMode === 'choice' ? 'choice' : 'typed';
+}
+
+export interface CheckedAnswer {
+  correct: boolean;
+  grade: Grade;
+  // Stored with the review
+  details: {
+    answer: string;
+    responseMs: number;
+    answerMode: AnswerMode;
+    correct: boolean;
+    misconception: Misconception | null;
+  };
+}
+
+export function checkAnswer(
+  card: { front: string; back: string },
+  answer: string,
+  responseMs: number,
+  answerMode: AnswerMode
+): CheckedAnswer {
+  const correct = isCorrectAnswer(answer, card.back);
+  const factors = parseFactors(card.front);
+  return {
+    correct,
+    grade: gradeAnswer(correct, responseMs, answerMode),
+    details: {
+      answer,
+      responseMs,
+      answerMode,
+      correct,
+      misconception: factors && !correct ? classifyAnswer(...factors, answer) : null
+    }
+  };
+}
+
+// Options for a multiple-choice card; cards that are not a seeded 'a × b' fact
+// fall back to their answer alone
+export function choicesForCard(front: string, back: string): string[] {
+  const factors = parseFactors(front);
+  return factors ? buildChoices(...factors).map(option => option.value) : [back];
+}
+
+// What a student is shown before answering. Only self-graded cards carry their
+// answer; checked modes get it back from the review instead.
+export function studentCardFace(
+  front: string,
+  back: string,
+  answerMode: AnswerMode
+): { front: string; back?: string; choices?: string[] } {
+  return {
+    front,
+    ...(answerMode === 'self' ? { back } : {}),
+    ...(answerMode === 'choice' ? { choices: choicesForCard(front, back) } : {})
+  };
+}
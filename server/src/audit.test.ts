@@ -0,0 +1,113 @@
+import {
+  auditAction,
+  auditFilter,
+  auditOutcome,
+  auditPayload,
+  auditQuerySchema,
+  auditResponseSummary,
+  isUuid
+} from './audit';
+
+const teacherId = '0b6f3c1e-2d4a-4e8b-9c7d-5a1b2c3d4e5f';
+const studentId = '3f1c2a4e-8b7d-4c6a-9e2f-1a2b3c4d5e6f';
+
+describe('auditAction', () => {
+  test('names known routes by their route path, not the URL', () => {
+    expect(auditAction('DELETE', '/api/teacher/students/:studentId')).toBe('student.delete');
+    expect(auditAction('POST', '/api/teacher/reset-srs/:userId')).toBe('student.reset_srs');
+    expect(auditAction('PATCH', '/api/teacher/students/:studentId')).toBe('student.update');
+  });
+
+  test('falls back to the method and path for unnamed routes', () => {
+    expect(auditAction('PUT', '/api/teacher/somewhere')).toBe('PUT /api/teacher/somewhere');
+  });
+});
+
+describe('auditPayload', () => {
+  test('redacts passwords and keeps everything else', () => {
+    expect(
+      auditPayload({ username: 'ada', picturePassword: ['1', '2'], currentPassword: 'x', newPassword: 'y' })
+    ).toEqual({
+      username: 'ada',
+      picturePassword: '[redacted]',
+      currentPassword: '[redacted]',
+      newPassword: '[redacted]'
+    });
+  });
+
+  test('reduces a CSV upload to its number of non-blank lines', () => {
+    expect(auditPayload({ csv: 'username,name\r\nada,Ada\n\n  \nbob,Bob\n', classId: null })).toEqual({
+      csv: '[3 lines]',
+      classId: null
+    });
+  });
+
+  test('records nothing for an empty or non-object body', () => {
+    expect(auditPayload(undefined)).toBeNull();
+    expect(auditPayload(['a'])).toBeNull();
+    expect(auditPayload('text')).toBeNull();
+  });
+});
+
+describe('auditResponseSummary', () => {
+  test('drops arrays that could hold rosters or generated passwords', () => {
+    expect(
+      auditResponseSummary({ success: true, created: 2, students: [{ picturePassword: ['1', '2'] }], cleared: { cards: 3 } })
+    ).toEqual({ success: true, created: 2, cleared: { cards: 3 } });
+    expect(auditResponseSummary([1, 2])).toEqual({});
+    expect(auditResponseSummary(undefined)).toEqual({});
+  });
+});
+
+describe('auditOutcome', () => {
+  test('tells refusals apart from failures', () => {
+    expect(auditOutcome(200)).toBe('success');
+    expect(auditOutcome(304)).toBe('success');
+    expect(auditOutcome(401)).toBe('denied');
+    expect(auditOutcome(403)).toBe('denied');
+    expect(auditOutcome(404)).toBe('failure');
+    expect(auditOutcome(500)).toBe('failure');
+  });
+});
+
+describe('isUuid', () => {
+  test('only lets ids through that fit the uuid columns', () => {
+    expect(isUuid(studentId)).toBe(true);
+    expect(isUuid('42')).toBe(false);
+    expect(isUuid(undefined)).toBe(false);
+  });
+});
+
+describe('auditFilter', () => {
+  test('always limits entries to the teacher', () => {
+    expect(auditFilter(teacherId, auditQuerySchema.parse({}))).toEqual({
+      where: 'a.actor_id = $1',
+      params: [teacherId]
+    });
+  });
+
+  test('numbers the parameters of each filter in turn', () => {
+    const query = auditQuerySchema.parse({
+      action: 'student.clear',
+      studentId,
+      outcome: 'denied',
+      from: '2024-03-01T00:00:00Z',
+      to: '2024-04-01T00:00:00+01:00'
+    });
+    expect(auditFilter(teacherId, query)).toEqual({
+      where:
+        'a.actor_id = $1 AND a.action = $2 AND a.target_student_id = $3 AND a.outcome = $4 ' +
+        'AND a.created_at >= $5 AND a.created_at < $6',
+      params: [teacherId, 'student.clear', studentId, 'denied', '2024-03-01T00:00:00Z', '2024-04-01T00:00:00+01:00']
+    });
+  });
+});
+
+describe('auditQuerySchema', () => {
+  test('reads paging from the query string and caps the page size', () => {
+    expect(auditQuerySchema.parse({ limit: '20', offset: '40' })).toMatchObject({ limit: 20, offset: 40 });
+    expect(auditQuerySchema.parse({})).toMatchObject({ limit: 50, offset: 0 });
+    expect(auditQuerySchema.safeParse({ limit: '500' }).success).toBe(false);
+    expect(auditQuerySchema.safeParse({ outcome: 'maybe' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Audit log helpers. Every teacher mutation is recorded in srs.audit_log with a
+ * stable action name, the request body minus secrets, a summary of the response
+ * and an outcome; teachers can filter and export their own entries.
+ */
+
+import { z } from 'zod';
+
+// Stable action names for the audit log, keyed by '<METHOD> <route path>'
+const AUDIT_ACTIONS: Record<string, string> = {
+  'POST /api/teacher/students': 'student.create',
+  'POST /api/teacher/students/import': 'student.import',
+  'PATCH /api/teacher/students/:studentId': 'student.update',
+  'DELETE /api/teacher/students/:studentId': 'student.delete',
+  'POST /api/teacher/students/:studentId/restore': 'student.restore',
+  'DELETE /api/teacher/students/:studentId/purge': 'student.purge',
+  'POST /api/teacher/students/:studentId/unlock': 'student.unlock',
+  'POST /api/teacher/students/:studentId/cards/override': 'cards.override',
+  'POST /api/teacher/students/:studentId/scheduler-params': 'scheduler.fit_student',
+  'DELETE /api/teacher/students/:studentId/scheduler-params': 'scheduler.reset_student',
+  'POST /api/teacher/clear/:userId': 'student.clear',
+  'POST /api/teacher/reset-srs/:userId': 'student.reset_srs',
+  'POST /api/teacher/classes': 'class.create',
+  'PATCH /api/teacher/classes/:classId': 'class.update',
+  'DELETE /api/teacher/classes/:classId': 'class.delete',
+  'POST /api/teacher/classes/:classId/join-code': 'class.regenerate_join_code',
+  'POST /api/teacher/classes/:classId/scheduler-params': 'scheduler.fit_class',
+  'DELETE /api/teacher/classes/:classId/scheduler-params': 'scheduler.reset_class',
+  'POST /api/teacher/password': 'teacher.change_password'
+};
+
+// Routes without a stable name are logged under their route key
+export function auditAction(method: string, routePath: string): string {
+  const routeKey = `${method} ${routePath}`;
+  return AUDIT_ACTIONS[routeKey] ?? routeKey;
+}
+
+const AUDIT_SECRET_FIELDS = new Set(['picturePassword', 'password', 'currentPassword', 'newPassword']);
+
+// Request bodies minus secrets; CSV uploads are reduced to their size.
+export function auditPayload(body: unknown): Record<string, unknown> | null {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return null;
+  const payload: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(body)) {
+    if (AUDIT_SECRET_FIELDS.has(key)) {
+      payload[key] = '[redacted]';
+    } else if (key === 'csv' && typeof value === 'string') {
+      payload[key] = `[${value.split(/\r?\n/).filter(line => line.trim()).length} lines]`;
+    } else {
+      payload[key] = value;
+    }
+  }
+  return payload;
+}
+
+// Keeps the scalar and small-object parts of a response (message, error, counts);
+// arrays are dropped because they can hold rosters or generated picture passwords.
+export function auditResponseSummary(body: unknown): Record<string, unknown> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return {};
+  const summary: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(body)) {
+    if (Array.isArray(value)) continue;
+    summary[key] = value;
+  }
+  return summary;
+}
+
+export function isUuid(value: string | undefined): value is string {
+  return !!value && /^[0-9a-fA-F-]{36}$/.test(value);
+}
+
+export function auditOutcome(statusCode: number): 'success' | 'denied' | 'failure' {
+  if (statusCode < 400) return 'success';
+  if (statusCode === 401 || statusCode === 403) return 'denied';
+  return 'failure';
+}
+
+export const auditQuerySchema = z.object({
+  action: z.string().max(100).optional(),
+  studentId: z.string().uuid().optional(),
+  outcome: z.enum(['success', 'denied', 'failure']).optional(),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+
+export const AUDIT_EXPORT_LIMIT = 10000;
+
+// Teachers only ever see their own entries.
+export function auditFilter(teacherId: string, query: AuditQuery) {
+  const conditions = ['a.actor_id = $1'];
+  const params: unknown[] = [teacherId];
+  const add = (condition: string, value: unknown) => {
+    params.push(value);
+    conditions.push(condition.replace('?', `$${params.length}`));
+  };
+  if (query.action) add('a.action = ?', query.action);
+  if (query.studentId) add('a.target_student_id = ?', query.studentId);
+  if (query.outcome) add('a.outcome = ?', query.outcome);
+  if (query.from) add('a.created_at >= ?', query.from);
+  if (query.to) add('a.created_at < ?', query.to);
+  return { where: conditions.join(' AND '), params };
+}
@@ -0,0 +1,80 @@
+import { DayBoundary, addDaysToKey, dayKey, dayStart, isValidTimeZone, scheduleDayStart } from './calendar';
+
+const newYork = (rolloverHour: number): DayBoundary => ({ timeZone: 'America/New_York', rolloverHour });
+const at = (iso: string) => new Date(iso);
+
+describe('dayKey and dayStart', () => {
+  test('use the UTC date when the day starts at midnight UTC', () => {
+    const utc: DayBoundary = { timeZone: 'UTC', rolloverHour: 0 };
+    expect(dayKey(at('2024-03-01T23:59:59Z'), utc)).toBe('2024-03-01');
+    expect(dayKey(at('2024-03-02T00:00:00Z'), utc)).toBe('2024-03-02');
+    expect(dayStart('2024-03-02', utc)).toEqual(at('2024-03-02T00:00:00Z'));
+  });
+
+  test('count the small hours toward the previous day until the rollover hour', () => {
+    // 03:59 and 04:00 Eastern Standard Time
+    expect(dayKey(at('2024-01-16T08:59:59Z'), newYork(4))).toBe('2024-01-15');
+    expect(dayKey(at('2024-01-16T09:00:00Z'), newYork(4))).toBe('2024-01-16');
+    expect(dayStart('2024-01-16', newYork(4))).toEqual(at('2024-01-16T09:00:00Z'));
+    expect(dayStart('2024-07-16', newYork(4))).toEqual(at('2024-07-16T08:00:00Z'));
+  });
+
+  test('start the day at the local rollover hour on the spring-forward night', () => {
+    expect(dayStart('2024-03-10', newYork(4))).toEqual(at('2024-03-10T08:00:00Z'));
+    expect(dayKey(at('2024-03-10T07:59:59Z'), newYork(4))).toBe('2024-03-09');
+    expect(dayKey(at('2024-03-10T08:00:00Z'), newYork(4))).toBe('2024-03-10');
+  });
+
+  test('start the day when the clock jumps past a skipped rollover hour', () => {
+    // 02:00 does not exist on 10 March; the clock goes from 01:59:59 EST to 03:00 EDT
+    expect(dayStart('2024-03-10', newYork(2))).toEqual(at('2024-03-10T07:00:00Z'));
+    expect(dayKey(at('2024-03-10T06:59:59Z'), newYork(2))).toBe('2024-03-09');
+    expect(dayKey(at('2024-03-10T07:00:00Z'), newYork(2))).toBe('2024-03-10');
+  });
+
+  test('give the fall-back day its extra hour', () => {
+    // 01:00 happens twice on 3 November; the day starts at the first one
+    expect(dayStart('2024-11-03', newYork(1))).toEqual(at('2024-11-03T05:00:00Z'));
+    expect(dayKey(at('2024-11-03T04:59:59Z'), newYork(1))).toBe('2024-11-02');
+    expect(dayKey(at('2024-11-03T06:30:00Z'), newYork(1))).toBe('2024-11-03');
+    const length = dayStart('2024-11-04', newYork(1)).getTime() - dayStart('2024-11-03', newYork(1)).getTime();
+    expect(length).toBe(25 * 60 * 60 * 1000);
+  });
+
+  test('agree with each other on every day of a year', () => {
+    const zones = ['UTC', 'America/New_York', 'Europe/London', 'Australia/Sydney', 'Asia/Kolkata'];
+    for (const timeZone of zones) {
+      for (const rolloverHour of [0, 2, 4, 23]) {
+        const boundary = { timeZone, rolloverHour };
+        for (let key = '2024-01-01'; key < '2025-01-01'; key = addDaysToKey(key, 1)) {
+          const start = dayStart(key, boundary);
+          expect(dayKey(start, boundary)).toBe(key);
+          expect(dayKey(new Date(start.getTime() - 1000), boundary)).toBe(addDaysToKey(key, -1));
+        }
+      }
+    }
+  });
+});
+
+describe('addDaysToKey', () => {
+  test('crosses month and year ends and goes backwards', () => {
+    expect(addDaysToKey('2024-02-28', 1)).toBe('2024-02-29');
+    expect(addDaysToKey('2024-12-31', 1)).toBe('2025-01-01');
+    expect(addDaysToKey('2024-03-01', -1)).toBe('2024-02-29');
+  });
+});
+
+describe('scheduleDayStart', () => {
+  test('counts days from the school day the review falls in', () => {
+    // 02:00 EST still belongs to the 15th, so one day later is the start of the 16th
+    expect(scheduleDayStart(at('2024-01-16T07:00:00Z'), 1, newYork(4))).toEqual(at('2024-01-16T09:00:00Z'));
+    expect(scheduleDayStart(at('2024-03-09T20:00:00Z'), 1, newYork(4))).toEqual(at('2024-03-10T08:00:00Z'));
+  });
+});
+
+describe('isValidTimeZone', () => {
+  test('accepts IANA names and rejects anything else', () => {
+    expect(isValidTimeZone('Europe/London')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
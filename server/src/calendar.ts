@@ -0,0 +1,93 @@
+/**
+ * School days. A class's day starts at its rollover hour in its own timezone
+ * (see migrations/016_day_boundaries.sql), so a review at 2am still counts
+ * toward the previous evening and cards come due together at the start of the
+ * day instead of at whatever time they were last studied. Days are identified
+ * by their local date as 'YYYY-MM-DD'.
+ */
+
+export interface DayBoundary {
+  timeZone: string;
+  rolloverHour: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(value: string): boolean {
+  try {
+    formatterFor(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// How far the zone's wall clock is ahead of UTC at the given instant
+function timeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = formatterFor(timeZone).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value ?? 0);
+  const wallClock = Date.UTC(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    part('hour'),
+    part('minute'),
+    part('second')
+  );
+  return wallClock - (date.getTime() - date.getUTCMilliseconds());
+}
+
+// The rollover is taken off the local wall clock, as dayKeySql does, so a DST
+// change overnight does not move the boundary by an hour
+export function dayKey(date: Date, boundary: DayBoundary): string {
+  const wallClock = date.getTime() + timeZoneOffsetMs(date, boundary.timeZone);
+  return new Date(wallClock - boundary.rolloverHour * HOUR_MS).toISOString().slice(0, 10);
+}
+
+export function addDaysToKey(key: string, days: number): string {
+  const date = new Date(`${key}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+// The instant the given school day begins
+export function dayStart(key: string, boundary: DayBoundary): Date {
+  const wallClock = new Date(`${key}T00:00:00.000Z`).getTime() + boundary.rolloverHour * HOUR_MS;
+  // The zone's offsets a day either side; they differ across a DST change
+  const offsets = [wallClock - DAY_MS, wallClock + DAY_MS].map(time =>
+    timeZoneOffsetMs(new Date(time), boundary.timeZone)
+  );
+  const starts = offsets
+    .map(offset => wallClock - offset)
+    .filter(time => time + timeZoneOffsetMs(new Date(time), boundary.timeZone) === wallClock);
+  // A rollover hour repeated by a fall-back change starts the day the first
+  // time round; one skipped by a spring-forward change starts it once the clock
+  // has jumped past
+  return new Date(starts.length > 0 ? Math.min(...starts) : wallClock - offsets[0]);
+}
+
+// Start of the school day `days` after the one containing `now`
+export function scheduleDayStart(now: Date, days: number, boundary: DayBoundary): Date {
+  return dayStart(addDaysToKey(dayKey(now, boundary), days), boundary);
+}
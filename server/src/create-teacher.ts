@@ -0,0 +1,132 @@
+import { Pool } from 'pg';
+import dotenv from 'dotenv';
+import readline from 'readline';
+import { hashSecret, MIN_TEACHER_PASSWORD_LENGTH, MAX_TEACHER_PASSWORD_LENGTH } from './passwords';
+
+dotenv.config();
+
+/**
+ * Creates a teacher account, or resets the password of an existing one.
+ *
+ *   npm run create-teacher -- --username ms.example --display-name "Ms. Example"
+ *
+ * The password is read from TEACHER_PASSWORD when set, otherwise prompted for.
+ */
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  if (index === -1) return undefined;
+  const value = args[index + 1];
+  return value && !value.startsWith('--') ? value : undefined;
+}
+
+function prompt(question: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  return new Promise(resolve => {
+    rl.question(question, answer => {
+      rl.close();
+      resolve(answer);
+    });
+  });
+}
+
+// Like prompt, but nothing typed is shown. Piped input has no terminal to echo
+// to, so it is read as usual.
+function promptHidden(question: string): Promise<string> {
+  const { stdin, stdout } = process;
+  if (!stdin.isTTY) return prompt(question);
+
+  stdout.write(question);
+  stdin.setRawMode(true);
+  stdin.setEncoding('utf8');
+  stdin.resume();
+  return new Promise((resolve, reject) => {
+    let value = '';
+    const finish = () => {
+      stdin.removeListener('data', onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      stdout.write('\n');
+    };
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === '\r' || char === '\n') {
+          finish();
+          resolve(value);
+          return;
+        }
+        if (char === '\u0003') {
+          finish();
+          reject(new Error('Cancelled'));
+          return;
+        }
+        value = char === '\u007f' || char === '\b' ? value.slice(0, -1) : value + char;
+      }
+    };
+    stdin.on('data', onData);
+  });
+}
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const username = readOption(args, 'username')?.trim();
+  if (!username) {
+    console.error('Usage: npm run create-teacher -- --username <name> [--display-name "<name>"]');
+    return 1;
+  }
+  const displayName = readOption(args, 'display-name')?.trim() || username;
+
+  const password = process.env.TEACHER_PASSWORD ?? (await promptHidden('Password: '));
+  if (password.length < MIN_TEACHER_PASSWORD_LENGTH || password.length > MAX_TEACHER_PASSWORD_LENGTH) {
+    console.error(
+      `Password must be between ${MIN_TEACHER_PASSWORD_LENGTH} and ${MAX_TEACHER_PASSWORD_LENGTH} characters.`
+    );
+    return 1;
+  }
+
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+  try {
+    const passwordHash = await hashSecret(password);
+    // Teacher sign-in ignores case, so 'smith' finds the existing 'Smith'
+    const { rows } = await pool.query<{ id: string; username: string; user_type: string }>(
+      `SELECT id, username, user_type
+         FROM srs.users
+        WHERE username = $1 OR (user_type = 'teacher' AND LOWER(username) = LOWER($1))
+        ORDER BY username = $1 DESC`,
+      [username]
+    );
+
+    if (rows.length > 0) {
+      if (rows[0].user_type !== 'teacher') {
+        console.error(`User "${username}" exists but is not a teacher; refusing to change it.`);
+        return 1;
+      }
+      await pool.query(
+        `UPDATE srs.users
+            SET password_hash = $1,
+                updated_at = NOW()
+          WHERE id = $2`,
+        [passwordHash, rows[0].id]
+      );
+      console.log(`Password updated for teacher "${rows[0].username}".`);
+      return 0;
+    }
+
+    await pool.query(
+      `INSERT INTO srs.users (username, display_name, user_type, password_hash)
+       VALUES ($1, $2, 'teacher', $3)`,
+      [username, displayName, passwordHash]
+    );
+    console.log(`Teacher "${username}" created.`);
+    return 0;
+  } finally {
+    await pool.end();
+  }
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(err => {
+    console.error('Failed to create teacher:', (err as Error).message);
+    process.exit(1);
+  });
@@ -0,0 +1,47 @@
+import { parseCsv } from './csv';
+
+describe('parseCsv', () => {
+  test('splits plain rows and keeps their line numbers', () => {
+    expect(parseCsv('name,class\nAda,4B\nBen,4C')).toEqual([
+      { line: 1, fields: ['name', 'class'] },
+      { line: 2, fields: ['Ada', '4B'] },
+      { line: 3, fields: ['Ben', '4C'] }
+    ]);
+  });
+
+  test('handles CRLF line endings and a trailing newline', () => {
+    expect(parseCsv('a,b\r\nc,d\r\n')).toEqual([
+      { line: 1, fields: ['a', 'b'] },
+      { line: 2, fields: ['c', 'd'] }
+    ]);
+  });
+
+  test('strips a leading byte order mark', () => {
+    expect(parseCsv('\uFEFFname,class\nAda,4B')[0].fields).toEqual(['name', 'class']);
+  });
+
+  test('reads quoted fields with commas, doubled quotes and newlines', () => {
+    expect(parseCsv('"Smith, Jo","Say ""hi""","two\nlines"\nnext,row,here')).toEqual([
+      { line: 1, fields: ['Smith, Jo', 'Say "hi"', 'two\nlines'] },
+      { line: 3, fields: ['next', 'row', 'here'] }
+    ]);
+  });
+
+  test('keeps a quote that does not open the field', () => {
+    expect(parseCsv('5" ruler,x')[0].fields).toEqual(['5" ruler', 'x']);
+  });
+
+  test('drops blank and whitespace-only rows but counts their lines', () => {
+    expect(parseCsv('a,b\n\n , \nc,d')).toEqual([
+      { line: 1, fields: ['a', 'b'] },
+      { line: 4, fields: ['c', 'd'] }
+    ]);
+  });
+
+  test('keeps empty fields', () => {
+    expect(parseCsv('a,,c\n,b,')).toEqual([
+      { line: 1, fields: ['a', '', 'c'] },
+      { line: 2, fields: ['', 'b', ''] }
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Minimal RFC 4180 CSV parser: quoted fields, doubled quotes inside quotes,
+ * embedded commas/newlines, and CRLF or LF line endings. Spreadsheet exports
+ * are the expected input, so anything fancier (other delimiters, comments) is
+ * out of scope. Blank lines are dropped; each row keeps its 1-based line
+ * number so validation errors can point at the right spot in the file.
+ */
+
+export interface CsvRow {
+  line: number;
+  fields: string[];
+}
+
+export function parseCsv(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowStartLine = 1;
+
+  const endRow = () => {
+    fields.push(field);
+    if (fields.some(value => value.trim() !== '')) {
+      rows.push({ line: rowStartLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  // Excel likes to prefix UTF-8 exports with a byte order mark
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i += 1;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') line += 1;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i += 1;
+      endRow();
+      line += 1;
+      rowStartLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || fields.length > 0) endRow();
+  return rows;
+}
@@ -0,0 +1,86 @@
+import { CHOICE_COUNT, MISCONCEPTIONS, buildChoices, classifyAnswer, parseFactors } from './distractors';
+
+// Deterministic pseudo-random numbers so every shuffle can be replayed
+function mulberry32(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+describe('buildChoices', () => {
+  test('always gives four distinct positive options including the product', () => {
+    for (let seed = 1; seed <= 5; seed += 1) {
+      const random = mulberry32(seed);
+      for (let a = 1; a <= 12; a += 1) {
+        for (let b = 1; b <= 12; b += 1) {
+          const choices = buildChoices(a, b, random);
+          const values = choices.map(choice => choice.value);
+          expect(choices).toHaveLength(CHOICE_COUNT);
+          expect(new Set(values).size).toBe(CHOICE_COUNT);
+          expect(values).toContain(String(a * b));
+          expect(values.every(value => Number(value) > 0)).toBe(true);
+        }
+      }
+    }
+  });
+
+  test('labels each distractor the way the same answer would be classified', () => {
+    const random = mulberry32(7);
+    for (let a = 1; a <= 12; a += 1) {
+      for (let b = 1; b <= 12; b += 1) {
+        for (const choice of buildChoices(a, b, random)) {
+          expect(choice.misconception).toBe(classifyAnswer(a, b, choice.value));
+        }
+      }
+    }
+  });
+
+  test('draws one distractor from each pattern when they give distinct values', () => {
+    const kinds = buildChoices(7, 8, mulberry32(3)).map(choice => choice.misconception);
+    expect(kinds.sort()).toEqual([null, 'addition', 'adjacent_fact', 'off_by_one_factor'].sort());
+  });
+
+  test('puts the product in every position over enough shuffles', () => {
+    const random = mulberry32(11);
+    const positions = new Set<number>();
+    for (let i = 0; i < 50; i += 1) {
+      positions.add(buildChoices(6, 7, random).findIndex(choice => choice.value === '42'));
+    }
+    expect([...positions].sort()).toEqual([0, 1, 2, 3]);
+  });
+});
+
+describe('classifyAnswer', () => {
+  test('names the mistake behind a wrong answer', () => {
+    expect(classifyAnswer(7, 8, '49')).toBe('off_by_one_factor');
+    expect(classifyAnswer(7, 8, ' 63 ')).toBe('off_by_one_factor');
+    expect(classifyAnswer(7, 8, '54')).toBe('adjacent_fact');
+    expect(classifyAnswer(7, 8, '15')).toBe('addition');
+    expect(classifyAnswer(7, 8, '57')).toBe('near_miss');
+    expect(classifyAnswer(7, 8, '66')).toBe('near_miss');
+  });
+
+  test('prefers the earlier pattern when an answer fits more than one', () => {
+    // 3 × 3 = 6 is both 3 × 2 and 3 + 3
+    expect(classifyAnswer(3, 3, '6')).toBe(MISCONCEPTIONS[0]);
+  });
+
+  test('leaves right, unrecognised and non-numeric answers unlabelled', () => {
+    expect(classifyAnswer(7, 8, '56')).toBeNull();
+    expect(classifyAnswer(7, 8, '100')).toBeNull();
+    expect(classifyAnswer(7, 8, 'fifty')).toBeNull();
+    expect(classifyAnswer(7, 8, '49.5')).toBeNull();
+  });
+});
+
+describe('parseFactors', () => {
+  test('reads seeded card fronts', () => {
+    expect(parseFactors('7 × 8')).toEqual([7, 8]);
+    expect(parseFactors(' 12×11 ')).toEqual([12, 11]);
+    expect(parseFactors('7 x 8')).toBeNull();
+  });
+});
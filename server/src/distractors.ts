@@ -0,0 +1,91 @@
+/**
+ * Wrong options for multiple-choice cards, each modelled on a mistake children
+ * really make with times tables, so the option a child picks says something
+ * about how they went wrong. The same rules classify any wrong answer after
+ * the fact, which is how reviews and the misconception report are labelled
+ * without remembering which options were shown.
+ */
+
+export const MISCONCEPTIONS = ['off_by_one_factor', 'adjacent_fact', 'addition', 'near_miss'] as const;
+export type Misconception = (typeof MISCONCEPTIONS)[number];
+
+export const MISCONCEPTION_LABELS: Record<Misconception, string> = {
+  // 7 × 8 answered as 7 × 7 or 7 × 9: one group too few or too many
+  off_by_one_factor: 'one factor off by one',
+  // 7 × 8 answered as 6 × 9 = 54: a nearby fact in the table
+  adjacent_fact: 'answer to a nearby fact',
+  // 7 × 8 answered as 15
+  addition: 'added instead of multiplied',
+  near_miss: 'close but not a pattern'
+};
+
+export interface ChoiceOption {
+  value: string;
+  misconception: Misconception | null;
+}
+
+export const CHOICE_COUNT = 4;
+
+const FACTS_PATTERN = /^\s*(\d+)\s*×\s*(\d+)\s*$/;
+
+// Card fronts are seeded as '<a> × <b>'
+export function parseFactors(front: string): [number, number] | null {
+  const match = FACTS_PATTERN.exec(front);
+  return match ? [Number(match[1]), Number(match[2])] : null;
+}
+
+function candidatesFor(a: number, b: number): Record<Misconception, number[]> {
+  return {
+    off_by_one_factor: [(a - 1) * b, (a + 1) * b, a * (b - 1), a * (b + 1)],
+    adjacent_fact: [(a - 1) * (b + 1), (a + 1) * (b - 1), (a - 1) * (b - 1), (a + 1) * (b + 1)],
+    addition: [a + b],
+    near_miss: [a * b - 1, a * b + 1, a * b - 2, a * b + 2, a * b + 10]
+  };
+}
+
+export function classifyAnswer(a: number, b: number, answer: string): Misconception | null {
+  const value = Number(answer.trim());
+  if (!Number.isInteger(value) || value === a * b) return null;
+  const candidates = candidatesFor(a, b);
+  return MISCONCEPTIONS.find(kind => candidates[kind].includes(value)) ?? null;
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * The correct product plus three distractors in random order, taking one from
+ * each misconception where it gives a distinct positive number and topping up
+ * with near misses otherwise (e.g. 1 × 1, where most patterns collapse).
+ */
+export function buildChoices(a: number, b: number, random: () => number = Math.random): ChoiceOption[] {
+  const product = a * b;
+  const used = new Set([product]);
+  const distractors: ChoiceOption[] = [];
+  const candidates = candidatesFor(a, b);
+
+  const take = (kind: Misconception) => {
+    const options = shuffle(candidates[kind], random).filter(value => value > 0 && !used.has(value));
+    if (options.length === 0) return;
+    used.add(options[0]);
+    // A value can fit more than one pattern; label it the way a submitted answer would be
+    distractors.push({ value: String(options[0]), misconception: classifyAnswer(a, b, String(options[0])) });
+  };
+
+  for (const kind of MISCONCEPTIONS) {
+    if (kind !== 'near_miss' && distractors.length < CHOICE_COUNT - 1) take(kind);
+  }
+  while (distractors.length < CHOICE_COUNT - 1) {
+    const before = distractors.length;
+    take('near_miss');
+    if (distractors.length === before) break;
+  }
+
+  return shuffle([{ value: String(product), misconception: null }, ...distractors], random);
+}
@@ -0,0 +1,100 @@
+import {
+  LOGIN_THROTTLE,
+  LoginThrottleEntry,
+  isLoginLockout,
+  joinCodeThrottleRules,
+  loginDelaySeconds,
+  loginThrottleBlock,
+  loginThrottleRules,
+  studentThrottleKey,
+  teacherThrottleKey
+} from './login-throttle';
+
+const now = Date.UTC(2024, 2, 1, 9);
+const secondsAgo = (seconds: number) => new Date(now - seconds * 1000);
+const inSeconds = (seconds: number) => new Date(now + seconds * 1000);
+
+const rules = loginThrottleRules('10.0.0.1', studentThrottleKey('student-1'));
+
+function entry(
+  key: string,
+  failures: number,
+  lastFailureAt: Date,
+  lockedUntil: Date | null = null
+): LoginThrottleEntry {
+  return { key, failures, lastFailureAt, lockedUntil };
+}
+
+describe('loginDelaySeconds', () => {
+  test('lets the first few misses through, then doubles the wait up to a cap', () => {
+    expect([0, 1, 2].map(loginDelaySeconds)).toEqual([0, 0, 0]);
+    expect([3, 4, 5, 7].map(loginDelaySeconds)).toEqual([2, 4, 8, 32]);
+    expect(loginDelaySeconds(8)).toBe(LOGIN_THROTTLE.maxDelaySeconds);
+    expect(loginDelaySeconds(40)).toBe(LOGIN_THROTTLE.maxDelaySeconds);
+  });
+});
+
+describe('throttle keys', () => {
+  test('give the account key delays and the shared IP key only a high limit', () => {
+    expect(rules).toEqual([
+      { key: 'user:student-1', lockoutFailures: LOGIN_THROTTLE.userLockoutFailures, delays: true },
+      { key: 'ip:10.0.0.1', lockoutFailures: LOGIN_THROTTLE.ipLimitFailures, delays: false }
+    ]);
+    expect(loginThrottleRules(undefined, 'user:x')[1].key).toBe('ip:unknown');
+    expect(joinCodeThrottleRules('10.0.0.1')).toEqual([
+      { key: 'join-code-ip:10.0.0.1', lockoutFailures: LOGIN_THROTTLE.joinCodeLockoutFailures, delays: true }
+    ]);
+  });
+
+  test('match teacher usernames regardless of case and spacing', () => {
+    expect(teacherThrottleKey('  Ms.Smith ')).toBe(teacherThrottleKey('ms.smith'));
+  });
+});
+
+describe('loginThrottleBlock', () => {
+  test('lets an attempt through with no recent failures or once the delay has passed', () => {
+    expect(loginThrottleBlock(rules, [], now)).toBeNull();
+    expect(loginThrottleBlock(rules, [entry('user:student-1', 3, secondsAgo(5))], now)).toBeNull();
+  });
+
+  test('makes the account wait out its delay', () => {
+    expect(loginThrottleBlock(rules, [entry('user:student-1', 4, secondsAgo(1))], now)).toEqual({
+      locked: false,
+      retryAfterSeconds: 3
+    });
+  });
+
+  test('reports a locked account until the lock ends', () => {
+    const locked = entry('user:student-1', 8, secondsAgo(1), inSeconds(600));
+    expect(loginThrottleBlock(rules, [locked], now)).toEqual({ locked: true, retryAfterSeconds: 600 });
+    const expired = entry('user:student-1', 8, secondsAgo(901), secondsAgo(1));
+    expect(loginThrottleBlock(rules, [expired], now)).toBeNull();
+  });
+
+  test('never delays the shared IP key and treats its lock as a rate limit', () => {
+    expect(loginThrottleBlock(rules, [entry('ip:10.0.0.1', 200, secondsAgo(0))], now)).toBeNull();
+    expect(
+      loginThrottleBlock(rules, [entry('ip:10.0.0.1', 300, secondsAgo(0), inSeconds(900))], now)
+    ).toEqual({ locked: false, retryAfterSeconds: 900 });
+  });
+
+  test('puts a lockout ahead of a longer delay and otherwise reports the longest wait', () => {
+    const entries = [
+      entry('ip:10.0.0.1', 300, secondsAgo(0), inSeconds(900)),
+      entry('user:student-1', 8, secondsAgo(0), inSeconds(60))
+    ];
+    expect(loginThrottleBlock(rules, entries, now)).toEqual({ locked: true, retryAfterSeconds: 60 });
+    const delayed = [entries[0], entry('user:student-1', 5, secondsAgo(0))];
+    expect(loginThrottleBlock(rules, delayed, now)).toEqual({ locked: false, retryAfterSeconds: 900 });
+  });
+});
+
+describe('isLoginLockout', () => {
+  test('only counts a current lock on a key with delays', () => {
+    const [account, ip] = rules;
+    expect(isLoginLockout(account, inSeconds(60), now)).toBe(true);
+    expect(isLoginLockout(account, secondsAgo(1), now)).toBe(false);
+    expect(isLoginLockout(account, null, now)).toBe(false);
+    expect(isLoginLockout(ip, inSeconds(60), now)).toBe(false);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Login throttling. Failed logins are counted per key in srs.login_throttle:
+ * one key for the account being tried and one for the client IP (join-code
+ * guesses have a key of their own). After a few misses on a key with delays
+ * every further attempt waits twice as long as the last, and enough misses
+ * lock the key for a while. The IP key only has the lockout, as a hard rate
+ * limit, because a whole classroom can share one address.
+ */
+
+export interface LoginThrottleRule {
+  key: string;
+  lockoutFailures: number;
+  // Progressive delays after a few misses and an account-style lockout. Off for
+  // the login IP key, which a whole classroom behind one school NAT shares.
+  delays: boolean;
+}
+
+export interface LoginThrottleBlock {
+  locked: boolean;
+  retryAfterSeconds: number;
+}
+
+// A key's recent failures as stored in srs.login_throttle
+export interface LoginThrottleEntry {
+  key: string;
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil: Date | null;
+}
+
+export const LOGIN_THROTTLE = {
+  // Failures allowed before each further attempt has to wait
+  freeAttempts: 3,
+  baseDelaySeconds: 2,
+  maxDelaySeconds: 60,
+  userLockoutFailures: 8,
+  // Only stops scripted guessing across many accounts; a class of children
+  // mistyping their pictures stays far below it
+  ipLimitFailures: 300,
+  joinCodeLockoutFailures: 30,
+  lockoutMinutes: 15,
+  // Failures older than this no longer count toward delays or lockout
+  resetAfterMinutes: 30
+};
+
+export function studentThrottleKey(studentId: string): string {
+  return `user:${studentId}`;
+}
+
+export function teacherThrottleKey(username: string): string {
+  return `teacher:${username.trim().toLowerCase()}`;
+}
+
+export function loginThrottleRules(ip: string | undefined, accountKey: string): LoginThrottleRule[] {
+  return [
+    { key: accountKey, lockoutFailures: LOGIN_THROTTLE.userLockoutFailures, delays: true },
+    { key: `ip:${ip ?? 'unknown'}`, lockoutFailures: LOGIN_THROTTLE.ipLimitFailures, delays: false }
+  ];
+}
+
+// Guessing join codes would reveal class rosters, so misses are throttled per IP
+// with the same bookkeeping as failed logins (under a separate key).
+export function joinCodeThrottleRules(ip: string | undefined): LoginThrottleRule[] {
+  return [
+    { key: `join-code-ip:${ip ?? 'unknown'}`, lockoutFailures: LOGIN_THROTTLE.joinCodeLockoutFailures, delays: true }
+  ];
+}
+
+export function loginDelaySeconds(failures: number): number {
+  if (failures < LOGIN_THROTTLE.freeAttempts) return 0;
+  const exponent = failures - LOGIN_THROTTLE.freeAttempts;
+  return Math.min(LOGIN_THROTTLE.maxDelaySeconds, LOGIN_THROTTLE.baseDelaySeconds * 2 ** exponent);
+}
+
+/**
+ * Whether an attempt at `now` has to wait, given the recent failures of the
+ * rules' keys. A lockout wins over a delay, and the longest wait of each kind
+ * is reported.
+ */
+export function loginThrottleBlock(
+  rules: LoginThrottleRule[],
+  entries: LoginThrottleEntry[],
+  now: number
+): LoginThrottleBlock | null {
+  let block: LoginThrottleBlock | null = null;
+  for (const entry of entries) {
+    const delays = rules.find(rule => rule.key === entry.key)?.delays ?? true;
+    let candidate: LoginThrottleBlock | null = null;
+    if (entry.lockedUntil && entry.lockedUntil.getTime() > now) {
+      // A shared key over its limit is a rate limit, not a locked account
+      candidate = {
+        locked: delays,
+        retryAfterSeconds: Math.ceil((entry.lockedUntil.getTime() - now) / 1000)
+      };
+    } else if (delays) {
+      const nextAllowed = entry.lastFailureAt.getTime() + loginDelaySeconds(entry.failures) * 1000;
+      if (nextAllowed > now) {
+        candidate = { locked: false, retryAfterSeconds: Math.ceil((nextAllowed - now) / 1000) };
+      }
+    }
+    if (
+      candidate &&
+      (!block ||
+        (candidate.locked && !block.locked) ||
+        (candidate.locked === block.locked && candidate.retryAfterSeconds > block.retryAfterSeconds))
+    ) {
+      block = candidate;
+    }
+  }
+  return block;
+}
+
+// A failure only counts as locking the account out on a key with delays
+export function isLoginLockout(rule: LoginThrottleRule, lockedUntil: Date | null, now: number): boolean {
+  return rule.delays && lockedUntil !== null && lockedUntil.getTime() > now;
+}
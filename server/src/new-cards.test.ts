@@ -0,0 +1,95 @@
+import {
+  INTRODUCTION_ORDER,
+  NEW_CARD_ORDER_SQL,
+  interleaveNewCards,
+  newCardAllowance,
+  newCardSlots,
+  resolveNewCardsPerDay
+} from './new-cards';
+
+describe('introduction order', () => {
+  test('covers every times table once, with the 7s last', () => {
+    expect([...INTRODUCTION_ORDER].sort((a, b) => a - b)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+    expect(INTRODUCTION_ORDER.slice(0, 4)).toEqual([1, 2, 10, 5]);
+    expect(INTRODUCTION_ORDER[INTRODUCTION_ORDER.length - 1]).toBe(7);
+  });
+
+  test('ranks cards by their earlier family, then the later one, then id', () => {
+    expect(NEW_CARD_ORDER_SQL).toMatch(/^LEAST\(.*\),\s+GREATEST\(.*\),\s+c\.id$/s);
+    expect(NEW_CARD_ORDER_SQL).toContain(`ARRAY[${INTRODUCTION_ORDER.join(', ')}]`);
+  });
+});
+
+describe('resolveNewCardsPerDay', () => {
+  test('reads a whole number and allows switching new facts off', () => {
+    expect(resolveNewCardsPerDay('25')).toBe(25);
+    expect(resolveNewCardsPerDay('0')).toBe(0);
+  });
+
+  test('falls back to ten a day when unset or invalid', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(resolveNewCardsPerDay(null)).toBe(10);
+    expect(resolveNewCardsPerDay('')).toBe(10);
+    expect(resolveNewCardsPerDay('-3')).toBe(10);
+    expect(resolveNewCardsPerDay('2.5')).toBe(10);
+    expect(resolveNewCardsPerDay('lots')).toBe(10);
+    expect(warn).toHaveBeenCalledTimes(3);
+    warn.mockRestore();
+  });
+});
+
+describe('newCardAllowance', () => {
+  test('is what is left of the daily limit and never negative', () => {
+    expect(newCardAllowance(10, 0)).toBe(10);
+    expect(newCardAllowance(10, 7)).toBe(3);
+    // A teacher lowered the limit after the student had already met more
+    expect(newCardAllowance(5, 8)).toBe(0);
+  });
+});
+
+describe('newCardSlots', () => {
+  test('gives new cards only the room the reviews leave in a limited session', () => {
+    expect(newCardSlots(10, 20, 15)).toBe(5);
+    expect(newCardSlots(3, 20, 15)).toBe(3);
+    expect(newCardSlots(10, 20, 20)).toBe(0);
+  });
+
+  test('gives the whole allowance to an unlimited session', () => {
+    expect(newCardSlots(10, undefined, 300)).toBe(10);
+  });
+});
+
+describe('interleaveNewCards', () => {
+  test('spreads new cards through the reviews instead of starting with them', () => {
+    expect(interleaveNewCards(['r1', 'r2', 'r3', 'r4', 'r5', 'r6'], ['n1', 'n2'])).toEqual([
+      'r1',
+      'r2',
+      'n1',
+      'r3',
+      'r4',
+      'r5',
+      'n2',
+      'r6'
+    ]);
+  });
+
+  test('keeps both lists in order and loses nothing', () => {
+    for (let reviews = 0; reviews <= 12; reviews += 1) {
+      for (let fresh = 0; fresh <= 12; fresh += 1) {
+        const reviewCards = Array.from({ length: reviews }, (_, i) => `r${i}`);
+        const newCards = Array.from({ length: fresh }, (_, i) => `n${i}`);
+        const mixed = interleaveNewCards(reviewCards, newCards);
+        expect(mixed).toHaveLength(reviews + fresh);
+        expect(mixed.filter(card => card.startsWith('r'))).toEqual(reviewCards);
+        expect(mixed.filter(card => card.startsWith('n'))).toEqual(newCards);
+        // A session opens on a new card only when there are more new cards than reviews
+        if (fresh > 0 && reviews >= fresh) expect(mixed[0]).toBe('r0');
+      }
+    }
+  });
+
+  test('returns a list unchanged when the other is empty', () => {
+    expect(interleaveNewCards([], ['n1', 'n2'])).toEqual(['n1', 'n2']);
+    expect(interleaveNewCards(['r1', 'r2'], [])).toEqual(['r1', 'r2']);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * New facts. A student meets unseen cards a few at a time: each class sets a
+ * daily limit on new facts, the facts come in a teaching order (the easy
+ * families first, the 7s last), and the new cards of a session are spread
+ * through its due reviews.
+ */
+
+import { CARD_FACTOR_A_SQL, CARD_FACTOR_B_SQL } from './student-reset';
+
+// New facts are introduced family by family in the order children usually
+// learn them; a card belongs to whichever of its two factors' families comes first.
+export const INTRODUCTION_ORDER = [1, 2, 10, 5, 11, 3, 4, 9, 6, 8, 12, 7];
+
+function introductionRankSql(factorSql: string): string {
+  return `COALESCE(array_position(ARRAY[${INTRODUCTION_ORDER.join(', ')}], ${factorSql}), ${INTRODUCTION_ORDER.length + 1})`;
+}
+
+export const NEW_CARD_ORDER_SQL = `LEAST(${introductionRankSql(CARD_FACTOR_A_SQL)}, ${introductionRankSql(CARD_FACTOR_B_SQL)}),
+             GREATEST(${introductionRankSql(CARD_FACTOR_A_SQL)}, ${introductionRankSql(CARD_FACTOR_B_SQL)}),
+             c.id`;
+
+export function resolveNewCardsPerDay(rawValue?: string | null): number {
+  const fallback = 10;
+  if (!rawValue) return fallback;
+  const count = Number(rawValue);
+  if (!Number.isInteger(count) || count < 0) {
+    console.warn(`Ignoring invalid NEW_CARDS_PER_DAY value "${rawValue}"; using ${fallback}.`);
+    return fallback;
+  }
+  return count;
+}
+
+// Today's limit less the facts already introduced today
+export function newCardAllowance(perDay: number, introducedToday: number): number {
+  return Math.max(0, perDay - introducedToday);
+}
+
+// New cards to add to a session: the day's allowance, within whatever room the
+// due reviews leave under the session limit
+export function newCardSlots(allowance: number, sessionLimit: number | undefined, reviewCount: number): number {
+  return Math.min(allowance, sessionLimit === undefined ? Number.POSITIVE_INFINITY : sessionLimit - reviewCount);
+}
+
+// Spreads new cards evenly through the reviews so a session never opens with a
+// block of unfamiliar facts
+export function interleaveNewCards<T>(reviews: T[], newCards: T[]): T[] {
+  const total = reviews.length + newCards.length;
+  const result: T[] = [];
+  let reviewIndex = 0;
+  let newIndex = 0;
+  for (let position = 0; position < total; position += 1) {
+    const newSlot = Math.floor(((newIndex + 0.5) * total) / Math.max(1, newCards.length));
+    const takeNew =
+      newIndex < newCards.length && (reviewIndex >= reviews.length || position >= newSlot);
+    result.push(takeNew ? newCards[newIndex++] : reviews[reviewIndex++]);
+  }
+  return result;
+}
@@ -0,0 +1,50 @@
+import { Worker, isMainThread, parentPort, workerData } from 'worker_threads';
+import { OptimizationResult, ReviewLogEntry, ScheduledCard, optimizeFsrs } from './optimizer';
+
+// Runs optimizeFsrs on a worker thread. A class log of 10,000 reviews takes
+// long enough to fit that doing it on the main thread would stall every other
+// request.
+
+export interface OptimizerInput {
+  reviews: ReviewLogEntry[];
+  scheduledCards: ScheduledCard[];
+  targetRetention: number;
+}
+
+interface OptimizerWorkerData extends OptimizerInput {
+  optimizerWorker: true;
+}
+
+/**
+ * Resolves with what optimizeFsrs returns for `input`, or rejects if the
+ * worker fails.
+ */
+export function optimizeFsrsInWorker(input: OptimizerInput): Promise<OptimizationResult | null> {
+  const data: OptimizerWorkerData = { ...input, optimizerWorker: true };
+  return new Promise((resolve, reject) => {
+    // Under ts-node (npm run dev) the worker has to compile this file as well
+    const worker = __filename.endsWith('.ts')
+      ? new Worker(
+          `require('ts-node').register({ transpileOnly: true }); require(${JSON.stringify(__filename)});`,
+          { eval: true, workerData: data }
+        )
+      : new Worker(__filename, { workerData: data });
+    let settled = false;
+    worker.once('message', (result: OptimizationResult | null) => {
+      settled = true;
+      resolve(result);
+    });
+    worker.once('error', err => {
+      settled = true;
+      reject(err);
+    });
+    worker.once('exit', code => {
+      if (!settled) reject(new Error(`Optimizer worker exited with code ${code} before replying`));
+    });
+  });
+}
+
+if (!isMainThread && parentPort && (workerData as OptimizerWorkerData | null)?.optimizerWorker) {
+  const { reviews, scheduledCards, targetRetention } = workerData as OptimizerWorkerData;
+  parentPort.postMessage(optimizeFsrs(reviews, scheduledCards, targetRetention));
+}
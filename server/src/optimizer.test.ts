@@ -0,0 +1,84 @@
+import { MIN_OPTIMIZER_REVIEWS, ReviewLogEntry, ScheduledCard, optimizeFsrs } from './optimizer';
+import { FSRS_DEFAULT_WEIGHTS, FsrsMemory, fsrsNextMemory, fsrsRetrievability } from './scheduler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const start = Date.UTC(2024, 0, 8, 9);
+
+// Deterministic pseudo-random numbers so the synthetic log is the same every run
+function mulberry32(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Students who forget a new fact much faster than the default weights assume,
+// reviewed on a fixed ladder so recall depends only on their memory
+function syntheticLog(): { reviews: ReviewLogEntry[]; scheduledCards: ScheduledCard[] } {
+  const trueWeights = [...FSRS_DEFAULT_WEIGHTS];
+  trueWeights[2] = 1;
+  const random = mulberry32(12);
+  const reviews: ReviewLogEntry[] = [];
+  const scheduledCards: ScheduledCard[] = [];
+
+  for (let student = 0; student < 20; student += 1) {
+    const userId = `student-${student}`;
+    for (let cardId = 1; cardId <= 10; cardId += 1) {
+      let time = start + cardId * 60 * 1000;
+      let memory: FsrsMemory = fsrsNextMemory(trueWeights, null, 'good', 0);
+      reviews.push({ userId, cardId, grade: 'good', reviewedAt: new Date(time) });
+      for (const gapDays of [2, 4, 8]) {
+        time += gapDays * DAY_MS;
+        const grade = random() < fsrsRetrievability(gapDays, memory.stability) ? 'good' : 'again';
+        memory = fsrsNextMemory(trueWeights, memory, grade, gapDays);
+        reviews.push({ userId, cardId, grade, reviewedAt: new Date(time) });
+      }
+      scheduledCards.push({
+        userId,
+        cardId,
+        lastReviewedAt: new Date(time),
+        dueAt: new Date(time + 16 * DAY_MS)
+      });
+    }
+  }
+  return { reviews, scheduledCards };
+}
+
+describe('optimizeFsrs', () => {
+  const { reviews, scheduledCards } = syntheticLog();
+
+  test('lowers the log loss and moves toward the weights that produced the log', () => {
+    const result = optimizeFsrs(reviews, scheduledCards, 0.9);
+    expect(result).not.toBeNull();
+    const { params, metrics } = result!;
+
+    expect(metrics.reviewCount).toBe(reviews.length);
+    expect(metrics.evaluatedReviewCount).toBe(600);
+    expect(metrics.cardCount).toBe(200);
+    expect(metrics.logLossAfter).toBeLessThan(metrics.logLossBefore);
+    // First-review stability starts at the default 3.7 days; the log says ~1
+    expect(params.weights[2]).toBeLessThan(FSRS_DEFAULT_WEIGHTS[2]);
+    expect(params.requestRetention).toBe(0.9);
+  });
+
+  test('schedules the fitted intervals near the target retention', () => {
+    const { metrics } = optimizeFsrs(reviews, scheduledCards, 0.85)!;
+    expect(metrics.scheduledCardCount).toBe(scheduledCards.length);
+    expect(metrics.predictedRetentionAfter).toBeGreaterThan(0.8);
+    expect(metrics.predictedRetentionAfter).toBeLessThan(0.9);
+  });
+
+  test('gives the same fit for the same log', () => {
+    expect(optimizeFsrs(reviews, scheduledCards, 0.9)).toEqual(optimizeFsrs(reviews, scheduledCards, 0.9));
+  });
+
+  test('refuses to fit without enough repeat reviews a day or more apart', () => {
+    expect(optimizeFsrs(reviews.slice(0, MIN_OPTIMIZER_REVIEWS), [], 0.9)).toBeNull();
+    // Same-session repeats are not evaluated at all
+    const sameDay = reviews.map(review => ({ ...review, reviewedAt: new Date(start + review.cardId) }));
+    expect(optimizeFsrs(sameDay, [], 0.9)).toBeNull();
+  });
+});
@@ -0,0 +1,215 @@
+import {
+  FSRS_DEFAULT_WEIGHTS,
+  FsrsMemory,
+  FsrsParameters,
+  Grade,
+  fsrsInterval,
+  fsrsNextMemory,
+  fsrsRetrievability
+} from './scheduler';
+
+// Fits FSRS weights to a review log by minimising the log loss of predicted
+// recall against what actually happened (anything but Again counts as
+// recalled). A prior pulls the weights toward the published defaults so a
+// few dozen reviews cannot produce a wild schedule.
+
+// Histories are per student and card, so a class log is fitted as one population
+export interface ReviewLogEntry {
+  userId: string;
+  cardId: number;
+  grade: Grade;
+  reviewedAt: Date;
+}
+
+// A card's current schedule, used to report the retention it is headed for
+export interface ScheduledCard {
+  userId: string;
+  cardId: number;
+  lastReviewedAt: Date;
+  dueAt: Date;
+}
+
+export interface OptimizationMetrics {
+  reviewCount: number;
+  // Reviews with an earlier review of the same card, i.e. the ones the model can predict
+  evaluatedReviewCount: number;
+  cardCount: number;
+  observedRetention: number;
+  logLossBefore: number;
+  logLossAfter: number;
+  targetRetention: number;
+  scheduledCardCount: number;
+  // Mean recall probability at each card's current due date vs. at the fitted interval
+  predictedRetentionBefore: number | null;
+  predictedRetentionAfter: number | null;
+}
+
+export interface OptimizationResult {
+  params: FsrsParameters;
+  metrics: OptimizationMetrics;
+}
+
+export const MIN_OPTIMIZER_REVIEWS = 50;
+export const MAX_OPTIMIZER_REVIEWS = 10000;
+
+// Same-session repeats say nothing about long-term memory
+const MIN_EVALUATED_ELAPSED_DAYS = 0.5;
+const PRIOR_STRENGTH = 50;
+const MAX_PASSES = 60;
+const INITIAL_STEP = 0.1;
+const MIN_STEP = 0.005;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FSRS_WEIGHT_BOUNDS: [number, number][] = [
+  [0.1, 100],
+  [0.1, 100],
+  [0.1, 100],
+  [0.1, 100],
+  [1, 10],
+  [0.1, 5],
+  [0.1, 5],
+  [0, 0.8],
+  [0, 6],
+  [0, 0.8],
+  [0.01, 5],
+  [0.2, 6],
+  [0.01, 0.4],
+  [0.01, 0.9],
+  [0.01, 4],
+  [0, 1],
+  [1, 6]
+];
+
+interface HistoryStep {
+  grade: Grade;
+  elapsedDays: number;
+}
+
+function historyKey(item: { userId: string; cardId: number }): string {
+  return `${item.userId}:${item.cardId}`;
+}
+
+function buildHistories(reviews: ReviewLogEntry[]): Map<string, HistoryStep[]> {
+  const sorted = [...reviews].sort((a, b) => a.reviewedAt.getTime() - b.reviewedAt.getTime());
+  const histories = new Map<string, HistoryStep[]>();
+  const lastSeen = new Map<string, number>();
+  for (const review of sorted) {
+    const key = historyKey(review);
+    const time = review.reviewedAt.getTime();
+    const previous = lastSeen.get(key);
+    const steps = histories.get(key) ?? [];
+    steps.push({ grade: review.grade, elapsedDays: previous === undefined ? 0 : (time - previous) / DAY_MS });
+    histories.set(key, steps);
+    lastSeen.set(key, time);
+  }
+  return histories;
+}
+
+function replay(weights: number[], steps: HistoryStep[]): FsrsMemory | null {
+  let memory: FsrsMemory | null = null;
+  for (const step of steps) {
+    memory = fsrsNextMemory(weights, memory, step.grade, step.elapsedDays);
+  }
+  return memory;
+}
+
+function logLoss(weights: number[], histories: Iterable<HistoryStep[]>) {
+  let loss = 0;
+  let count = 0;
+  let recalled = 0;
+  for (const steps of histories) {
+    let memory: FsrsMemory | null = null;
+    for (const step of steps) {
+      if (memory && step.elapsedDays >= MIN_EVALUATED_ELAPSED_DAYS) {
+        const p = Math.min(0.999, Math.max(0.001, fsrsRetrievability(step.elapsedDays, memory.stability)));
+        const success = step.grade !== 'again';
+        loss -= success ? Math.log(p) : Math.log(1 - p);
+        count += 1;
+        if (success) recalled += 1;
+      }
+      memory = fsrsNextMemory(weights, memory, step.grade, step.elapsedDays);
+    }
+  }
+  return { loss, count, recalled };
+}
+
+function priorPenalty(weights: number[]): number {
+  return weights.reduce((sum, weight, index) => {
+    const [lo, hi] = FSRS_WEIGHT_BOUNDS[index];
+    const distance = (weight - FSRS_DEFAULT_WEIGHTS[index]) / (hi - lo);
+    return sum + distance * distance;
+  }, 0);
+}
+
+function mean(values: number[]): number | null {
+  return values.length === 0 ? null : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Returns fitted parameters and a before/after summary, or null when fewer
+ * than MIN_OPTIMIZER_REVIEWS reviews can be evaluated.
+ */
+export function optimizeFsrs(
+  reviews: ReviewLogEntry[],
+  scheduledCards: ScheduledCard[],
+  targetRetention: number
+): OptimizationResult | null {
+  const histories = buildHistories(reviews);
+  const baseline = logLoss(FSRS_DEFAULT_WEIGHTS, histories.values());
+  if (baseline.count < MIN_OPTIMIZER_REVIEWS) return null;
+
+  const objective = (weights: number[]) =>
+    (logLoss(weights, histories.values()).loss + PRIOR_STRENGTH * priorPenalty(weights)) / baseline.count;
+
+  // Coordinate descent: nudge one weight at a time, halving the step once nothing helps
+  let weights = [...FSRS_DEFAULT_WEIGHTS];
+  let best = objective(weights);
+  let step = INITIAL_STEP;
+  for (let pass = 0; pass < MAX_PASSES && step >= MIN_STEP; pass += 1) {
+    let improved = false;
+    for (let index = 0; index < weights.length; index += 1) {
+      const [lo, hi] = FSRS_WEIGHT_BOUNDS[index];
+      for (const direction of [1, -1]) {
+        const candidate = [...weights];
+        candidate[index] = Math.min(hi, Math.max(lo, weights[index] + direction * step * (hi - lo)));
+        if (candidate[index] === weights[index]) continue;
+        const value = objective(candidate);
+        if (value < best) {
+          best = value;
+          weights = candidate;
+          improved = true;
+          break;
+        }
+      }
+    }
+    if (!improved) step /= 2;
+  }
+
+  const fitted = logLoss(weights, histories.values());
+  const before: number[] = [];
+  const after: number[] = [];
+  for (const card of scheduledCards) {
+    const steps = histories.get(historyKey(card));
+    const memory = steps ? replay(weights, steps) : null;
+    if (!memory) continue;
+    const scheduledDays = Math.max(0, (card.dueAt.getTime() - card.lastReviewedAt.getTime()) / DAY_MS);
+    before.push(fsrsRetrievability(scheduledDays, memory.stability));
+    after.push(fsrsRetrievability(fsrsInterval(memory.stability, targetRetention), memory.stability));
+  }
+
+  return {
+    params: { weights, requestRetention: targetRetention },
+    metrics: {
+      reviewCount: reviews.length,
+      evaluatedReviewCount: baseline.count,
+      cardCount: histories.size,
+      observedRetention: baseline.recalled / baseline.count,
+      logLossBefore: baseline.loss / baseline.count,
+      logLossAfter: fitted.loss / fitted.count,
+      targetRetention,
+      scheduledCardCount: before.length,
+      predictedRetentionBefore: mean(before),
+      predictedRetentionAfter: mean(after)
+    }
+  };
+}
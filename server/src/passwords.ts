@@ -0,0 +1,28 @@
+import crypto from 'crypto';
+
+// Salted scrypt hashes for picture passwords and teacher passwords, stored as
+// "scrypt$<salt>$<key>" with base64 segments.
+const SECRET_HASH_PREFIX = 'scrypt';
+
+export const MIN_TEACHER_PASSWORD_LENGTH = 8;
+export const MAX_TEACHER_PASSWORD_LENGTH = 200;
+
+function deriveSecretKey(secret: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(secret, salt, 32, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+}
+
+export async function hashSecret(secret: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const key = await deriveSecretKey(secret, salt);
+  return `${SECRET_HASH_PREFIX}$${salt.toString('base64')}$${key.toString('base64')}`;
+}
+
+export async function verifySecret(secret: string, storedHash: string): Promise<boolean> {
+  const [prefix, saltValue, keyValue] = storedHash.split('$');
+  if (prefix !== SECRET_HASH_PREFIX || !saltValue || !keyValue) return false;
+  const expected = Buffer.from(keyValue, 'base64');
+  const derived = await deriveSecretKey(secret, Buffer.from(saltValue, 'base64'));
+  return expected.length === derived.length && crypto.timingSafeEqual(expected, derived);
+}
@@ -0,0 +1,46 @@
+/**
+ * Picture passwords. Students sign in by tapping a short sequence of animal
+ * pictures; the difficulty a teacher picks sets how long the sequence is.
+ */
+
+import { z } from 'zod';
+
+export interface PictureOption {
+  id: string;
+  emoji: string;
+  label: string;
+}
+
+// Ids 1-5 match the original single-picture passwords, so legacy accounts keep working.
+export const PICTURE_CATALOG: PictureOption[] = [
+  { id: '1', emoji: '🐶', label: 'Dog' },
+  { id: '2', emoji: '🐱', label: 'Cat' },
+  { id: '3', emoji: '🐰', label: 'Rabbit' },
+  { id: '4', emoji: '🦊', label: 'Fox' },
+  { id: '5', emoji: '🐻', label: 'Bear' },
+  { id: '6', emoji: '🐼', label: 'Panda' },
+  { id: '7', emoji: '🐸', label: 'Frog' },
+  { id: '8', emoji: '🐵', label: 'Monkey' },
+  { id: '9', emoji: '🦁', label: 'Lion' },
+  { id: '10', emoji: '🐯', label: 'Tiger' },
+  { id: '11', emoji: '🐷', label: 'Pig' },
+  { id: '12', emoji: '🐮', label: 'Cow' },
+  { id: '13', emoji: '🐔', label: 'Chicken' },
+  { id: '14', emoji: '🐧', label: 'Penguin' },
+  { id: '15', emoji: '🐢', label: 'Turtle' },
+  { id: '16', emoji: '🐙', label: 'Octopus' }
+];
+
+export const PICTURE_DIFFICULTIES = { easy: 2, medium: 3, hard: 4 } as const;
+export type PictureDifficulty = keyof typeof PICTURE_DIFFICULTIES;
+export const MAX_PICTURE_SEQUENCE_LENGTH = Math.max(...Object.values(PICTURE_DIFFICULTIES));
+
+export const pictureIdSchema = z.enum(PICTURE_CATALOG.map(option => option.id) as [string, ...string[]]);
+export const pictureDifficultySchema = z.enum(
+  Object.keys(PICTURE_DIFFICULTIES) as [PictureDifficulty, ...PictureDifficulty[]]
+);
+
+// A sequence is hashed as one string; order matters and pictures may repeat.
+export function encodePictureSequence(sequence: string[]): string {
+  return sequence.join('-');
+}
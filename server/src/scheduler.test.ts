@@ -0,0 +1,190 @@
+import {
+  CardSchedule,
+  FSRS_DEFAULT_WEIGHTS,
+  fsrsInterval,
+  fsrsMemoryFromCard,
+  fsrsRetrievability,
+  fsrsScheduler,
+  getScheduler,
+  LearningSteps,
+  parseFsrsParameters,
+  reviewWithSteps,
+  sm2Scheduler
+} from './scheduler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const now = new Date('2024-03-01T12:00:00Z');
+
+function card(overrides: Partial<CardSchedule> = {}): CardSchedule {
+  return {
+    intervalDays: 0,
+    easeFactor: 2.5,
+    reps: 0,
+    lastReviewedAt: null,
+    scheduler: 'sm2',
+    state: null,
+    ...overrides
+  };
+}
+
+describe('sm2Scheduler', () => {
+  test('climbs the 1, 6, ease × interval ladder on Good', () => {
+    const first = sm2Scheduler.review(card(), 'good', now);
+    expect(first).toMatchObject({ reps: 1, intervalDays: 1, easeFactor: 2.5, state: null });
+    expect(first.dueAt.getTime() - now.getTime()).toBe(DAY_MS);
+
+    const second = sm2Scheduler.review(card({ reps: 1, intervalDays: 1 }), 'good', now);
+    expect(second).toMatchObject({ reps: 2, intervalDays: 6 });
+
+    const third = sm2Scheduler.review(card({ reps: 2, intervalDays: 6 }), 'good', now);
+    expect(third).toMatchObject({ reps: 3, intervalDays: 15 });
+  });
+
+  test('resets the ladder and lowers ease on Again and Hard', () => {
+    const again = sm2Scheduler.review(card({ reps: 4, intervalDays: 30 }), 'again', now);
+    expect(again).toMatchObject({ reps: 0, intervalDays: 1 });
+    expect(again.easeFactor).toBeCloseTo(2.18);
+
+    const hard = sm2Scheduler.review(card({ reps: 4, intervalDays: 30 }), 'hard', now);
+    expect(hard).toMatchObject({ reps: 0, intervalDays: 1 });
+    expect(hard.easeFactor).toBeCloseTo(2.36);
+  });
+
+  test('stretches the interval and raises ease on Easy', () => {
+    const easy = sm2Scheduler.review(card({ reps: 2, intervalDays: 6 }), 'easy', now);
+    expect(easy.intervalDays).toBe(20);
+    expect(easy.easeFactor).toBeCloseTo(2.6);
+  });
+
+  test('never lets ease fall below 1.3', () => {
+    expect(sm2Scheduler.review(card({ easeFactor: 1.3 }), 'again', now).easeFactor).toBe(1.3);
+  });
+});
+
+describe('FSRS', () => {
+  test('recall probability is 90% after one stability of elapsed time', () => {
+    expect(fsrsRetrievability(12, 12)).toBeCloseTo(0.9);
+    expect(fsrsInterval(12, 0.9)).toBe(12);
+  });
+
+  test('asking for higher retention gives shorter intervals', () => {
+    expect(fsrsInterval(20, 0.95)).toBeLessThan(fsrsInterval(20, 0.9));
+    expect(fsrsInterval(20, 0.8)).toBeGreaterThan(fsrsInterval(20, 0.9));
+    expect(fsrsInterval(0.1, 0.9)).toBe(1);
+  });
+
+  test('starts a new card from the initial stability for its grade', () => {
+    const good = fsrsScheduler.review(card({ scheduler: 'fsrs' }), 'good', now);
+    expect(good.state).toEqual({ stability: FSRS_DEFAULT_WEIGHTS[2], difficulty: FSRS_DEFAULT_WEIGHTS[4] });
+    expect(good).toMatchObject({ intervalDays: 4, reps: 1, easeFactor: 2.5 });
+
+    const again = fsrsScheduler.review(card({ scheduler: 'fsrs' }), 'again', now);
+    expect(again).toMatchObject({ intervalDays: 1, reps: 0 });
+  });
+
+  test('orders stability by grade on a due review and never grows it on a lapse', () => {
+    const reviewed = card({
+      scheduler: 'fsrs',
+      reps: 3,
+      intervalDays: 10,
+      lastReviewedAt: new Date(now.getTime() - 10 * DAY_MS),
+      state: { stability: 10, difficulty: 5 }
+    });
+    const stability = (grade: 'again' | 'hard' | 'good' | 'easy') =>
+      (fsrsScheduler.review(reviewed, grade, now).state as { stability: number }).stability;
+
+    expect(stability('again')).toBeLessThanOrEqual(10);
+    expect(stability('hard')).toBeGreaterThan(10);
+    expect(stability('good')).toBeGreaterThan(stability('hard'));
+    expect(stability('easy')).toBeGreaterThan(stability('good'));
+  });
+
+  test('translates an SM-2 schedule into FSRS memory', () => {
+    expect(fsrsMemoryFromCard(card())).toBeNull();
+    const memory = fsrsMemoryFromCard(card({ reps: 3, intervalDays: 15, easeFactor: 2.5 }));
+    expect(memory?.stability).toBe(15);
+    expect(memory?.difficulty).toBeCloseTo(10 - (1.2 * 9) / 1.7);
+    expect(fsrsMemoryFromCard(card({ reps: 3, intervalDays: 15, easeFactor: 3 }))?.difficulty).toBe(1);
+  });
+});
+
+describe('getScheduler', () => {
+  const fitted = { weights: [...FSRS_DEFAULT_WEIGHTS], requestRetention: 0.8 };
+
+  test('uses fitted parameters for FSRS only', () => {
+    const scheduler = getScheduler('fsrs', fitted);
+    expect(scheduler.name).toBe('fsrs');
+    expect(scheduler.review(card({ scheduler: 'fsrs' }), 'good', now).intervalDays).toBe(9);
+    expect(getScheduler('sm2', fitted)).toBe(sm2Scheduler);
+  });
+
+  test('falls back to the defaults when stored parameters are malformed', () => {
+    expect(getScheduler('fsrs', { weights: [1, 2, 3], requestRetention: 0.9 })).toBe(fsrsScheduler);
+    expect(parseFsrsParameters({ ...fitted, requestRetention: 1 })).toBeNull();
+    expect(parseFsrsParameters({ ...fitted, weights: [...fitted.weights.slice(1), NaN] })).toBeNull();
+    expect(parseFsrsParameters(fitted)).toEqual(fitted);
+  });
+});
+
+describe('reviewWithSteps', () => {
+  const steps: LearningSteps = { learning: [1, 10], relearning: [10] };
+  const reviewed = card({ reps: 3, intervalDays: 15, lastReviewedAt: new Date(now.getTime() - 15 * DAY_MS) });
+  const minutesUntil = (due: Date) => (due.getTime() - now.getTime()) / MINUTE_MS;
+
+  test('walks a new card through the learning steps before it graduates', () => {
+    const first = reviewWithSteps(sm2Scheduler, card(), null, 'good', now, steps);
+    expect(first).toMatchObject({ learningStep: 1, reps: 0, intervalDays: 0 });
+    expect(minutesUntil(first.dueAt)).toBe(10);
+
+    const graduated = reviewWithSteps(sm2Scheduler, card(), 1, 'good', now, steps);
+    expect(graduated).toMatchObject({ learningStep: null, reps: 1, intervalDays: 1 });
+    expect(graduated.dueAt.getTime() - now.getTime()).toBe(DAY_MS);
+  });
+
+  test('goes back to the first step on Again, repeats the step on Hard and skips the rest on Easy', () => {
+    const again = reviewWithSteps(sm2Scheduler, card(), 1, 'again', now, steps);
+    expect(again.learningStep).toBe(0);
+    expect(minutesUntil(again.dueAt)).toBe(1);
+
+    const hard = reviewWithSteps(sm2Scheduler, card(), 1, 'hard', now, steps);
+    expect(hard.learningStep).toBe(1);
+    expect(minutesUntil(hard.dueAt)).toBe(10);
+
+    expect(reviewWithSteps(sm2Scheduler, card(), null, 'easy', now, steps)).toMatchObject({
+      learningStep: null,
+      reps: 1
+    });
+  });
+
+  test('sends a lapsed card into relearning with its shortened interval waiting', () => {
+    const lapse = reviewWithSteps(sm2Scheduler, reviewed, null, 'again', now, steps);
+    expect(lapse).toMatchObject({ learningStep: 0, reps: 0, intervalDays: 1 });
+    expect(minutesUntil(lapse.dueAt)).toBe(10);
+
+    const lapsed = card({ intervalDays: 1, lastReviewedAt: now });
+    const relearnt = reviewWithSteps(sm2Scheduler, lapsed, 0, 'good', now, steps);
+    expect(relearnt).toMatchObject({ learningStep: null, reps: 0, intervalDays: 1 });
+    expect(relearnt.dueAt.getTime() - now.getTime()).toBe(DAY_MS);
+  });
+
+  test('schedules reviews normally outside the steps or when there are none', () => {
+    expect(reviewWithSteps(sm2Scheduler, reviewed, null, 'good', now, steps)).toEqual({
+      ...sm2Scheduler.review(reviewed, 'good', now),
+      learningStep: null,
+      scheduler: 'sm2'
+    });
+    const lapse = reviewWithSteps(sm2Scheduler, reviewed, null, 'again', now, { learning: [], relearning: [] });
+    expect(lapse.learningStep).toBeNull();
+    expect(lapse.dueAt.getTime() - now.getTime()).toBe(DAY_MS);
+    expect(reviewWithSteps(sm2Scheduler, card(), null, 'good', now, { learning: [], relearning: [] })).toMatchObject({
+      learningStep: null,
+      reps: 1
+    });
+  });
+
+  test('leaves the scheduler of a card in its steps until it graduates', () => {
+    expect(reviewWithSteps(fsrsScheduler, card(), 0, 'good', now, steps).scheduler).toBe('sm2');
+    expect(reviewWithSteps(fsrsScheduler, card(), 1, 'good', now, steps).scheduler).toBe('fsrs');
+  });
+});
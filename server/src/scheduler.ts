@@ -0,0 +1,326 @@
+/**
+ * Spaced-repetition schedulers. Each one turns a card's current schedule plus
+ * a grade into the next schedule; the review route stores the result in
+ * srs.card_state (interval_days, ease_factor, reps, due_at) and keeps any
+ * algorithm-specific memory in card_state.scheduler_state.
+ *
+ * Which scheduler a student uses is chosen per class, optionally overridden per
+ * student (see migrations/012_schedulers.sql). Cards remember which scheduler
+ * last wrote them so a switch can translate the old state instead of starting over.
+ */
+
+export type Grade = 'again' | 'hard' | 'good' | 'easy';
+
+export const SCHEDULER_NAMES = ['sm2', 'fsrs'] as const;
+export type SchedulerName = (typeof SCHEDULER_NAMES)[number];
+export const DEFAULT_SCHEDULER: SchedulerName = 'sm2';
+
+export type SchedulerState = Record<string, unknown>;
+
+export interface CardSchedule {
+  intervalDays: number;
+  easeFactor: number;
+  reps: number;
+  lastReviewedAt: Date | null;
+  // Name and state of the scheduler that last updated the card
+  scheduler: SchedulerName;
+  state: SchedulerState | null;
+}
+
+export interface ReviewOutcome {
+  intervalDays: number;
+  easeFactor: number;
+  reps: number;
+  dueAt: Date;
+  state: SchedulerState | null;
+}
+
+export interface Scheduler {
+  name: SchedulerName;
+  review(card: CardSchedule, grade: Grade, now: Date): ReviewOutcome;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addDays(now: Date, days: number): Date {
+  const due = new Date(now);
+  due.setUTCDate(due.getUTCDate() + days);
+  return due;
+}
+
+// Grades on the 0..3 scale SM-2 and the reviews.rating column use
+export const GRADE_SCORES: Record<Grade, number> = { again: 0, hard: 1, good: 2, easy: 3 };
+
+export function isSchedulerName(value: unknown): value is SchedulerName {
+  return typeof value === 'string' && (SCHEDULER_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * The original 12x12 schedule: SM-2 with grades mapped onto 0..3 instead of
+ * 0..5, a 1/6/ef×interval ladder and a 1.3× boost for Easy.
+ */
+export const sm2Scheduler: Scheduler = {
+  name: 'sm2',
+  review(card, grade, now) {
+    const g = GRADE_SCORES[grade];
+    let { reps, intervalDays: ivl, easeFactor: ef } = card;
+
+    if (g < 2) {
+      reps = 0;
+      ivl = 1;
+    } else {
+      reps += 1;
+      if (reps === 1) ivl = 1;
+      else if (reps === 2) ivl = 6;
+      else ivl = Math.max(1, Math.round(ivl * ef));
+    }
+
+    // Ease factor adjustment (classic SM-2)
+    // ef' = ef + (0.1 - (3 - q) * (0.08 + (3 - q) * 0.02))
+    const delta = 0.1 - (3 - g) * (0.08 + (3 - g) * 0.02);
+    ef = Math.max(1.3, ef + delta);
+
+    // Gentle boosts/nerfs for Easy/Hard
+    if (g === 3) ivl = Math.round(ivl * 1.3);
+
+    return { intervalDays: ivl, easeFactor: ef, reps, dueAt: addDays(now, ivl), state: null };
+  }
+};
+
+/**
+ * FSRS-4.5 with its published default weights. Memory is tracked as stability
+ * (days until recall probability falls to 90%) and difficulty (1..10).
+ */
+export const FSRS_DEFAULT_WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474, 0.1367, 1.0461, 2.1072,
+  0.0793, 0.3246, 1.587, 0.2272, 2.8755
+];
+export const FSRS_DEFAULT_RETENTION = 0.9;
+const FSRS_DECAY = -0.5;
+const FSRS_FACTOR = 19 / 81;
+const FSRS_MAX_INTERVAL_DAYS = 36500;
+
+export interface FsrsParameters {
+  weights: number[];
+  requestRetention: number;
+}
+
+export interface FsrsMemory {
+  stability: number;
+  difficulty: number;
+}
+
+const FSRS_RATINGS: Record<Grade, number> = { again: 1, hard: 2, good: 3, easy: 4 };
+
+function clampDifficulty(difficulty: number): number {
+  return Math.min(10, Math.max(1, difficulty));
+}
+
+export function fsrsRetrievability(elapsedDays: number, stability: number): number {
+  return Math.pow(1 + (FSRS_FACTOR * elapsedDays) / stability, FSRS_DECAY);
+}
+
+export function fsrsInterval(stability: number, requestRetention: number): number {
+  const days = (stability / FSRS_FACTOR) * (Math.pow(requestRetention, 1 / FSRS_DECAY) - 1);
+  return Math.min(FSRS_MAX_INTERVAL_DAYS, Math.max(1, Math.round(days)));
+}
+
+function fsrsInitialMemory(w: number[], rating: number): FsrsMemory {
+  return {
+    stability: Math.max(0.1, w[rating - 1]),
+    difficulty: clampDifficulty(w[4] - (rating - 3) * w[5])
+  };
+}
+
+export function fsrsNextMemory(
+  w: number[],
+  memory: FsrsMemory | null,
+  grade: Grade,
+  elapsedDays: number
+): FsrsMemory {
+  const rating = FSRS_RATINGS[grade];
+  if (!memory) return fsrsInitialMemory(w, rating);
+
+  const { stability: s, difficulty: d } = memory;
+  const r = fsrsRetrievability(elapsedDays, s);
+  // Difficulty moves with the grade, then reverts slightly toward the Good default
+  const difficulty = clampDifficulty(w[7] * w[4] + (1 - w[7]) * (d - w[6] * (rating - 3)));
+
+  let stability: number;
+  if (rating === 1) {
+    stability = w[11] * Math.pow(d, -w[12]) * (Math.pow(s + 1, w[13]) - 1) * Math.exp(w[14] * (1 - r));
+    stability = Math.min(stability, s);
+  } else {
+    const hardPenalty = rating === 2 ? w[15] : 1;
+    const easyBonus = rating === 4 ? w[16] : 1;
+    stability =
+      s *
+      (1 +
+        Math.exp(w[8]) *
+          (11 - d) *
+          Math.pow(s, -w[9]) *
+          (Math.exp(w[10] * (1 - r)) - 1) *
+          hardPenalty *
+          easyBonus);
+  }
+  return { stability: Math.max(0.1, stability), difficulty };
+}
+
+// Reads FSRS memory from card state, translating an SM-2 schedule on first use
+// so switching a class to FSRS does not reset everyone's progress.
+export function fsrsMemoryFromCard(card: CardSchedule): FsrsMemory | null {
+  if (card.scheduler === 'fsrs' && card.state) {
+    const { stability, difficulty } = card.state as Partial<FsrsMemory>;
+    if (typeof stability === 'number' && typeof difficulty === 'number') {
+      return { stability, difficulty };
+    }
+  }
+  if (card.reps === 0) return null;
+  // Ease 1.3 (hardest) .. 3.0 maps onto difficulty 10 .. 1
+  return {
+    stability: Math.max(1, card.intervalDays),
+    difficulty: clampDifficulty(10 - ((card.easeFactor - 1.3) * 9) / 1.7)
+  };
+}
+
+export function elapsedDaysSince(card: CardSchedule, now: Date): number {
+  if (!card.lastReviewedAt) return card.intervalDays;
+  return Math.max(0, (now.getTime() - card.lastReviewedAt.getTime()) / DAY_MS);
+}
+
+export function createFsrsScheduler(parameters: FsrsParameters): Scheduler {
+  return {
+    name: 'fsrs',
+    review(card, grade, now) {
+      const memory = fsrsNextMemory(
+        parameters.weights,
+        fsrsMemoryFromCard(card),
+        grade,
+        elapsedDaysSince(card, now)
+      );
+      const intervalDays = fsrsInterval(memory.stability, parameters.requestRetention);
+      return {
+        intervalDays,
+        // SM-2's ease is left alone so switching back picks up where it was
+        easeFactor: card.easeFactor,
+        reps: grade === 'again' ? 0 : card.reps + 1,
+        dueAt: addDays(now, intervalDays),
+        state: { stability: memory.stability, difficulty: memory.difficulty }
+      };
+    }
+  };
+}
+
+export const fsrsScheduler = createFsrsScheduler({
+  weights: FSRS_DEFAULT_WEIGHTS,
+  requestRetention: FSRS_DEFAULT_RETENTION
+});
+
+const SCHEDULERS: Record<SchedulerName, Scheduler> = {
+  sm2: sm2Scheduler,
+  fsrs: fsrsScheduler
+};
+
+/**
+ * Sub-day steps in front of the day-scale schedule, in minutes. New cards work
+ * through the learning steps before their first scheduled review; a lapse is
+ * scheduled immediately (shortening the interval) and then goes through the
+ * relearning steps before that interval starts. card_state.learning_step holds
+ * the current step, or NULL outside the steps.
+ */
+export interface LearningSteps {
+  learning: number[];
+  relearning: number[];
+}
+
+export interface StepOutcome extends ReviewOutcome {
+  learningStep: number | null;
+  // A card still in its steps keeps the scheduler that last scheduled it
+  scheduler: SchedulerName;
+}
+
+function addMinutes(now: Date, minutes: number): Date {
+  return new Date(now.getTime() + minutes * 60 * 1000);
+}
+
+export function reviewWithSteps(
+  scheduler: Scheduler,
+  card: CardSchedule,
+  learningStep: number | null,
+  grade: Grade,
+  now: Date,
+  steps: LearningSteps
+): StepOutcome {
+  const isNew = learningStep === null && card.reps === 0 && card.lastReviewedAt === null;
+  if (learningStep === null && !isNew) {
+    const outcome = scheduler.review(card, grade, now);
+    if (grade === 'again' && steps.relearning.length > 0) {
+      return {
+        ...outcome,
+        dueAt: addMinutes(now, steps.relearning[0]),
+        learningStep: 0,
+        scheduler: scheduler.name
+      };
+    }
+    return { ...outcome, learningStep: null, scheduler: scheduler.name };
+  }
+
+  // Only lapsed cards already have a day-scale interval waiting for them
+  const relearning = card.intervalDays > 0;
+  const phaseSteps = relearning ? steps.relearning : steps.learning;
+  const current = Math.min(learningStep ?? 0, Math.max(0, phaseSteps.length - 1));
+  const next =
+    grade === 'again' ? 0 : grade === 'hard' ? current : grade === 'good' ? current + 1 : phaseSteps.length;
+
+  if (next < phaseSteps.length) {
+    return {
+      intervalDays: card.intervalDays,
+      easeFactor: card.easeFactor,
+      reps: card.reps,
+      dueAt: addMinutes(now, phaseSteps[next]),
+      state: card.state,
+      learningStep: next,
+      scheduler: card.scheduler
+    };
+  }
+
+  if (relearning) {
+    return {
+      intervalDays: card.intervalDays,
+      easeFactor: card.easeFactor,
+      reps: card.reps,
+      dueAt: addDays(now, card.intervalDays),
+      state: card.state,
+      learningStep: null,
+      scheduler: card.scheduler
+    };
+  }
+  // Graduating from learning counts as the card's first scheduled review
+  return { ...scheduler.review(card, grade, now), learningStep: null, scheduler: scheduler.name };
+}
+
+// Validates parameters read back from srs.scheduler_params
+export function parseFsrsParameters(value: unknown): FsrsParameters | null {
+  if (!value || typeof value !== 'object') return null;
+  const { weights, requestRetention } = value as Partial<FsrsParameters>;
+  if (
+    !Array.isArray(weights) ||
+    weights.length !== FSRS_DEFAULT_WEIGHTS.length ||
+    !weights.every(weight => typeof weight === 'number' && Number.isFinite(weight)) ||
+    typeof requestRetention !== 'number' ||
+    requestRetention <= 0 ||
+    requestRetention >= 1
+  ) {
+    return null;
+  }
+  return { weights, requestRetention };
+}
+
+// Fitted parameters (see optimizer.ts) only apply to FSRS; SM-2 has none.
+export function getScheduler(name: SchedulerName, params?: unknown): Scheduler {
+  if (name === 'fsrs') {
+    const fitted = parseFsrsParameters(params);
+    if (fitted) return createFsrsScheduler(fitted);
+  }
+  return SCHEDULERS[name];
+}
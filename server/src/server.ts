@@ -4,12 +4,127 @@ import { z } from 'zod';
 import dotenv from 'dotenv';
 import path from 'path';
 import fs from 'fs';
+import crypto from 'crypto';
+import { parseCsv } from './csv';
+import {
+  hashSecret,
+  verifySecret,
+  MIN_TEACHER_PASSWORD_LENGTH,
+  MAX_TEACHER_PASSWORD_LENGTH
+} from './passwords';
+import {
+  DEFAULT_SCHEDULER,
+  GRADE_SCORES,
+  Grade,
+  FSRS_DEFAULT_RETENTION,
+  SCHEDULER_NAMES,
+  Scheduler,
+  SchedulerName,
+  SchedulerState,
+  LearningSteps,
+  StepOutcome,
+  getScheduler,
+  isSchedulerName,
+  reviewWithSteps
+} from './scheduler';
+import {
+  MAX_OPTIMIZER_REVIEWS,
+  MIN_OPTIMIZER_REVIEWS,
+  OptimizationMetrics,
+  ReviewLogEntry,
+  ScheduledCard
+} from './optimizer';
+import { OptimizerInput, optimizeFsrsInWorker } from './optimizer-worker';
+import { fuzzRange, pickBalancedInterval } from './workload';
+import {
+  MISCONCEPTION_LABELS,
+  Misconception,
+  classifyAnswer,
+  parseFactors
+} from './distractors';
+import {
+  ANSWER_MODES,
+  AnswerMode,
+  DEFAULT_ANSWER_MODE,
+  MAX_ANSWER_LENGTH,
+  MAX_RESPONSE_MS,
+  FLUENT_ACCURACY,
+  FLUENT_RESPONSE_MS,
+  checkAnswer,
+  checkedAnswerMode,
+  studentCardFace
+} from './answers';
+import { DayBoundary, addDaysToKey, dayKey, dayStart, isValidTimeZone, scheduleDayStart } from './calendar';
+import {
+  LOGIN_THROTTLE,
+  LoginThrottleBlock,
+  LoginThrottleRule,
+  isLoginLockout,
+  joinCodeThrottleRules,
+  loginThrottleBlock,
+  loginThrottleRules,
+  studentThrottleKey,
+  teacherThrottleKey
+} from './login-throttle';
+import {
+  MAX_PICTURE_SEQUENCE_LENGTH,
+  PICTURE_CATALOG,
+  PICTURE_DIFFICULTIES,
+  PictureDifficulty,
+  encodePictureSequence,
+  pictureDifficultySchema,
+  pictureIdSchema
+} from './pictures';
+import {
+  AUDIT_EXPORT_LIMIT,
+  AuditQuery,
+  auditAction,
+  auditFilter,
+  auditOutcome,
+  auditPayload,
+  auditQuerySchema,
+  auditResponseSummary,
+  isUuid
+} from './audit';
+import {
+  MAX_SPRINT_HISTORY,
+  PracticeSet,
+  SPRINT_GRACE_SECONDS,
+  isPracticeSet,
+  isSprintCardInTurn,
+  sprintAnswerReschedules,
+  sprintAnswerSchema,
+  sprintSchema
+} from './sprints';
+import {
+  NEW_CARD_ORDER_SQL,
+  interleaveNewCards,
+  newCardAllowance,
+  newCardSlots,
+  resolveNewCardsPerDay
+} from './new-cards';
+import {
+  CARD_FACTOR_A_SQL,
+  CARD_FACTOR_B_SQL,
+  ClearedCardState,
+  clearStudentMessage,
+  resetCardStateSql,
+  resetScopeFilter,
+  resetSrsMessage,
+  resetSrsSchema
+} from './student-reset';
+import { createStudentSchema, originalStudentNames, restoreStudentSchema, updateStudentSchema } from './students';
 
 dotenv.config();
 
 const app = express();
 app.use(express.json());
 
+// Needed behind a reverse proxy so req.ip reflects the client for login throttling
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', process.env.TRUST_PROXY);
+}
+
 const pool = new Pool({ connectionString: process.env.DATABASE_URL });
 
 pool
@@ -29,6 +144,12 @@ let cardStateSupportsUpdatedAt: boolean | null = null;
 interface ReviewsColumnState {
   hasGrade: boolean;
   hasRating: boolean;
+  // Added by migrations 017_typed_answers.sql, 018_review_responses.sql and 019_multiple_choice.sql
+  hasAnswer: boolean;
+  hasResponseMs: boolean;
+  hasAnswerMode: boolean;
+  hasCorrect: boolean;
+  hasMisconception: boolean;
   ratingDataType?: string;
   ratingUdtName?: string;
 }
@@ -149,6 +270,83 @@ function formatReviewDay(value: unknown): string {
   return new Date().toISOString();
 }
 
+function resolveDefaultTimeZone(rawValue?: string | null): string {
+  const fallback = 'UTC';
+  if (!rawValue) return fallback;
+  if (!isValidTimeZone(rawValue)) {
+    console.warn(`Ignoring invalid DEFAULT_TIMEZONE value "${rawValue}"; using ${fallback}.`);
+    return fallback;
+  }
+  return rawValue;
+}
+
+function resolveDayRolloverHour(rawValue?: string | null): number {
+  const fallback = 4;
+  if (!rawValue) return fallback;
+  const hour = Number(rawValue);
+  if (!Number.isInteger(hour) || hour < 0 || hour > 23) {
+    console.warn(`Ignoring invalid DAY_ROLLOVER_HOUR value "${rawValue}"; using ${fallback}.`);
+    return fallback;
+  }
+  return hour;
+}
+
+const defaultDayBoundary: DayBoundary = {
+  timeZone: resolveDefaultTimeZone(process.env.DEFAULT_TIMEZONE ?? null),
+  rolloverHour: resolveDayRolloverHour(process.env.DAY_ROLLOVER_HOUR ?? null)
+};
+
+interface DayBoundaryRow {
+  timezone: string | null;
+  day_rollover_hour: number | null;
+}
+
+function dayBoundaryFromRow(row?: DayBoundaryRow | null): DayBoundary {
+  return {
+    timeZone: row?.timezone ?? defaultDayBoundary.timeZone,
+    rolloverHour: row?.day_rollover_hour ?? defaultDayBoundary.rolloverHour
+  };
+}
+
+// A student's school day is their class's; unassigned students use the defaults
+async function fetchStudentDayBoundary(queryable: Queryable, userId: string): Promise<DayBoundary> {
+  const { rows } = await queryable.query<DayBoundaryRow>(
+    `SELECT c.timezone, c.day_rollover_hour
+       FROM srs.users u
+       LEFT JOIN srs.classes c ON c.id = u.class_id
+      WHERE u.id = $1`,
+    [userId]
+  );
+  return dayBoundaryFromRow(rows[0]);
+}
+
+async function fetchClassDayBoundary(queryable: Queryable, classId: string): Promise<DayBoundary> {
+  const { rows } = await queryable.query<DayBoundaryRow>(
+    `SELECT timezone, day_rollover_hour FROM srs.classes WHERE id = $1`,
+    [classId]
+  );
+  return dayBoundaryFromRow(rows[0]);
+}
+
+// Start of the school day containing `column`; the two placeholders are bound
+// to the boundary's timezone and rollover hour.
+function dayStartSql(column: string, timeZoneParam: string, rolloverParam: string): string {
+  const rollover = `make_interval(hours => ${rolloverParam})`;
+  return `((date_trunc('day', ${column} AT TIME ZONE ${timeZoneParam} - ${rollover}) + ${rollover}) AT TIME ZONE ${timeZoneParam})`;
+}
+
+// Local date of the school day containing `column`, as 'YYYY-MM-DD'
+function dayKeySql(column: string, timeZoneParam: string, rolloverParam: string): string {
+  return `to_char(${column} AT TIME ZONE ${timeZoneParam} - make_interval(hours => ${rolloverParam}), 'YYYY-MM-DD')`;
+}
+
+const RECENT_REVIEW_DAYS = 14;
+
+// Start of the first day in the recent-review charts, so the oldest bar is a whole day
+function recentReviewsSince(boundary: DayBoundary): Date {
+  return scheduleDayStart(new Date(), -(RECENT_REVIEW_DAYS - 1), boundary);
+}
+
 async function archiveStudent(studentId: string): Promise<{ message: string } | null> {
   const client = await pool.connect();
   try {
@@ -177,6 +375,15 @@ async function archiveStudent(studentId: string): Promise<{ message: string } |
       await client.query('ROLLBACK');
       return null;
     }
+    // Signs them out everywhere, the same way a new picture password does; auth
+    // also turns archived users away
+    await client.query(
+      `UPDATE srs.sessions
+          SET revoked_at = NOW()
+        WHERE user_id = $1
+          AND revoked_at IS NULL`,
+      [studentId]
+    );
     await client.query('COMMIT');
     return {
       message:
@@ -191,6 +398,17 @@ async function archiveStudent(studentId: string): Promise<{ message: string } |
   }
 }
 
+const PURGE_TABLES = ['srs.reviews', 'srs.card_state', 'srs.student_progress', 'srs.users'];
+
+async function canPurgeStudents(queryable: Queryable): Promise<boolean> {
+  const { rows } = await queryable.query<{ allowed: boolean }>(
+    `SELECT bool_and(has_table_privilege(t, 'DELETE')) AS allowed
+       FROM unnest($1::text[]) AS t`,
+    [PURGE_TABLES]
+  );
+  return Boolean(rows[0]?.allowed);
+}
+
 async function ensureStudentProgressPrivileges(queryable?: Queryable): Promise<StudentProgressPrivileges> {
   if (studentProgressPrivileges) return studentProgressPrivileges;
   const runner = queryable ?? pool;
@@ -279,6 +497,16 @@ async function doesCardStateHaveUpdatedAt(client?: PoolClient): Promise<boolean>
   return cardStateSupportsUpdatedAt;
 }
 
+const NO_REVIEW_COLUMNS: ReviewsColumnState = {
+  hasGrade: false,
+  hasRating: false,
+  hasAnswer: false,
+  hasResponseMs: false,
+  hasAnswerMode: false,
+  hasCorrect: false,
+  hasMisconception: false
+};
+
 async function fetchReviewsColumnState(client: PoolClient): Promise<ReviewsColumnState> {
   if (reviewsColumnState) return reviewsColumnState;
   try {
@@ -293,9 +521,14 @@ async function fetchReviewsColumnState(client: PoolClient): Promise<ReviewsColum
         WHERE table_schema = $1 AND table_name = $2`,
       ['srs', 'reviews']
     );
-    const state: ReviewsColumnState = { hasGrade: false, hasRating: false };
+    const state: ReviewsColumnState = { ...NO_REVIEW_COLUMNS };
     for (const row of rows) {
       if (row.column_name === 'grade') state.hasGrade = true;
+      else if (row.column_name === 'answer') state.hasAnswer = true;
+      else if (row.column_name === 'response_ms') state.hasResponseMs = true;
+      else if (row.column_name === 'answer_mode') state.hasAnswerMode = true;
+      else if (row.column_name === 'correct') state.hasCorrect = true;
+      else if (row.column_name === 'misconception') state.hasMisconception = true;
       else if (row.column_name === 'rating') {
         state.hasRating = true;
         state.ratingDataType = row.data_type;
@@ -311,7 +544,7 @@ async function fetchReviewsColumnState(client: PoolClient): Promise<ReviewsColum
       'Skipping reviews column detection due to introspection error:',
       (err as Error).message
     );
-    reviewsColumnState = { hasGrade: false, hasRating: false };
+    reviewsColumnState = { ...NO_REVIEW_COLUMNS };
   }
   return reviewsColumnState;
 }
@@ -360,12 +593,22 @@ function buildRatingCorrectCondition(state: ReviewsColumnState): string {
   return "LOWER(r.rating::text) IN ('good', 'easy', '3', '2')";
 }
 
+// Optional extras stored when srs.reviews has the columns for them
+interface ReviewDetails {
+  answer?: string | null;
+  responseMs?: number | null;
+  answerMode?: AnswerMode;
+  correct?: boolean | null;
+  misconception?: Misconception | null;
+}
+
 async function logReviewEvent(
   client: PoolClient,
   userId: string,
   cardId: number,
   gradeLabel: string,
-  gradeScore: number
+  gradeScore: number,
+  details: ReviewDetails = {}
 ): Promise<void> {
   let attempts = 0;
   while (attempts < 2) {
@@ -379,7 +622,7 @@ async function logReviewEvent(
     }
 
     const columns = ['user_id', 'card_id'];
-    const values: Array<string | number> = [userId, cardId];
+    const values: Array<string | number | boolean> = [userId, cardId];
 
     if (state.hasGrade) {
       columns.push('grade');
@@ -389,6 +632,26 @@ async function logReviewEvent(
       columns.push('rating');
       values.push(coerceRatingValue(state.ratingDataType, state.ratingUdtName, gradeLabel, gradeScore));
     }
+    if (state.hasAnswer && details.answer != null) {
+      columns.push('answer');
+      values.push(details.answer);
+    }
+    if (state.hasResponseMs && details.responseMs != null) {
+      columns.push('response_ms');
+      values.push(details.responseMs);
+    }
+    if (state.hasAnswerMode && details.answerMode) {
+      columns.push('answer_mode');
+      values.push(details.answerMode);
+    }
+    if (state.hasCorrect && details.correct != null) {
+      columns.push('correct');
+      values.push(details.correct);
+    }
+    if (state.hasMisconception && details.misconception) {
+      columns.push('misconception');
+      values.push(details.misconception);
+    }
 
     const placeholders = values.map((_, idx) => `$${idx + 1}`).join(', ');
     const sql = `INSERT INTO srs.reviews (${columns.join(', ')}) VALUES (${placeholders})`;
@@ -416,30 +679,213 @@ async function logReviewEvent(
 
 interface AuthedRequest extends Request {
   userId: string;
-  user?: any; // Store user info
+  user: User;
+  sessionId: string;
+  sessionExpiresAt: Date;
+}
+
+interface SessionTokenPayload {
+  sid: string;
+  uid: string;
+  exp: number;
+}
+
+function resolveSessionTtlMs(rawValue?: string | null): number {
+  const fallbackHours = 12;
+  if (!rawValue) return fallbackHours * 60 * 60 * 1000;
+  const hours = Number(rawValue);
+  if (!Number.isFinite(hours) || hours <= 0) {
+    console.warn(`Ignoring invalid SESSION_TTL_HOURS value "${rawValue}"; using ${fallbackHours} hours.`);
+    return fallbackHours * 60 * 60 * 1000;
+  }
+  return hours * 60 * 60 * 1000;
+}
+
+// Values copied from example files are public, so they are no better than none
+const PLACEHOLDER_SESSION_SECRETS = new Set(['change-me', 'changeme', 'secret']);
+
+function resolveSessionSecret(rawValue?: string | null): string {
+  const value = rawValue?.trim();
+  if (value && !PLACEHOLDER_SESSION_SECRETS.has(value.toLowerCase())) return value;
+  if (value) {
+    console.warn('SESSION_SECRET is a placeholder value and will not be used to sign sessions.');
+  }
+  console.warn(
+    'SESSION_SECRET is not set; using a random per-process secret. Sessions will not survive a server restart.'
+  );
+  return crypto.randomBytes(32).toString('hex');
+}
+
+const sessionTtlMs = resolveSessionTtlMs(process.env.SESSION_TTL_HOURS ?? null);
+const sessionSecret = resolveSessionSecret(process.env.SESSION_SECRET ?? null);
+
+function signSessionPayload(encodedPayload: string): string {
+  return crypto.createHmac('sha256', sessionSecret).update(encodedPayload).digest('base64url');
+}
+
+function createSessionToken(payload: SessionTokenPayload): string {
+  const encodedPayload = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+  return `${encodedPayload}.${signSessionPayload(encodedPayload)}`;
+}
+
+function verifySessionToken(token: string): SessionTokenPayload | null {
+  const parts = token.split('.');
+  if (parts.length !== 2) return null;
+  const [encodedPayload, signature] = parts;
+
+  const expected = Buffer.from(signSessionPayload(encodedPayload));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+    return null;
+  }
+
+  let payload: Partial<SessionTokenPayload>;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+  if (
+    typeof payload.sid !== 'string' ||
+    typeof payload.uid !== 'string' ||
+    typeof payload.exp !== 'number'
+  ) {
+    return null;
+  }
+  if (payload.exp * 1000 <= Date.now()) return null;
+  return { sid: payload.sid, uid: payload.uid, exp: payload.exp };
+}
+
+function readSessionToken(req: Request): string | null {
+  const header = req.header('authorization');
+  if (!header) return null;
+  const match = /^Bearer\s+(\S+)$/i.exec(header.trim());
+  return match ? match[1] : null;
+}
+
+async function issueSession(userId: string): Promise<{ token: string; expiresAt: Date }> {
+  const expiresAt = new Date(Date.now() + sessionTtlMs);
+  const { rows } = await pool.query<{ id: string }>(
+    `INSERT INTO srs.sessions (user_id, expires_at)
+     VALUES ($1, $2)
+     RETURNING id`,
+    [userId, expiresAt]
+  );
+  const token = createSessionToken({
+    sid: rows[0].id,
+    uid: userId,
+    exp: Math.floor(expiresAt.getTime() / 1000)
+  });
+  return { token, expiresAt };
+}
+
+// Verifying against a throwaway hash keeps unknown accounts from answering faster.
+const dummySecretHash = hashSecret(crypto.randomBytes(16).toString('hex'));
+
+async function upgradeLegacyPicturePasswords(): Promise<number> {
+  const { rows } = await pool.query<{ id: string; picture_password: string }>(
+    `SELECT id, picture_password
+       FROM srs.users
+      WHERE picture_password IS NOT NULL
+        AND picture_password_hash IS NULL`
+  );
+  for (const row of rows) {
+    const hashed = await hashSecret(row.picture_password);
+    await pool.query(
+      `UPDATE srs.users
+          SET picture_password_hash = $1,
+              picture_password = NULL,
+              updated_at = NOW()
+        WHERE id = $2`,
+      [hashed, row.id]
+    );
+  }
+  return rows.length;
 }
 
-const auth: RequestHandler = (req: Request, res: Response, next: express.NextFunction): void => {
-  // Public endpoints
-  if (req.path === '/api/login' || req.path === '/api/users') {
+upgradeLegacyPicturePasswords()
+  .then(count => {
+    if (count > 0) console.log(`Hashed ${count} legacy picture password(s).`);
+  })
+  .catch(err => {
+    console.warn('Unable to hash legacy picture passwords:', (err as Error).message);
+  });
+
+const PUBLIC_API_PATHS = new Set([
+  '/api/login',
+  '/api/login/roster',
+  '/api/pictures',
+  '/api/setup/status',
+  '/api/setup/teacher'
+]);
+
+const auth: RequestHandler = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  // Static client assets and public endpoints do not need a session
+  if (!req.path.startsWith('/api/') || PUBLIC_API_PATHS.has(req.path)) {
     return next();
   }
 
-  const headerUserId = req.header('x-user-id');
-  if (!headerUserId) {
-    res.status(401).json({ error: 'Missing user context' });
+  const token = readSessionToken(req);
+  if (!token) {
+    res.status(401).json({ error: 'Missing session token' });
     return;
   }
 
-  (req as AuthedRequest).userId = headerUserId;
-  next();
+  const payload = verifySessionToken(token);
+  if (!payload) {
+    res.status(401).json({ error: 'Invalid or expired session' });
+    return;
+  }
+
+  try {
+    const { rows } = await pool.query<User & { expires_at: Date }>(
+      `SELECT u.id, u.username, u.display_name, u.user_type, s.expires_at
+         FROM srs.sessions s
+         INNER JOIN srs.users u ON u.id = s.user_id
+        WHERE s.id = $1
+          AND s.user_id = $2
+          AND s.revoked_at IS NULL
+          AND s.expires_at > NOW()
+          -- Archived students keep their rows but may no longer sign in or practise
+          AND u.user_type IN ('student', 'teacher')`,
+      [payload.sid, payload.uid]
+    );
+    if (rows.length === 0) {
+      res.status(401).json({ error: 'Invalid or expired session' });
+      return;
+    }
+
+    const { expires_at: expiresAt, ...user } = rows[0];
+    const authed = req as AuthedRequest;
+    authed.userId = user.id;
+    authed.user = user;
+    authed.sessionId = payload.sid;
+    authed.sessionExpiresAt = new Date(expiresAt);
+    next();
+  } catch (err) {
+    console.error('Failed to verify session', err);
+    res.status(500).json({ error: 'Failed to verify session' });
+  }
 };
 
-const loginSchema = z.object({
-  username: z.string(),
-  picturePassword: z.string()
+// Students sign in with a picture sequence; teachers with a username and password.
+const pictureLoginSchema = z.object({
+  userId: z.string().uuid(),
+  picturePassword: z.array(pictureIdSchema).min(1).max(MAX_PICTURE_SEQUENCE_LENGTH)
+});
+
+const credentialLoginSchema = z.object({
+  username: z.string().trim().min(1).max(255),
+  password: z.string().min(1).max(MAX_TEACHER_PASSWORD_LENGTH)
 });
 
+const loginSchema = z.union([pictureLoginSchema, credentialLoginSchema]);
+
+const teacherPasswordSchema = z
+  .string()
+  .min(MIN_TEACHER_PASSWORD_LENGTH, `Password must be at least ${MIN_TEACHER_PASSWORD_LENGTH} characters`)
+  .max(MAX_TEACHER_PASSWORD_LENGTH);
+
 interface User {
   id: string;
   username: string;
@@ -447,8 +893,149 @@ interface User {
   user_type: string;
 }
 
-interface UserWithPicture extends User {
+interface UserCredentials extends User {
+  picture_password_hash: string | null;
   picture_password: string | null;
+  password_hash: string | null;
+}
+
+function toPublicUser(user: UserCredentials): User {
+  return {
+    id: user.id,
+    username: user.username,
+    display_name: user.display_name,
+    user_type: user.user_type
+  };
+}
+
+async function verifyPicturePassword(user: UserCredentials, picturePassword: string): Promise<boolean> {
+  if (user.picture_password_hash) {
+    return verifySecret(picturePassword, user.picture_password_hash);
+  }
+  if (user.picture_password === null) {
+    await verifySecret(picturePassword, await dummySecretHash);
+    return false;
+  }
+
+  // Rows created before hashing still hold the raw value; upgrade them on first use.
+  const expected = Buffer.from(user.picture_password);
+  const provided = Buffer.from(picturePassword);
+  const matches = expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+  if (matches) {
+    await pool.query(
+      `UPDATE srs.users
+          SET picture_password_hash = $1,
+              picture_password = NULL,
+              updated_at = NOW()
+        WHERE id = $2`,
+      [await hashSecret(picturePassword), user.id]
+    );
+  }
+  return matches;
+}
+
+async function checkLoginThrottle(rules: LoginThrottleRule[]): Promise<LoginThrottleBlock | null> {
+  const { rows } = await pool.query<{
+    key: string;
+    failures: number;
+    last_failure_at: Date;
+    locked_until: Date | null;
+  }>(
+    `SELECT key, failures, last_failure_at, locked_until
+       FROM srs.login_throttle
+      WHERE key = ANY($1::text[])
+        AND (
+          locked_until > NOW()
+          OR last_failure_at > NOW() - make_interval(mins => $2)
+        )`,
+    [rules.map(rule => rule.key), LOGIN_THROTTLE.resetAfterMinutes]
+  );
+
+  return loginThrottleBlock(
+    rules,
+    rows.map(row => ({
+      key: row.key,
+      failures: row.failures,
+      lastFailureAt: new Date(row.last_failure_at),
+      lockedUntil: row.locked_until ? new Date(row.locked_until) : null
+    })),
+    Date.now()
+  );
+}
+
+// Returns true when this failure locked out at least one of the keys with delays.
+async function recordLoginFailure(rules: LoginThrottleRule[]): Promise<boolean> {
+  let lockedOut = false;
+  for (const rule of rules) {
+    const { rows } = await pool.query<{ locked_until: Date | null }>(
+      `INSERT INTO srs.login_throttle AS lt (key, failures, last_failure_at, locked_until)
+       VALUES ($1, 1, NOW(), NULL)
+       ON CONFLICT (key) DO UPDATE
+         SET failures = CASE
+                          WHEN lt.last_failure_at <= NOW() - make_interval(mins => $3) THEN 1
+                          ELSE lt.failures + 1
+                        END,
+             last_failure_at = NOW(),
+             locked_until = CASE
+                              WHEN lt.last_failure_at > NOW() - make_interval(mins => $3)
+                               AND lt.failures + 1 >= $2
+                                THEN NOW() + make_interval(mins => $4)
+                              ELSE lt.locked_until
+                            END
+       RETURNING locked_until`,
+      [rule.key, rule.lockoutFailures, LOGIN_THROTTLE.resetAfterMinutes, LOGIN_THROTTLE.lockoutMinutes]
+    );
+    const lockedUntil = rows[0]?.locked_until;
+    if (isLoginLockout(rule, lockedUntil ? new Date(lockedUntil) : null, Date.now())) lockedOut = true;
+  }
+  return lockedOut;
+}
+
+async function clearLoginThrottle(accountKey: string): Promise<void> {
+  await pool.query(`DELETE FROM srs.login_throttle WHERE key = $1`, [accountKey]);
+}
+
+function sendLoginThrottled(res: Response, block: LoginThrottleBlock) {
+  res.setHeader('Retry-After', String(block.retryAfterSeconds));
+  res.status(429).json({
+    error: block.locked
+      ? 'Too many incorrect tries. This account is locked for now.'
+      : 'Too many tries. Please wait a moment and try again.',
+    locked: block.locked,
+    retry_after_seconds: block.retryAfterSeconds
+  });
+}
+
+async function authenticateStudent(userId: string, picturePassword: string): Promise<User | null> {
+  const { rows } = await pool.query<UserCredentials>(
+    `SELECT id, username, display_name, user_type, picture_password_hash, picture_password, password_hash
+       FROM srs.users
+      WHERE id = $1
+        AND user_type = 'student'`,
+    [userId]
+  );
+  const candidate = rows[0];
+  if (!candidate) {
+    await verifySecret(picturePassword, await dummySecretHash);
+    return null;
+  }
+  return (await verifyPicturePassword(candidate, picturePassword)) ? toPublicUser(candidate) : null;
+}
+
+async function authenticateTeacher(username: string, password: string): Promise<User | null> {
+  const { rows } = await pool.query<UserCredentials>(
+    `SELECT id, username, display_name, user_type, picture_password_hash, picture_password, password_hash
+       FROM srs.users
+      WHERE LOWER(username) = LOWER($1)
+        AND user_type = 'teacher'`,
+    [username]
+  );
+  const candidate = rows[0];
+  if (!candidate?.password_hash) {
+    await verifySecret(password, await dummySecretHash);
+    return null;
+  }
+  return (await verifySecret(password, candidate.password_hash)) ? toPublicUser(candidate) : null;
 }
 
 // Login endpoint
@@ -456,325 +1043,2653 @@ app.post('/api/login', async (req: Request, res: Response) => {
   const parse = loginSchema.safeParse(req.body);
   if (!parse.success) return res.status(400).json({ error: 'Invalid login data' });
 
-  const { username, picturePassword } = parse.data;
-  
-  const { rows } = await pool.query(
-    'SELECT id, username, display_name, user_type FROM srs.users WHERE username = $1 AND picture_password = $2',
-    [username, picturePassword]
-  );
-  
-  if (rows.length === 0) {
-    return res.status(401).json({ error: 'Invalid username or password' });
+  const credentials = parse.data;
+  const accountKey =
+    'userId' in credentials
+      ? studentThrottleKey(credentials.userId)
+      : teacherThrottleKey(credentials.username);
+  const throttleRules = loginThrottleRules(req.ip, accountKey);
+
+  try {
+    const block = await checkLoginThrottle(throttleRules);
+    if (block) return sendLoginThrottled(res, block);
+
+    const user =
+      'userId' in credentials
+        ? await authenticateStudent(
+            credentials.userId,
+            encodePictureSequence(credentials.picturePassword)
+          )
+        : await authenticateTeacher(credentials.username, credentials.password);
+
+    if (!user) {
+      const lockedOut = await recordLoginFailure(throttleRules);
+      if (lockedOut) {
+        return sendLoginThrottled(res, {
+          locked: true,
+          retryAfterSeconds: LOGIN_THROTTLE.lockoutMinutes * 60
+        });
+      }
+      return res.status(401).json({ error: 'Invalid username or password' });
+    }
+    await clearLoginThrottle(accountKey);
+
+    const { token, expiresAt } = await issueSession(user.id);
+    res.json({ user, token, expires_at: expiresAt.toISOString(), success: true });
+  } catch (err) {
+    console.error('Login failed', err);
+    res.status(500).json({ error: 'Failed to start session' });
   }
-  
-  const user = rows[0] as User;
-  res.json({ user, success: true });
 });
 
-// Public endpoint to list users for the picture-password login selector
-app.get('/api/users', async (_req: Request, res: Response) => {
-  const { rows } = await pool.query(
-    `SELECT id, username, display_name, user_type, picture_password
-       FROM srs.users
-      ORDER BY display_name`
-  );
-  res.json(rows as UserWithPicture[]);
-});
+// Public roster for the student picture-login picker; exposes nothing secret.
+// Lists the students of the class with the given ?classCode=. Without a code
+// the list is empty: students outside a class cannot use the picture login, as
+// listing them would show every teacher's unassigned students to anyone.
+app.get('/api/login/roster', async (req: Request, res: Response) => {
+  const classCode = typeof req.query.classCode === 'string' ? normalizeJoinCode(req.query.classCode) : '';
+  if (!classCode) return res.json({ class: null, students: [] });
+  try {
+    const throttleRules = joinCodeThrottleRules(req.ip);
+    const block = await checkLoginThrottle(throttleRules);
+    if (block) return sendLoginThrottled(res, block);
 
-// Teacher dashboard endpoints - simplified versions without permission issues
-app.get('/api/teacher/students', async (_req: Request, res: Response) => {
-  const privileges = await ensureStudentProgressPrivileges();
-  if (!privileges.select) {
-    warnStudentProgress('student_progress read access not available; returning limited student list.');
-    const { rows } = await pool.query(
-      `
-      SELECT 
-        u.id,
-        u.username,
-        u.display_name,
-        u.created_at,
-        u.updated_at
-      FROM srs.users u
-      WHERE u.user_type = 'student'
-      ORDER BY u.username
-      `
+    const classResult = await pool.query<{ id: string; name: string }>(
+      `SELECT id, name FROM srs.classes WHERE join_code = $1`,
+      [classCode]
     );
-    res.json(
-      rows.map(row => ({
-        id: row.id,
-        username: row.username,
-        display_name: row.display_name,
-        total_reviews: 0,
-        correct_reviews: 0,
-        cards_completed: 0,
-        created_at: row.created_at,
-        last_activity: row.updated_at ? new Date(row.updated_at).toISOString() : null
-      }))
+    if (classResult.rowCount === 0) {
+      await recordLoginFailure(throttleRules);
+      return res.status(404).json({ error: 'No class has that code' });
+    }
+    const classInfo = classResult.rows[0];
+
+    const { rows } = await pool.query<{
+      id: string;
+      display_name: string;
+      avatar: string | null;
+      picture_length: number;
+    }>(
+      `SELECT id, display_name, avatar, picture_sequence_length AS picture_length
+         FROM srs.users
+        WHERE user_type = 'student'
+          AND class_id = $1
+        ORDER BY display_name`,
+      [classInfo.id]
     );
-    return;
+    res.json({
+      class: { name: classInfo.name, join_code: classCode },
+      students: rows
+    });
+  } catch (err) {
+    console.error('Failed to load login roster', err);
+    res.status(500).json({ error: 'Failed to load accounts' });
   }
+});
+
+const setupTeacherSchema = z.object({
+  username: z.string().trim().min(1).max(255),
+  displayName: z.string().trim().min(1).max(255),
+  password: teacherPasswordSchema
+});
+
+async function countTeachers(queryable: Queryable): Promise<number> {
+  const { rows } = await queryable.query<{ count: string }>(
+    `SELECT COUNT(*) AS count FROM srs.users WHERE user_type = 'teacher'`
+  );
+  return Number(rows[0]?.count ?? 0);
+}
 
+// First-run setup: lets the very first teacher account be created from the browser
+app.get('/api/setup/status', async (_req: Request, res: Response) => {
   try {
-    const { rows } = await pool.query(
-      `
-      SELECT 
-        u.id,
-        u.username,
-        u.display_name,
-        u.created_at,
-        COALESCE(sp.total_reviews, 0) AS total_reviews,
-        COALESCE(sp.correct_reviews, 0) AS correct_reviews,
-        COALESCE(sp.cards_completed, 0) AS cards_completed,
-        COALESCE(
-          latest_review.latest_activity,
-          sp.updated_at,
-          u.updated_at
-        ) AS last_activity
-      FROM srs.users u
-      LEFT JOIN srs.student_progress sp ON sp.user_id = u.id
-      LEFT JOIN LATERAL (
-        SELECT MAX(r.created_at) AS latest_activity
-        FROM srs.reviews r
-        WHERE r.user_id = u.id
-      ) AS latest_review ON TRUE
-      WHERE u.user_type = 'student'
-      ORDER BY u.username
-      `
-    );
-    const formatted = rows.map(row => ({
-      id: row.id,
-      username: row.username,
-      display_name: row.display_name,
-      total_reviews: Number(row.total_reviews ?? 0),
-      correct_reviews: Number(row.correct_reviews ?? 0),
-      cards_completed: Number(row.cards_completed ?? 0),
-      created_at: row.created_at,
-      last_activity: row.last_activity ? new Date(row.last_activity).toISOString() : null
-    }));
-    res.json(formatted);
+    res.json({ needs_teacher: (await countTeachers(pool)) === 0 });
   } catch (err) {
-    const { code, message } = err as { code?: string; message?: string };
-    if (code === '42501') {
-      studentProgressPrivileges = { select: false, insert: false, update: false };
-      warnStudentProgress(`Skipping progress joins for teacher list due to permissions: ${message}`);
-      const { rows } = await pool.query(
-        `
-        SELECT 
-          u.id,
-          u.username,
-          u.display_name,
-          u.created_at,
-          u.updated_at
-        FROM srs.users u
-        WHERE u.user_type = 'student'
-        ORDER BY u.username
-        `
-      );
-      res.json(
-        rows.map(row => ({
-          id: row.id,
-          username: row.username,
-          display_name: row.display_name,
-          total_reviews: 0,
-          correct_reviews: 0,
-          cards_completed: 0,
-          created_at: row.created_at,
-          last_activity: row.updated_at ? new Date(row.updated_at).toISOString() : null
-        }))
-      );
-      return;
-    }
-    console.error('Failed to load teacher student list', err);
-    res.status(500).json({ error: 'Failed to load students' });
+    console.error('Failed to check setup status', err);
+    res.status(500).json({ error: 'Failed to check setup status' });
   }
 });
 
-app.get('/api/teacher/stats/:userId', async (req: Request, res: Response) => {
-  const userId = req.params.userId;
+app.post('/api/setup/teacher', async (req: Request, res: Response) => {
+  const parse = setupTeacherSchema.safeParse(req.body);
+  if (!parse.success) {
+    return res
+      .status(400)
+      .json({ error: parse.error.issues[0]?.message ?? 'Invalid teacher data' });
+  }
+  const { username, displayName, password } = parse.data;
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    // Serialize concurrent setup attempts so only one first teacher can win
+    await client.query(`SELECT pg_advisory_xact_lock(hashtext('srs.setup_teacher'))`);
+    if ((await countTeachers(client)) > 0) {
+      await client.query('ROLLBACK');
+      return res.status(403).json({ error: 'A teacher account already exists' });
+    }
+    // Teacher sign-in ignores case, so 'Smith' also rules out 'smith'
+    const existing = await client.query(
+      `SELECT 1 FROM srs.users WHERE username = $1 OR (user_type = 'teacher' AND LOWER(username) = LOWER($1))`,
+      [username]
+    );
+    if ((existing.rowCount ?? 0) > 0) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ error: 'Username already exists' });
+    }
+    const { rows } = await client.query<User>(
+      `INSERT INTO srs.users (username, display_name, user_type, password_hash)
+       VALUES ($1, $2, 'teacher', $3)
+       RETURNING id, username, display_name, user_type`,
+      [username, displayName, await hashSecret(password)]
+    );
+    await client.query('COMMIT');
+
+    const user = rows[0];
+    const { token, expiresAt } = await issueSession(user.id);
+    res.status(201).json({ user, token, expires_at: expiresAt.toISOString(), success: true });
+  } catch (err) {
+    await client.query('ROLLBACK');
+    console.error('Failed to create first teacher', err);
+    res.status(500).json({ error: 'Failed to create teacher' });
+  } finally {
+    client.release();
+  }
+});
+
+// Shared picture catalog for the login picker and teacher dashboard
+app.get('/api/pictures', (_req: Request, res: Response) => {
+  res.json({
+    pictures: PICTURE_CATALOG,
+    difficulties: Object.entries(PICTURE_DIFFICULTIES).map(([id, length]) => ({ id, length }))
+  });
+});
+
+app.use(auth);
+
+app.get('/api/session', (req: Request, res: Response) => {
+  const { user, sessionExpiresAt } = req as AuthedRequest;
+  res.json({ user, expires_at: sessionExpiresAt.toISOString() });
+});
+
+app.post('/api/logout', async (req: Request, res: Response) => {
+  const { sessionId } = req as AuthedRequest;
+  try {
+    await pool.query(
+      `UPDATE srs.sessions
+          SET revoked_at = NOW()
+        WHERE id = $1 AND revoked_at IS NULL`,
+      [sessionId]
+    );
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Failed to revoke session', err);
+    res.status(500).json({ error: 'Failed to log out' });
+  }
+});
+
+const requireTeacher: RequestHandler = (req: Request, res: Response, next: NextFunction): void => {
+  const { user } = req as AuthedRequest;
+  if (!user) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+  if (user.user_type !== 'teacher') {
+    res.status(403).json({ error: 'Teacher access required' });
+    return;
+  }
+  next();
+};
+
+const requireStudent: RequestHandler = (req: Request, res: Response, next: NextFunction): void => {
+  const { user } = req as AuthedRequest;
+  if (!user) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+  if (user.user_type !== 'student') {
+    res.status(403).json({ error: 'Student access required' });
+    return;
+  }
+  next();
+};
+
+type StudentAccess = 'owned' | 'missing' | 'forbidden';
+
+async function checkStudentAccess(
+  queryable: Queryable,
+  teacherId: string,
+  studentId: string,
+  userTypes: string[] = ['student']
+): Promise<StudentAccess> {
+  if (!/^[0-9a-fA-F-]{36}$/.test(studentId)) return 'missing';
+  const { rows } = await queryable.query<{ teacher_id: string | null }>(
+    `SELECT teacher_id
+       FROM srs.users
+      WHERE id = $1
+        AND user_type = ANY($2::text[])`,
+    [studentId, userTypes]
+  );
+  if (rows.length === 0) return 'missing';
+  return rows[0].teacher_id === teacherId ? 'owned' : 'forbidden';
+}
+
+type ClassAccess = StudentAccess;
+
+async function checkClassAccess(
+  queryable: Queryable,
+  teacherId: string,
+  classId: string
+): Promise<ClassAccess> {
+  if (!/^[0-9a-fA-F-]{36}$/.test(classId)) return 'missing';
+  const { rows } = await queryable.query<{ teacher_id: string }>(
+    `SELECT teacher_id FROM srs.classes WHERE id = $1`,
+    [classId]
+  );
+  if (rows.length === 0) return 'missing';
+  return rows[0].teacher_id === teacherId ? 'owned' : 'forbidden';
+}
+
+// Route guard for /api/teacher/* handlers that act on a single class
+function requireOwnedClass(param: string): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { userId } = req as AuthedRequest;
+    auditContext(res).classId = req.params[param];
+    try {
+      const access = await checkClassAccess(pool, userId, req.params[param]);
+      if (access === 'missing') {
+        res.status(404).json({ error: 'Class not found' });
+        return;
+      }
+      if (access === 'forbidden') {
+        res.status(403).json({ error: 'You do not have access to this class' });
+        return;
+      }
+      next();
+    } catch (err) {
+      console.error('Failed to verify class ownership', err);
+      res.status(500).json({ error: 'Failed to verify class access' });
+    }
+  };
+}
+
+// Route guard for /api/teacher/* handlers that act on a single student
+function requireOwnedStudent(param: string, userTypes?: string[]): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { userId } = req as AuthedRequest;
+    auditContext(res).studentId = req.params[param];
+    try {
+      const access = await checkStudentAccess(pool, userId, req.params[param], userTypes);
+      if (access === 'missing') {
+        res.status(404).json({ error: 'Student not found' });
+        return;
+      }
+      if (access === 'forbidden') {
+        res.status(403).json({ error: 'You do not have access to this student' });
+        return;
+      }
+      next();
+    } catch (err) {
+      console.error('Failed to verify student ownership', err);
+      res.status(500).json({ error: 'Failed to verify student access' });
+    }
+  };
+}
+
+app.use('/api/teacher', requireTeacher);
+
+// Handlers and guards fill this in on res.locals.audit; the audit middleware
+// reads it once the response has been sent.
+interface AuditContext {
+  studentId?: string;
+  classId?: string;
+  details?: Record<string, unknown>;
+}
+
+function auditContext(res: Response): AuditContext {
+  if (!res.locals.audit) res.locals.audit = {};
+  return res.locals.audit as AuditContext;
+}
+
+// Records every non-GET /api/teacher request after it finishes. Audit writes
+// never affect the response; if the table is missing or not writable we warn.
+const auditTeacherMutations: RequestHandler = (req: Request, res: Response, next: NextFunction) => {
+  if (req.method === 'GET' || req.method === 'HEAD' || req.method === 'OPTIONS') return next();
+
+  const { userId: actorId } = req as AuthedRequest;
+  const payload = auditPayload(req.body);
+  let responseBody: unknown;
+  const originalJson = res.json.bind(res);
+  res.json = (body: unknown) => {
+    responseBody = body;
+    return originalJson(body);
+  };
+
+  res.on('finish', () => {
+    const context = auditContext(res);
+    const routePath: string = req.route?.path ?? req.originalUrl.split('?')[0];
+    const routeKey = `${req.method} ${routePath}`;
+    pool
+      .query(
+        `INSERT INTO srs.audit_log (
+           actor_id, action, target_student_id, target_class_id, payload, outcome, status_code, details
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          actorId,
+          auditAction(req.method, routePath),
+          isUuid(context.studentId) ? context.studentId : null,
+          isUuid(context.classId) ? context.classId : null,
+          payload,
+          auditOutcome(res.statusCode),
+          res.statusCode,
+          { ...auditResponseSummary(responseBody), ...context.details }
+        ]
+      )
+      .catch(err => {
+        console.warn(`Failed to write audit log entry for ${routeKey}: ${(err as Error).message}`);
+      });
+  });
+  next();
+};
+
+app.use('/api/teacher', auditTeacherMutations);
+
+// Roster flag for students currently locked out of picture login
+const LOCKED_OUT_COLUMN = `EXISTS (
+        SELECT 1
+          FROM srs.login_throttle lt
+         WHERE lt.key = 'user:' || u.id::text
+           AND lt.locked_until > NOW()
+      ) AS locked_out`;
+
+// Teacher dashboard endpoints
+app.get('/api/teacher/students', async (req: Request, res: Response) => {
+  const { userId: teacherId } = req as AuthedRequest;
+
+  // Declared outside the try because the permissions fallback in the catch reuses them
+  const listParams: string[] = [teacherId];
+  let classFilter = '';
+  try {
+    if (typeof req.query.classId === 'string' && req.query.classId) {
+      const classId = req.query.classId;
+      const access = await checkClassAccess(pool, teacherId, classId);
+      if (access !== 'owned') {
+        return res
+          .status(access === 'missing' ? 404 : 403)
+          .json({ error: access === 'missing' ? 'Class not found' : 'You do not have access to this class' });
+      }
+      listParams.push(classId);
+      classFilter = `AND u.class_id = $${listParams.length}`;
+    }
+
+    const privileges = await ensureStudentProgressPrivileges();
+    if (!privileges.select) {
+      warnStudentProgress('student_progress read access not available; returning limited student list.');
+      const { rows } = await pool.query(
+        `
+        SELECT 
+          u.id,
+          u.username,
+          u.display_name,
+          u.class_id,
+          u.scheduler,
+          ${LOCKED_OUT_COLUMN},
+          u.created_at,
+          u.updated_at
+        FROM srs.users u
+        WHERE u.user_type = 'student'
+          AND u.teacher_id = $1
+          ${classFilter}
+        ORDER BY u.username
+        `,
+        listParams
+      );
+      res.json(
+        rows.map(row => ({
+          id: row.id,
+          username: row.username,
+          display_name: row.display_name,
+          class_id: row.class_id,
+          scheduler: row.scheduler,
+          locked_out: Boolean(row.locked_out),
+          total_reviews: 0,
+          correct_reviews: 0,
+          cards_completed: 0,
+          created_at: row.created_at,
+          last_activity: row.updated_at ? new Date(row.updated_at).toISOString() : null
+        }))
+      );
+      return;
+    }
+
+    const { rows } = await pool.query(
+      `
+      SELECT 
+        u.id,
+        u.username,
+        u.display_name,
+        u.class_id,
+        u.scheduler,
+        ${LOCKED_OUT_COLUMN},
+        u.created_at,
+        COALESCE(sp.total_reviews, 0) AS total_reviews,
+        COALESCE(sp.correct_reviews, 0) AS correct_reviews,
+        COALESCE(sp.cards_completed, 0) AS cards_completed,
+        COALESCE(
+          latest_review.latest_activity,
+          sp.updated_at,
+          u.updated_at
+        ) AS last_activity
+      FROM srs.users u
+      LEFT JOIN srs.student_progress sp ON sp.user_id = u.id
+      LEFT JOIN LATERAL (
+        SELECT MAX(r.created_at) AS latest_activity
+        FROM srs.reviews r
+        WHERE r.user_id = u.id
+      ) AS latest_review ON TRUE
+      WHERE u.user_type = 'student'
+        AND u.teacher_id = $1
+        ${classFilter}
+      ORDER BY u.username
+      `,
+      listParams
+    );
+    const formatted = rows.map(row => ({
+      id: row.id,
+      username: row.username,
+      display_name: row.display_name,
+      class_id: row.class_id,
+      scheduler: row.scheduler,
+      locked_out: Boolean(row.locked_out),
+      total_reviews: Number(row.total_reviews ?? 0),
+      correct_reviews: Number(row.correct_reviews ?? 0),
+      cards_completed: Number(row.cards_completed ?? 0),
+      created_at: row.created_at,
+      last_activity: row.last_activity ? new Date(row.last_activity).toISOString() : null
+    }));
+    res.json(formatted);
+  } catch (err) {
+    const { code, message } = err as { code?: string; message?: string };
+    if (code === '42501') {
+      studentProgressPrivileges = { select: false, insert: false, update: false };
+      warnStudentProgress(`Skipping progress joins for teacher list due to permissions: ${message}`);
+      const { rows } = await pool.query(
+        `
+        SELECT 
+          u.id,
+          u.username,
+          u.display_name,
+          u.class_id,
+          u.scheduler,
+          ${LOCKED_OUT_COLUMN},
+          u.created_at,
+          u.updated_at
+        FROM srs.users u
+        WHERE u.user_type = 'student'
+          AND u.teacher_id = $1
+          ${classFilter}
+        ORDER BY u.username
+        `,
+        listParams
+      );
+      res.json(
+        rows.map(row => ({
+          id: row.id,
+          username: row.username,
+          display_name: row.display_name,
+          class_id: row.class_id,
+          scheduler: row.scheduler,
+          locked_out: Boolean(row.locked_out),
+          total_reviews: 0,
+          correct_reviews: 0,
+          cards_completed: 0,
+          created_at: row.created_at,
+          last_activity: row.updated_at ? new Date(row.updated_at).toISOString() : null
+        }))
+      );
+      return;
+    }
+    console.error('Failed to load teacher student list', err);
+    res.status(500).json({ error: 'Failed to load students' });
+  }
+});
+
+// No 0/O or 1/I/L, so a code copied off a printed card cannot be misread.
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const JOIN_CODE_LENGTH = 6;
+const JOIN_CODE_ATTEMPTS = 5;
+
+function generateJoinCode(): string {
+  return Array.from(
+    { length: JOIN_CODE_LENGTH },
+    () => JOIN_CODE_ALPHABET[crypto.randomInt(JOIN_CODE_ALPHABET.length)]
+  ).join('');
+}
+
+function normalizeJoinCode(raw: string): string {
+  return raw.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function isJoinCodeConflict(err: unknown): boolean {
+  const { code, constraint } = err as { code?: string; constraint?: string };
+  return code === '23505' && (constraint ?? '').includes('join_code');
+}
+
+// Runs a class insert/update with a new random join code, retrying on the rare collision.
+async function withFreshJoinCode(
+  write: (joinCode: string) => Promise<{ rows: ClassRow[] }>
+): Promise<ClassRow> {
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      const { rows } = await write(generateJoinCode());
+      return rows[0];
+    } catch (err) {
+      if (!isJoinCodeConflict(err) || attempt >= JOIN_CODE_ATTEMPTS) throw err;
+    }
+  }
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const MAX_LEARNING_STEPS = 10;
+
+// Minutes; null falls back to the server defaults and [] turns the steps off
+const learningStepsSchema = z
+  .array(z.number().int().min(1).max(MINUTES_PER_DAY - 1))
+  .max(MAX_LEARNING_STEPS)
+  .nullable()
+  .optional();
+
+const classSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  scheduler: z.enum(SCHEDULER_NAMES).optional(),
+  learningSteps: learningStepsSchema,
+  relearningSteps: learningStepsSchema,
+  // null falls back to the server default
+  newCardsPerDay: z.number().int().min(0).max(144).nullable().optional(),
+  timezone: z
+    .string()
+    .trim()
+    .refine(isValidTimeZone, { message: 'Unknown timezone' })
+    .nullable()
+    .optional(),
+  dayRolloverHour: z.number().int().min(0).max(23).nullable().optional(),
+  answerMode: z.enum(ANSWER_MODES).optional()
+});
+
+const updateClassSchema = classSchema
+  .partial()
+  .refine(data => Object.values(data).some(value => value !== undefined), {
+    message: 'Nothing to update'
+  });
+
+interface ClassRow {
+  id: string;
+  name: string;
+  join_code: string;
+  scheduler: SchedulerName;
+  learning_steps: number[] | null;
+  relearning_steps: number[] | null;
+  new_cards_per_day: number | null;
+  timezone: string | null;
+  day_rollover_hour: number | null;
+  answer_mode: AnswerMode;
+  student_count: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Every column formatClass reads apart from student_count, for tables aliased as c
+const CLASS_COLUMNS = `c.id, c.name, c.join_code, c.scheduler, c.learning_steps, c.relearning_steps,
+       c.new_cards_per_day, c.timezone, c.day_rollover_hour, c.answer_mode,
+       c.created_at, c.updated_at`;
+
+function formatClass(row: ClassRow) {
+  return {
+    id: row.id,
+    name: row.name,
+    join_code: row.join_code,
+    scheduler: row.scheduler,
+    learning_steps: row.learning_steps,
+    relearning_steps: row.relearning_steps,
+    new_cards_per_day: row.new_cards_per_day,
+    timezone: row.timezone,
+    day_rollover_hour: row.day_rollover_hour,
+    answer_mode: row.answer_mode,
+    student_count: Number(row.student_count ?? 0),
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  };
+}
+
+app.get('/api/teacher/classes', async (req: Request, res: Response) => {
+  const { userId: teacherId } = req as AuthedRequest;
+  try {
+    const { rows } = await pool.query<ClassRow>(
+      `SELECT ${CLASS_COLUMNS},
+              COUNT(u.id) FILTER (WHERE u.user_type = 'student') AS student_count
+         FROM srs.classes c
+         LEFT JOIN srs.users u ON u.class_id = c.id
+        WHERE c.teacher_id = $1
+        GROUP BY c.id
+        ORDER BY c.name`,
+      [teacherId]
+    );
+    res.json(rows.map(formatClass));
+  } catch (err) {
+    console.error('Failed to load classes', err);
+    res.status(500).json({ error: 'Failed to load classes' });
+  }
+});
+
+app.post('/api/teacher/classes', async (req: Request, res: Response) => {
+  const parse = classSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: 'Invalid class data' });
+  const { userId: teacherId } = req as AuthedRequest;
+
+  try {
+    const row = await withFreshJoinCode(joinCode =>
+      pool.query<ClassRow>(
+        `INSERT INTO srs.classes AS c
+           (teacher_id, name, join_code, scheduler, learning_steps, relearning_steps, new_cards_per_day,
+            timezone, day_rollover_hour, answer_mode)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         RETURNING ${CLASS_COLUMNS}, 0 AS student_count`,
+        [
+          teacherId,
+          parse.data.name,
+          joinCode,
+          parse.data.scheduler ?? DEFAULT_SCHEDULER,
+          parse.data.learningSteps ?? null,
+          parse.data.relearningSteps ?? null,
+          parse.data.newCardsPerDay ?? null,
+          parse.data.timezone ?? null,
+          parse.data.dayRolloverHour ?? null,
+          parse.data.answerMode ?? DEFAULT_ANSWER_MODE
+        ]
+      )
+    );
+    auditContext(res).classId = row.id;
+    res.status(201).json(formatClass(row));
+  } catch (err) {
+    if ((err as { code?: string }).code === '23505') {
+      return res.status(409).json({ error: 'You already have a class with that name' });
+    }
+    console.error('Failed to create class', err);
+    res.status(500).json({ error: 'Failed to create class' });
+  }
+});
+
+app.patch('/api/teacher/classes/:classId', requireOwnedClass('classId'), async (req: Request, res: Response) => {
+  const parse = updateClassSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: 'Invalid class data' });
+  const {
+    name,
+    scheduler,
+    learningSteps,
+    relearningSteps,
+    newCardsPerDay,
+    timezone,
+    dayRolloverHour,
+    answerMode
+  } = parse.data;
+
+  const assignments: string[] = [];
+  const values: unknown[] = [];
+  const assign = (column: string, value: unknown) => {
+    values.push(value);
+    assignments.push(`${column} = $${values.length}`);
+  };
+  if (name !== undefined) assign('name', name);
+  if (scheduler !== undefined) assign('scheduler', scheduler);
+  if (learningSteps !== undefined) assign('learning_steps', learningSteps);
+  if (relearningSteps !== undefined) assign('relearning_steps', relearningSteps);
+  if (newCardsPerDay !== undefined) assign('new_cards_per_day', newCardsPerDay);
+  if (timezone !== undefined) assign('timezone', timezone);
+  if (dayRolloverHour !== undefined) assign('day_rollover_hour', dayRolloverHour);
+  if (answerMode !== undefined) assign('answer_mode', answerMode);
+  values.push(req.params.classId);
+
+  try {
+    const { rows } = await pool.query<ClassRow>(
+      `UPDATE srs.classes c
+          SET ${assignments.join(', ')},
+              updated_at = NOW()
+        WHERE c.id = $${values.length}
+        RETURNING ${CLASS_COLUMNS},
+                  (SELECT COUNT(*) FROM srs.users u
+                    WHERE u.class_id = c.id AND u.user_type = 'student') AS student_count`,
+      values
+    );
+    res.json(formatClass(rows[0]));
+  } catch (err) {
+    if ((err as { code?: string }).code === '23505') {
+      return res.status(409).json({ error: 'You already have a class with that name' });
+    }
+    console.error('Failed to update class', err);
+    res.status(500).json({ error: 'Failed to update class' });
+  }
+});
+
+app.post('/api/teacher/classes/:classId/join-code', requireOwnedClass('classId'), async (req: Request, res: Response) => {
+  try {
+    const row = await withFreshJoinCode(joinCode =>
+      pool.query<ClassRow>(
+        `UPDATE srs.classes c
+            SET join_code = $1,
+                updated_at = NOW()
+          WHERE c.id = $2
+          RETURNING ${CLASS_COLUMNS},
+                    (SELECT COUNT(*) FROM srs.users u
+                      WHERE u.class_id = c.id AND u.user_type = 'student') AS student_count`,
+        [joinCode, req.params.classId]
+      )
+    );
+    res.json(formatClass(row));
+  } catch (err) {
+    console.error('Failed to regenerate join code', err);
+    res.status(500).json({ error: 'Failed to regenerate join code' });
+  }
+});
+
+// Deleting a class keeps its students; they become unassigned (class_id is SET NULL).
+app.delete('/api/teacher/classes/:classId', requireOwnedClass('classId'), async (req: Request, res: Response) => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    // Lock the class so no student can be moved into it while it is checked
+    await client.query(`SELECT 1 FROM srs.classes WHERE id = $1 FOR UPDATE`, [req.params.classId]);
+    // Unassigned students cannot sign in, so a class is only deleted once empty.
+    // Archived students keep their class for a restore; the delete clears it.
+    const { rows } = await client.query<{ students: string }>(
+      `SELECT COUNT(*) AS students FROM srs.users WHERE class_id = $1 AND user_type = 'student'`,
+      [req.params.classId]
+    );
+    const students = Number(rows[0].students);
+    if (students > 0) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({
+        error: `Move or delete this class's ${students} student${students === 1 ? '' : 's'} before deleting it`,
+        students
+      });
+    }
+    await client.query(
+      `UPDATE srs.users SET class_id = NULL, updated_at = NOW() WHERE class_id = $1`,
+      [req.params.classId]
+    );
+    await client.query(`DELETE FROM srs.classes WHERE id = $1`, [req.params.classId]);
+    await client.query('COMMIT');
+    res.json({ success: true });
+  } catch (err) {
+    await client.query('ROLLBACK');
+    console.error('Failed to delete class', err);
+    res.status(500).json({ error: 'Failed to delete class' });
+  } finally {
+    client.release();
+  }
+});
+
+app.get('/api/teacher/classes/:classId/stats', requireOwnedClass('classId'), async (req: Request, res: Response) => {
+  const { classId } = req.params;
+  const client = await pool.connect();
+  try {
+    const countResult = await client.query<{ student_count: string }>(
+      `SELECT COUNT(*) AS student_count
+         FROM srs.users
+        WHERE class_id = $1 AND user_type = 'student'`,
+      [classId]
+    );
+    const studentCount = Number(countResult.rows[0]?.student_count ?? 0);
+
+    const reviewState = await fetchReviewsColumnState(client);
+    if (!reviewState.hasGrade && !reviewState.hasRating) {
+      res.json({
+        student_count: studentCount,
+        stats: { total_reviews: 0, correct_reviews: 0, active_students: 0 },
+        recentReviews: []
+      });
+      return;
+    }
+
+    const correctCondition = reviewState.hasGrade
+      ? "r.grade IN ('good', 'easy')"
+      : buildRatingCorrectCondition(reviewState);
+
+    const totalsResult = await client.query(
+      `SELECT COUNT(*) AS total_reviews,
+              SUM(CASE WHEN ${correctCondition} THEN 1 ELSE 0 END) AS correct_reviews,
+              COUNT(DISTINCT r.user_id) AS active_students
+         FROM srs.reviews r
+         INNER JOIN srs.users u ON u.id = r.user_id
+        WHERE u.class_id = $1 AND u.user_type = 'student'`,
+      [classId]
+    );
+    const boundary = await fetchClassDayBoundary(client, classId);
+    const recentResult = await client.query(
+      `SELECT ${dayStartSql('r.created_at', '$2', '$3')} AS review_day,
+              COUNT(*) AS reviews_count,
+              SUM(CASE WHEN ${correctCondition} THEN 1 ELSE 0 END) AS correct_count
+         FROM srs.reviews r
+         INNER JOIN srs.users u ON u.id = r.user_id
+        WHERE u.class_id = $1
+          AND u.user_type = 'student'
+          AND r.created_at >= $4
+        GROUP BY review_day
+        ORDER BY review_day DESC
+        LIMIT ${RECENT_REVIEW_DAYS}`,
+      [classId, boundary.timeZone, boundary.rolloverHour, recentReviewsSince(boundary)]
+    );
+
+    const totals = totalsResult.rows[0] ?? {};
+    res.json({
+      student_count: studentCount,
+      stats: {
+        total_reviews: Number(totals.total_reviews ?? 0),
+        correct_reviews: Number(totals.correct_reviews ?? 0),
+        active_students: Number(totals.active_students ?? 0)
+      },
+      recentReviews: recentResult.rows
+        .map(row => ({
+          date: formatReviewDay(row.review_day),
+          reviews_count: Number(row.reviews_count),
+          correct_count: Number(row.correct_count ?? 0)
+        }))
+        .reverse()
+    });
+  } catch (err) {
+    const { code, message } = err as { code?: string; message?: string };
+    if (code === '42501') {
+      console.warn(`Skipping class stats due to permissions: ${message}`);
+      res.json({
+        student_count: 0,
+        stats: { total_reviews: 0, correct_reviews: 0, active_students: 0 },
+        recentReviews: []
+      });
+      return;
+    }
+    console.error('Failed to load class stats', err);
+    res.status(500).json({ error: 'Failed to load class stats' });
+  } finally {
+    client.release();
+  }
+});
+
+async function fetchAuditEntries(teacherId: string, query: AuditQuery, limit: number) {
+  const { where, params } = auditFilter(teacherId, query);
+  const { rows } = await pool.query(
+    `SELECT a.id, a.action, a.target_student_id, s.display_name AS target_student_name,
+            a.target_class_id, c.name AS target_class_name,
+            a.payload, a.outcome, a.status_code, a.details, a.created_at
+       FROM srs.audit_log a
+       LEFT JOIN srs.users s ON s.id = a.target_student_id
+       LEFT JOIN srs.classes c ON c.id = a.target_class_id
+      WHERE ${where}
+      ORDER BY a.created_at DESC, a.id DESC
+      LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, limit, query.offset]
+  );
+  return rows.map(row => ({ ...row, id: Number(row.id) }));
+}
+
+app.get('/api/teacher/audit', async (req: Request, res: Response) => {
+  const parse = auditQuerySchema.safeParse(req.query);
+  if (!parse.success) {
+    return res.status(400).json({ error: parse.error.issues[0]?.message ?? 'Invalid audit filter' });
+  }
+  const { userId: teacherId } = req as AuthedRequest;
+  try {
+    const { where, params } = auditFilter(teacherId, parse.data);
+    const [entries, total, actions] = await Promise.all([
+      fetchAuditEntries(teacherId, parse.data, parse.data.limit),
+      pool.query<{ count: string }>(`SELECT COUNT(*) AS count FROM srs.audit_log a WHERE ${where}`, params),
+      pool.query<{ action: string }>(
+        `SELECT DISTINCT action FROM srs.audit_log WHERE actor_id = $1 ORDER BY action`,
+        [teacherId]
+      )
+    ]);
+    res.json({
+      entries,
+      total: Number(total.rows[0]?.count ?? 0),
+      actions: actions.rows.map(row => row.action)
+    });
+  } catch (err) {
+    console.error('Failed to load audit log', err);
+    res.status(500).json({ error: 'Failed to load audit log' });
+  }
+});
+
+app.get('/api/teacher/audit/export', async (req: Request, res: Response) => {
+  const parse = auditQuerySchema.safeParse(req.query);
+  if (!parse.success) {
+    return res.status(400).json({ error: parse.error.issues[0]?.message ?? 'Invalid audit filter' });
+  }
+  const { userId: teacherId } = req as AuthedRequest;
+  try {
+    const entries = await fetchAuditEntries(teacherId, { ...parse.data, offset: 0 }, AUDIT_EXPORT_LIMIT);
+    const stamp = new Date().toISOString().slice(0, 10);
+    res.setHeader('Content-Disposition', `attachment; filename="audit-log-${stamp}.json"`);
+    res.json({ exported_at: new Date().toISOString(), filters: parse.data, entries });
+  } catch (err) {
+    console.error('Failed to export audit log', err);
+    res.status(500).json({ error: 'Failed to export audit log' });
+  }
+});
+
+app.get('/api/teacher/stats/:userId', requireOwnedStudent('userId'), async (req: Request, res: Response) => {
+  const userId = req.params.userId;
+  const client = await pool.connect();
+  try {
+    const privileges = await ensureStudentProgressPrivileges(client);
+    if (!privileges.select) {
+      warnStudentProgress('student_progress read access not available; returning empty stats.');
+      res.json({
+        stats: { total_reviews: 0, correct_reviews: 0, cards_completed: 0 },
+        recentReviews: []
+      });
+      return;
+    }
+
+    const statsResult = await client.query(
+      `
+      SELECT 
+        COALESCE(total_reviews, 0) AS total_reviews,
+        COALESCE(correct_reviews, 0) AS correct_reviews,
+        COALESCE(cards_completed, 0) AS cards_completed
+      FROM srs.student_progress
+      WHERE user_id = $1
+      `,
+      [userId]
+    );
+
+    const statsRow = statsResult.rows[0];
+    const stats = {
+      total_reviews: Number(statsRow?.total_reviews ?? 0),
+      correct_reviews: Number(statsRow?.correct_reviews ?? 0),
+      cards_completed: Number(statsRow?.cards_completed ?? 0)
+    };
+
+    const reviewState = await fetchReviewsColumnState(client);
+    let recentRows: Array<{ review_day: unknown; reviews_count: number; correct_count: number | null }> = [];
+
+    if (reviewState.hasGrade || reviewState.hasRating) {
+      const correctCondition = reviewState.hasGrade
+        ? "r.grade IN ('good', 'easy')"
+        : buildRatingCorrectCondition(reviewState);
+
+      const boundary = await fetchStudentDayBoundary(client, userId);
+      const recentResult = await client.query(
+        `
+        SELECT 
+          ${dayStartSql('r.created_at', '$2', '$3')} AS review_day,
+          COUNT(*) AS reviews_count,
+          SUM(CASE WHEN ${correctCondition} THEN 1 ELSE 0 END) AS correct_count
+        FROM srs.reviews r
+        WHERE r.user_id = $1
+          AND r.created_at >= $4
+        GROUP BY review_day
+        ORDER BY review_day DESC
+        LIMIT ${RECENT_REVIEW_DAYS}
+        `,
+        [userId, boundary.timeZone, boundary.rolloverHour, recentReviewsSince(boundary)]
+      );
+
+      recentRows = recentResult.rows as Array<{
+        review_day: unknown;
+        reviews_count: number;
+        correct_count: number | null;
+      }>;
+    }
+
+    res.json({
+      stats,
+      recentReviews: recentRows
+        .map(row => ({
+          date: formatReviewDay(row.review_day),
+          reviews_count: Number(row.reviews_count),
+          correct_count: Number(row.correct_count ?? 0)
+        }))
+        .reverse()
+    });
+  } catch (err) {
+    const { code, message } = err as { code?: string; message?: string };
+    if (code === '42501') {
+      warnStudentProgress(`Skipping detailed teacher stats due to permissions: ${message}`);
+      studentProgressPrivileges = { select: false, insert: false, update: false };
+      res.json({
+        stats: { total_reviews: 0, correct_reviews: 0, cards_completed: 0 },
+        recentReviews: []
+      });
+    } else {
+      console.error('Failed to load teacher stats', err);
+      res.status(500).json({ error: 'Failed to load stats' });
+    }
+  } finally {
+    client.release();
+  }
+});
+
+const PRIVILEGE_DENIED = Symbol('privilege denied');
+
+// Runs one step of a larger transaction under a savepoint. A permission error
+// (42501) rolls back just that step and returns PRIVILEGE_DENIED so the caller
+// can try a fallback; any other error propagates.
+async function runWithPrivilegeSavepoint<T>(
+  client: PoolClient,
+  step: () => Promise<T>
+): Promise<T | typeof PRIVILEGE_DENIED> {
+  await client.query('SAVEPOINT privilege_step');
+  try {
+    const result = await step();
+    await client.query('RELEASE SAVEPOINT privilege_step');
+    return result;
+  } catch (err) {
+    if ((err as { code?: string }).code !== '42501') throw err;
+    await client.query('ROLLBACK TO SAVEPOINT privilege_step');
+    return PRIVILEGE_DENIED;
+  }
+}
+
+// Resets the student's cards without deleting them (see resetCardStateSql); the
+// clear's fallback when the role may UPDATE but not DELETE/INSERT.
+async function resetCardStateInPlace(
+  client: PoolClient,
+  userId: string,
+  reintroduce: boolean,
+  extraWhere = '',
+  extraParams: unknown[] = []
+) {
+  const hasUpdatedAt = await doesCardStateHaveUpdatedAt(client);
+  return client.query(resetCardStateSql(reintroduce, hasUpdatedAt, extraWhere), [userId, ...extraParams]);
+}
+
+// Wipes a student's history: deletes their reviews, zeroes their progress
+// counters and rebuilds card_state. All or nothing: if a step has neither
+// privileges nor a fallback, the whole clear is rolled back and reported.
+app.post('/api/teacher/clear/:userId', requireOwnedStudent('userId'), async (req: Request, res: Response) => {
+  const { userId } = req.params;
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const missingPrivileges: string[] = [];
+
+    const reviews = await runWithPrivilegeSavepoint(client, () =>
+      client.query(`DELETE FROM srs.reviews WHERE user_id = $1`, [userId])
+    );
+    if (reviews === PRIVILEGE_DENIED) missingPrivileges.push('srs.reviews (DELETE)');
+
+    const progress = await runWithPrivilegeSavepoint(client, () =>
+      client.query(
+        `INSERT INTO srs.student_progress AS sp (user_id, total_reviews, correct_reviews, cards_completed)
+         VALUES ($1, 0, 0, 0)
+         ON CONFLICT (user_id) DO UPDATE
+           SET total_reviews = 0,
+               correct_reviews = 0,
+               cards_completed = 0,
+               updated_at = NOW()`,
+        [userId]
+      )
+    );
+    if (progress === PRIVILEGE_DENIED) missingPrivileges.push('srs.student_progress (INSERT/UPDATE)');
+
+    let cardState: ClearedCardState | null = null;
+    const reseeded = await runWithPrivilegeSavepoint(client, async () => {
+      await client.query(`DELETE FROM srs.card_state WHERE user_id = $1`, [userId]);
+      return client.query(
+        `INSERT INTO srs.card_state (user_id, card_id, due_at, interval_days, ease_factor, reps)
+         SELECT $1, c.id, NOW(), 0, 2.5, 0
+           FROM srs.cards c`,
+        [userId]
+      );
+    });
+    if (reseeded !== PRIVILEGE_DENIED) {
+      cardState = { mode: 'reseeded', cards: reseeded.rowCount ?? 0 };
+    } else {
+      const reset = await runWithPrivilegeSavepoint(client, () => resetCardStateInPlace(client, userId, true));
+      if (reset === PRIVILEGE_DENIED) {
+        missingPrivileges.push('srs.card_state (DELETE/INSERT or UPDATE)');
+      } else {
+        cardState = { mode: 'reset', cards: reset.rowCount ?? 0 };
+      }
+    }
+
+    if (missingPrivileges.length > 0 || reviews === PRIVILEGE_DENIED || !cardState) {
+      await client.query('ROLLBACK');
+      console.warn(`Clear for ${userId} rolled back; missing privileges on ${missingPrivileges.join(', ')}`);
+      return res.status(403).json({
+        error: 'Insufficient database privileges to clear this student. Nothing was changed.',
+        missing_privileges: missingPrivileges
+      });
+    }
+
+    await client.query('COMMIT');
+    const reviewsDeleted = reviews.rowCount ?? 0;
+    res.json({
+      success: true,
+      cleared: {
+        reviews_deleted: reviewsDeleted,
+        progress_reset: true,
+        card_state: cardState
+      },
+      message: clearStudentMessage(reviewsDeleted, cardState)
+    });
+  } catch (err) {
+    await client.query('ROLLBACK');
+    console.error('Failed to clear student data', err);
+    res.status(500).json({ error: 'Failed to clear student data' });
+  } finally {
+    client.release();
+  }
+});
+
+// Puts the scoped cards back to "new, due now". Review history and progress
+// counters are kept, so the teacher can still see how the student did before.
+app.post('/api/teacher/reset-srs/:userId', requireOwnedStudent('userId'), async (req: Request, res: Response) => {
+  const parse = resetSrsSchema.safeParse(req.body ?? {});
+  if (!parse.success) {
+    return res.status(400).json({ error: parse.error.issues[0]?.message ?? 'Invalid reset scope' });
+  }
+  const { scope, reintroduce } = parse.data;
+  const { userId } = req.params;
+
+  const client = await pool.connect();
+  try {
+    const filter = resetScopeFilter(scope);
+    const result = await resetCardStateInPlace(client, userId, reintroduce, filter.where, filter.params);
+    const cardsReset = result.rowCount ?? 0;
+    res.json({
+      success: true,
+      scope,
+      reintroduce,
+      cards_reset: cardsReset,
+      message: resetSrsMessage(cardsReset, scope, reintroduce)
+    });
+  } catch (err) {
+    if ((err as { code?: string }).code === '42501') {
+      return res
+        .status(403)
+        .json({ error: 'Insufficient database privileges to reset card scheduling.' });
+    }
+    console.error('Failed to reset SRS state', err);
+    res.status(500).json({ error: 'Failed to reset SRS state' });
+  } finally {
+    client.release();
+  }
+});
+
+// Interval a teacher's "known" override pushes a fact out to
+const KNOWN_OVERRIDE_INTERVAL_DAYS = 180;
+
+app.get('/api/teacher/students/:studentId/cards', requireOwnedStudent('studentId'), async (req: Request, res: Response) => {
+  const { studentId } = req.params;
+  const client = await pool.connect();
+  try {
+    const reviewState = await fetchReviewsColumnState(client);
+    const hasReviewLog = reviewState.hasGrade || reviewState.hasRating;
+    const correctCondition = reviewState.hasGrade
+      ? "r.grade IN ('good', 'easy')"
+      : buildRatingCorrectCondition(reviewState);
+
+    const reviewJoin = hasReviewLog
+      ? `LEFT JOIN (
+           SELECT r.card_id,
+                  COUNT(*) AS review_count,
+                  SUM(CASE WHEN ${correctCondition} THEN 1 ELSE 0 END) AS correct_count
+             FROM srs.reviews r
+            WHERE r.user_id = $1
+            GROUP BY r.card_id
+         ) rv ON rv.card_id = cs.card_id`
+      : '';
+
+    const { rows } = await client.query(
+      `SELECT cs.id AS card_state_id,
+              c.id AS card_id,
+              c.front,
+              c.back,
+              cs.due_at,
+              cs.interval_days,
+              cs.ease_factor::float,
+              cs.reps,
+              cs.last_reviewed_at,
+              cs.learning_step,
+              cs.introduced_at,
+              cs.suspended_at,
+              ${hasReviewLog ? 'COALESCE(rv.review_count, 0)' : '0'} AS review_count,
+              ${hasReviewLog ? 'COALESCE(rv.correct_count, 0)' : '0'} AS correct_count
+         FROM srs.card_state cs
+         INNER JOIN srs.cards c ON c.id = cs.card_id
+         ${reviewJoin}
+        WHERE cs.user_id = $1
+        ORDER BY c.id`,
+      [studentId]
+    );
+
+    res.json(
+      rows.map(row => ({
+        card_state_id: row.card_state_id,
+        card_id: row.card_id,
+        front: row.front,
+        back: row.back,
+        due_at: row.due_at,
+        interval_days: row.interval_days,
+        ease_factor: row.ease_factor,
+        reps: row.reps,
+        last_reviewed_at: row.last_reviewed_at,
+        learning_step: row.learning_step,
+        introduced_at: row.introduced_at,
+        suspended: row.suspended_at !== null,
+        review_count: Number(row.review_count),
+        correct_count: Number(row.correct_count)
+      }))
+    );
+  } catch (err) {
+    const { code, message } = err as { code?: string; message?: string };
+    if (code === '42501') {
+      console.warn(`Unable to load student cards due to permissions: ${message}`);
+      return res.status(403).json({ error: 'Insufficient database privileges to read card state.' });
+    }
+    console.error('Failed to load student cards', err);
+    res.status(500).json({ error: 'Failed to load student cards' });
+  } finally {
+    client.release();
+  }
+});
+
+const cardOverrideSchema = z.object({
+  action: z.enum(['known', 'due', 'suspend', 'unsuspend']),
+  cardIds: z.array(z.number().int().positive()).min(1).max(200)
+});
+
+type CardOverrideAction = z.infer<typeof cardOverrideSchema>['action'];
+
+const CARD_OVERRIDE_UPDATES: Record<CardOverrideAction, string> = {
+  // Push far out as if the student had answered it correctly many times
+  known: `due_at = NOW() + make_interval(days => ${KNOWN_OVERRIDE_INTERVAL_DAYS}),
+          interval_days = ${KNOWN_OVERRIDE_INTERVAL_DAYS},
+          reps = GREATEST(reps, 3),
+          scheduler_state = NULL,
+          learning_step = NULL,
+          introduced_at = COALESCE(introduced_at, NOW())`,
+  // A new card made due by the teacher is served even when today's new-card
+  // limit is used up, but it counts as introduced today toward that limit
+  due: 'due_at = NOW(), introduced_at = COALESCE(introduced_at, NOW())',
+  suspend: 'suspended_at = COALESCE(suspended_at, NOW())',
+  unsuspend: 'suspended_at = NULL'
+};
+
+const CARD_OVERRIDE_MESSAGES: Record<CardOverrideAction, string> = {
+  known: 'marked as known',
+  due: 'made due now',
+  suspend: 'suspended',
+  unsuspend: 'unsuspended'
+};
+
+app.post(
+  '/api/teacher/students/:studentId/cards/override',
+  requireOwnedStudent('studentId'),
+  async (req: Request, res: Response) => {
+    const parse = cardOverrideSchema.safeParse(req.body);
+    if (!parse.success) {
+      return res.status(400).json({ error: parse.error.issues[0]?.message ?? 'Invalid override' });
+    }
+    const { action, cardIds } = parse.data;
+    const { studentId } = req.params;
+
+    try {
+      const hasUpdatedAt = await doesCardStateHaveUpdatedAt();
+      const result = await pool.query(
+        `UPDATE srs.card_state
+            SET ${CARD_OVERRIDE_UPDATES[action]}
+                ${hasUpdatedAt ? ', updated_at = NOW()' : ''}
+          WHERE user_id = $1
+            AND card_id = ANY($2::int[])`,
+        [studentId, cardIds]
+      );
+      const updated = result.rowCount ?? 0;
+      res.json({
+        success: true,
+        action,
+        cards_updated: updated,
+        message: `${updated} card${updated === 1 ? '' : 's'} ${CARD_OVERRIDE_MESSAGES[action]}.`
+      });
+    } catch (err) {
+      if ((err as { code?: string }).code === '42501') {
+        return res
+          .status(403)
+          .json({ error: 'Insufficient database privileges to change card scheduling.' });
+      }
+      console.error('Failed to apply card override', err);
+      res.status(500).json({ error: 'Failed to update cards' });
+    }
+  }
+);
+
+const MAX_FORECAST_DAYS = 90;
+
+const forecastQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(MAX_FORECAST_DAYS).default(30)
+});
+
+// Reviews falling due on each school day, counted the same way the load balancer sees them
+async function fetchDueCountsByDay(
+  queryable: Queryable,
+  userId: string,
+  boundary: DayBoundary,
+  until: Date,
+  excludeCardStateId: string | null = null
+): Promise<Map<string, number>> {
+  const { rows } = await queryable.query<{ due_day: string; due_count: string }>(
+    `SELECT ${dayKeySql('due_at', '$4', '$5')} AS due_day, COUNT(*) AS due_count
+       FROM srs.card_state
+      WHERE user_id = $1
+        AND due_at < $2
+        AND ($3::uuid IS NULL OR id <> $3::uuid)
+        AND introduced_at IS NOT NULL
+        AND suspended_at IS NULL
+      GROUP BY due_day`,
+    [userId, until, excludeCardStateId, boundary.timeZone, boundary.rolloverHour]
+  );
+  return new Map(rows.map(row => [row.due_day, Number(row.due_count)]));
+}
+
+app.get(
+  '/api/teacher/students/:studentId/forecast',
+  requireOwnedStudent('studentId'),
+  async (req: Request, res: Response) => {
+    const parse = forecastQuerySchema.safeParse(req.query);
+    if (!parse.success) {
+      return res.status(400).json({ error: parse.error.issues[0]?.message ?? 'Invalid forecast range' });
+    }
+    const { days } = parse.data;
+    const { studentId } = req.params;
+
+    try {
+      const boundary = await fetchStudentDayBoundary(pool, studentId);
+      const todayKey = dayKey(new Date(), boundary);
+      const counts = await fetchDueCountsByDay(
+        pool,
+        studentId,
+        boundary,
+        dayStart(addDaysToKey(todayKey, days), boundary)
+      );
+      let overdue = 0;
+      for (const [day, count] of counts) {
+        if (day < todayKey) overdue += count;
+      }
+      const forecast = Array.from({ length: days }, (_, offset) => {
+        const date = addDaysToKey(todayKey, offset);
+        return { date, due: counts.get(date) ?? 0 };
+      });
+      const dueCounts = forecast.map(day => day.due);
+      res.json({
+        student_id: studentId,
+        overdue,
+        forecast,
+        peak: Math.max(...dueCounts),
+        average: dueCounts.reduce((sum, count) => sum + count, 0) / days
+      });
+    } catch (err) {
+      console.error('Failed to build review forecast', err);
+      res.status(500).json({ error: 'Failed to load forecast' });
+    }
+  }
+);
+
+// Students whose reviews a fluency or misconception report covers
+interface ReviewReportScope {
+  id: string;
+  studentsSql: string;
+}
+
+function studentReportScope(studentId: string): ReviewReportScope {
+  return { id: studentId, studentsSql: `SELECT $1::uuid` };
+}
+
+function classReportScope(classId: string): ReviewReportScope {
+  return {
+    id: classId,
+    studentsSql: `SELECT id FROM srs.users WHERE class_id = $1 AND user_type = 'student'`
+  };
+}
+
+const reviewReportQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30)
+});
+
+const MAX_MISCONCEPTIONS = 50;
+
+// Whether a review was right: the app's own check where it made one, otherwise the grade
+function reviewCorrectSql(state: ReviewsColumnState): string {
+  const byGrade = state.hasGrade ? "r.grade IN ('good', 'easy')" : buildRatingCorrectCondition(state);
+  return state.hasCorrect ? `COALESCE(r.correct, ${byGrade})` : `(${byGrade})`;
+}
+
+// Accuracy and median correct response time per fact, for spotting facts that
+// are right but still slow to come
+async function sendFluencyReport(req: Request, res: Response, scope: ReviewReportScope) {
+  const parse = reviewReportQuerySchema.safeParse(req.query);
+  if (!parse.success) {
+    return res.status(400).json({ error: parse.error.issues[0]?.message ?? 'Invalid report range' });
+  }
+  const { days } = parse.data;
+  const client = await pool.connect();
+  try {
+    const state = await fetchReviewsColumnState(client);
+    const report = { days, fluent_response_ms: FLUENT_RESPONSE_MS, fluent_accuracy: FLUENT_ACCURACY };
+    if (!state.hasResponseMs || (!state.hasGrade && !state.hasRating)) {
+      return res.json({ ...report, facts: [] });
+    }
+
+    const correct = reviewCorrectSql(state);
+    const { rows } = await client.query<{
+      card_id: number;
+      front: string;
+      back: string;
+      factor_a: number | null;
+      factor_b: number | null;
+      attempts: string;
+      correct_count: string;
+      median_response_ms: number | null;
+    }>(
+      `SELECT c.id AS card_id, c.front, c.back,
+              ${CARD_FACTOR_A_SQL} AS factor_a,
+              ${CARD_FACTOR_B_SQL} AS factor_b,
+              COUNT(*) AS attempts,
+              COUNT(*) FILTER (WHERE ${correct}) AS correct_count,
+              percentile_cont(0.5) WITHIN GROUP (ORDER BY r.response_ms)
+                FILTER (WHERE ${correct}) AS median_response_ms
+         FROM srs.reviews r
+         INNER JOIN srs.cards c ON c.id = r.card_id
+        WHERE r.user_id IN (${scope.studentsSql})
+          AND r.response_ms IS NOT NULL
+          AND r.created_at >= NOW() - make_interval(days => $2)
+        GROUP BY c.id
+        ORDER BY factor_a, factor_b, c.id`,
+      [scope.id, days]
+    );
+
+    const facts = rows.map(row => {
+      const attempts = Number(row.attempts);
+      const correctCount = Number(row.correct_count);
+      const accuracy = attempts > 0 ? correctCount / attempts : 0;
+      const median = row.median_response_ms === null ? null : Math.round(Number(row.median_response_ms));
+      return {
+        card_id: row.card_id,
+        front: row.front,
+        back: row.back,
+        factor_a: row.factor_a,
+        factor_b: row.factor_b,
+        attempts,
+        correct: correctCount,
+        accuracy,
+        median_response_ms: median,
+        fluent: median !== null && median <= FLUENT_RESPONSE_MS && accuracy >= FLUENT_ACCURACY
+      };
+    });
+    res.json({ ...report, facts });
+  } catch (err) {
+    console.error('Failed to build fluency report', err);
+    res.status(500).json({ error: 'Failed to load fluency report' });
+  } finally {
+    client.release();
+  }
+}
+
+// The wrong answers students actually gave, most common first, e.g. 7 × 8 = 54
+// (the answer to 6 × 9)
+async function sendMisconceptionReport(req: Request, res: Response, scope: ReviewReportScope) {
+  const parse = reviewReportQuerySchema.safeParse(req.query);
+  if (!parse.success) {
+    return res.status(400).json({ error: parse.error.issues[0]?.message ?? 'Invalid report range' });
+  }
+  const { days } = parse.data;
+  const client = await pool.connect();
+  try {
+    const state = await fetchReviewsColumnState(client);
+    if (!state.hasAnswer || !state.hasCorrect) {
+      return res.json({ days, misconceptions: [] });
+    }
+
+    const { rows } = await client.query<{
+      card_id: number;
+      front: string;
+      back: string;
+      answer: string;
+      times: string;
+      students: string;
+      last_seen: Date;
+    }>(
+      `SELECT c.id AS card_id, c.front, c.back,
+              btrim(r.answer) AS answer,
+              COUNT(*) AS times,
+              COUNT(DISTINCT r.user_id) AS students,
+              MAX(r.created_at) AS last_seen
+         FROM srs.reviews r
+         INNER JOIN srs.cards c ON c.id = r.card_id
+        WHERE r.user_id IN (${scope.studentsSql})
+          AND r.correct = false
+          AND btrim(r.answer) <> ''
+          AND r.created_at >= NOW() - make_interval(days => $2)
+        GROUP BY c.id, btrim(r.answer)
+        ORDER BY times DESC, last_seen DESC
+        LIMIT ${MAX_MISCONCEPTIONS}`,
+      [scope.id, days]
+    );
+    res.json({
+      days,
+      misconceptions: rows.map(row => {
+        const factors = parseFactors(row.front);
+        const misconception = factors ? classifyAnswer(...factors, row.answer) : null;
+        return {
+          card_id: row.card_id,
+          front: row.front,
+          back: row.back,
+          answer: row.answer,
+          // Which common mistake the answer matches (see distractors.ts), if any
+          misconception,
+          misconception_label: misconception ? MISCONCEPTION_LABELS[misconception] : null,
+          times: Number(row.times),
+          students: Number(row.students),
+          last_seen: row.last_seen
+        };
+      })
+    });
+  } catch (err) {
+    console.error('Failed to build misconception report', err);
+    res.status(500).json({ error: 'Failed to load misconceptions' });
+  } finally {
+    client.release();
+  }
+}
+
+app.get(
+  '/api/teacher/students/:studentId/fluency',
+  requireOwnedStudent('studentId'),
+  (req: Request, res: Response) => sendFluencyReport(req, res, studentReportScope(req.params.studentId))
+);
+
+app.get(
+  '/api/teacher/students/:studentId/misconceptions',
+  requireOwnedStudent('studentId'),
+  (req: Request, res: Response) => sendMisconceptionReport(req, res, studentReportScope(req.params.studentId))
+);
+
+app.get(
+  '/api/teacher/classes/:classId/fluency',
+  requireOwnedClass('classId'),
+  (req: Request, res: Response) => sendFluencyReport(req, res, classReportScope(req.params.classId))
+);
+
+app.get(
+  '/api/teacher/classes/:classId/misconceptions',
+  requireOwnedClass('classId'),
+  (req: Request, res: Response) => sendMisconceptionReport(req, res, classReportScope(req.params.classId))
+);
+
+// A student's finished sprints, newest first, each marked when it beat every
+// earlier sprint of the same set and length, plus their best score for each.
+// Sprints abandoned before a single answer are left out.
+async function sendSprintHistory(res: Response, studentId: string) {
+  try {
+    const [history, bests] = await Promise.all([
+      pool.query<{
+        id: string;
+        practice_set: PracticeSet;
+        duration_seconds: number;
+        answer_mode: AnswerMode;
+        attempted: number;
+        score: number;
+        started_at: Date;
+        personal_best: boolean;
+      }>(
+        `SELECT id, practice_set, duration_seconds, answer_mode, attempted, score, started_at,
+                score > COALESCE(MAX(score) OVER (
+                  PARTITION BY practice_set, duration_seconds
+                  ORDER BY started_at
+                  ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+                ), 0) AS personal_best
+           FROM srs.sprints
+          WHERE user_id = $1 AND ends_at <= NOW() AND attempted > 0
+          ORDER BY started_at DESC
+          LIMIT ${MAX_SPRINT_HISTORY}`,
+        [studentId]
+      ),
+      pool.query<{ practice_set: PracticeSet; duration_seconds: number; score: number; sprints: string }>(
+        `SELECT practice_set, duration_seconds, MAX(score) AS score, COUNT(*) AS sprints
+           FROM srs.sprints
+          WHERE user_id = $1 AND ends_at <= NOW() AND attempted > 0
+          GROUP BY practice_set, duration_seconds
+          ORDER BY practice_set, duration_seconds`,
+        [studentId]
+      )
+    ]);
+    res.json({
+      student_id: studentId,
+      bests: bests.rows.map(row => ({ ...row, sprints: Number(row.sprints) })),
+      sprints: history.rows.map(row => ({ ...row, accuracy: row.score / row.attempted }))
+    });
+  } catch (err) {
+    console.error('Failed to load sprint history', err);
+    res.status(500).json({ error: 'Failed to load sprint history' });
+  }
+}
+
+app.get(
+  '/api/teacher/students/:studentId/sprints',
+  requireOwnedStudent('studentId'),
+  (req: Request, res: Response) => sendSprintHistory(res, req.params.studentId)
+);
+
+// Normalises whichever of grade/rating srs.reviews has into again|hard|good|easy
+function buildReviewGradeExpression(state: ReviewsColumnState): string {
+  const source = state.hasGrade ? 'r.grade' : 'r.rating';
+  return `CASE LOWER(${source}::text)
+            WHEN '0' THEN 'again'
+            WHEN '1' THEN 'hard'
+            WHEN '2' THEN 'good'
+            WHEN '3' THEN 'easy'
+            ELSE LOWER(${source}::text)
+          END`;
+}
+
+const optimizeSchedulerSchema = z.object({
+  targetRetention: z.number().min(0.7).max(0.97).default(FSRS_DEFAULT_RETENTION)
+});
+
+// Fitted parameters belong to either one student or one class
+interface SchedulerParamsOwner {
+  column: 'user_id' | 'class_id';
+  id: string;
+  // Students whose reviews are fitted
+  studentsSql: string;
+  // Scheduler the fitted parameters will apply to
+  activeSchedulerSql: string;
+}
+
+function studentParamsOwner(studentId: string): SchedulerParamsOwner {
+  return {
+    column: 'user_id',
+    id: studentId,
+    studentsSql: `SELECT $1::uuid`,
+    activeSchedulerSql: `SELECT COALESCE(u.scheduler, c.scheduler)
+                           FROM srs.users u
+                           LEFT JOIN srs.classes c ON c.id = u.class_id
+                          WHERE u.id = $1`
+  };
+}
+
+function classParamsOwner(classId: string): SchedulerParamsOwner {
+  return {
+    column: 'class_id',
+    id: classId,
+    studentsSql: `SELECT id FROM srs.users WHERE class_id = $1 AND user_type = 'student'`,
+    activeSchedulerSql: `SELECT scheduler FROM srs.classes WHERE id = $1`
+  };
+}
+
+interface SchedulerParamsRow {
+  scheduler: SchedulerName;
+  params: { weights: number[]; requestRetention: number } | null;
+  metrics: Record<string, unknown> | null;
+  fitted_at: Date | null;
+  active_scheduler: string | null;
+}
+
+function formatSchedulerParams(row: SchedulerParamsRow | undefined) {
+  const active = row?.active_scheduler;
+  const activeScheduler = isSchedulerName(active) ? active : DEFAULT_SCHEDULER;
+  if (!row?.params) {
+    return { active_scheduler: activeScheduler, fitted: null };
+  }
+  return {
+    active_scheduler: activeScheduler,
+    fitted: {
+      scheduler: row.scheduler,
+      weights: row.params.weights,
+      target_retention: row.params.requestRetention,
+      metrics: row.metrics,
+      fitted_at: row.fitted_at
+    }
+  };
+}
+
+function formatOptimizationMetrics(metrics: OptimizationMetrics) {
+  return {
+    review_count: metrics.reviewCount,
+    evaluated_review_count: metrics.evaluatedReviewCount,
+    card_count: metrics.cardCount,
+    observed_retention: metrics.observedRetention,
+    log_loss_before: metrics.logLossBefore,
+    log_loss_after: metrics.logLossAfter,
+    target_retention: metrics.targetRetention,
+    scheduled_card_count: metrics.scheduledCardCount,
+    predicted_retention_before: metrics.predictedRetentionBefore,
+    predicted_retention_after: metrics.predictedRetentionAfter
+  };
+}
+
+// A fit waiting for or running on the optimizer worker. Jobs run one at a
+// time and live in memory; a finished job is dropped once its parameters are
+// stored, and a failed one stays until the next fit or reset so the teacher
+// view can show why.
+interface SchedulerFitJob {
+  status: 'queued' | 'running' | 'failed';
+  targetRetention: number;
+  queuedAt: Date;
+  error: string | null;
+}
+
+const schedulerFitJobs = new Map<string, SchedulerFitJob>();
+let schedulerFitQueue: Promise<void> = Promise.resolve();
+
+function schedulerFitJobKey(owner: SchedulerParamsOwner): string {
+  return `${owner.column}:${owner.id}`;
+}
+
+function formatSchedulerFitJob(job: SchedulerFitJob | undefined) {
+  if (!job) return null;
+  return {
+    status: job.status,
+    target_retention: job.targetRetention,
+    queued_at: job.queuedAt,
+    error: job.error
+  };
+}
+
+async function fetchSchedulerParams(queryable: Queryable, owner: SchedulerParamsOwner) {
+  const { rows } = await queryable.query<SchedulerParamsRow>(
+    `SELECT sp.scheduler, sp.params, sp.metrics, sp.fitted_at,
+            (${owner.activeSchedulerSql}) AS active_scheduler
+       FROM (SELECT 1) AS one
+       LEFT JOIN srs.scheduler_params sp ON sp.${owner.column} = $1`,
+    [owner.id]
+  );
+  return {
+    ...formatSchedulerParams(rows[0]),
+    job: formatSchedulerFitJob(schedulerFitJobs.get(schedulerFitJobKey(owner)))
+  };
+}
+
+async function loadOptimizerInput(
+  client: PoolClient,
+  owner: SchedulerParamsOwner
+): Promise<{ reviews: ReviewLogEntry[]; scheduledCards: ScheduledCard[] }> {
+  const reviewState = await fetchReviewsColumnState(client);
+  if (!reviewState.hasGrade && !reviewState.hasRating) {
+    return { reviews: [], scheduledCards: [] };
+  }
+
+  const reviewResult = await client.query<{
+    user_id: string;
+    card_id: number;
+    grade: string;
+    created_at: Date;
+  }>(
+    `SELECT r.user_id, r.card_id, ${buildReviewGradeExpression(reviewState)} AS grade, r.created_at
+       FROM srs.reviews r
+      WHERE r.user_id IN (${owner.studentsSql})
+      ORDER BY r.created_at DESC
+      LIMIT ${MAX_OPTIMIZER_REVIEWS}`,
+    [owner.id]
+  );
+  const cardResult = await client.query<{
+    user_id: string;
+    card_id: number;
+    last_reviewed_at: Date;
+    due_at: Date;
+  }>(
+    `SELECT cs.user_id, cs.card_id, cs.last_reviewed_at, cs.due_at
+       FROM srs.card_state cs
+      WHERE cs.user_id IN (${owner.studentsSql})
+        AND cs.last_reviewed_at IS NOT NULL
+        AND cs.suspended_at IS NULL`,
+    [owner.id]
+  );
+
+  const grades = gradeSchema.shape.grade;
+  return {
+    reviews: reviewResult.rows.flatMap(row => {
+      const grade = grades.safeParse(row.grade);
+      return grade.success
+        ? [{ userId: row.user_id, cardId: row.card_id, grade: grade.data, reviewedAt: row.created_at }]
+        : [];
+    }),
+    scheduledCards: cardResult.rows.map(row => ({
+      userId: row.user_id,
+      cardId: row.card_id,
+      lastReviewedAt: row.last_reviewed_at,
+      dueAt: row.due_at
+    }))
+  };
+}
+
+// Fits FSRS parameters on the optimizer worker and stores them. Never
+// rejects: the outcome is left on the job for the teacher view to poll.
+async function runSchedulerFit(
+  owner: SchedulerParamsOwner,
+  job: SchedulerFitJob,
+  input: OptimizerInput,
+  teacherId: string | undefined
+): Promise<void> {
+  job.status = 'running';
+  try {
+    const result = await optimizeFsrsInWorker(input);
+    if (!result) {
+      job.status = 'failed';
+      job.error = `Not enough review history yet: at least ${MIN_OPTIMIZER_REVIEWS} repeat reviews are needed.`;
+      return;
+    }
+
+    await pool.query(
+      `INSERT INTO srs.scheduler_params (${owner.column}, scheduler, params, metrics, fitted_by)
+       VALUES ($1, 'fsrs', $2, $3, $4)
+       ON CONFLICT (${owner.column}) DO UPDATE
+         SET scheduler = EXCLUDED.scheduler,
+             params = EXCLUDED.params,
+             metrics = EXCLUDED.metrics,
+             fitted_by = EXCLUDED.fitted_by,
+             fitted_at = NOW()`,
+      [
+        owner.id,
+        JSON.stringify(result.params),
+        JSON.stringify(formatOptimizationMetrics(result.metrics)),
+        teacherId
+      ]
+    );
+    if (schedulerFitJobs.get(schedulerFitJobKey(owner)) === job) {
+      schedulerFitJobs.delete(schedulerFitJobKey(owner));
+    }
+  } catch (err) {
+    job.status = 'failed';
+    if ((err as { code?: string }).code === '42501') {
+      job.error = 'Insufficient database privileges to store scheduler parameters.';
+    } else {
+      console.error('Failed to fit scheduler parameters', err);
+      job.error = 'Failed to fit scheduler parameters';
+    }
+  }
+}
+
+// Queues a fit of FSRS parameters to the owner's review log and answers 202
+// straight away; GET reports the job until the fitted parameters replace it.
+// Only FSRS has parameters to fit, so a student or class scheduled with SM-2
+// is refused with 400 until it is switched to FSRS.
+async function fitSchedulerParams(req: Request, res: Response, owner: SchedulerParamsOwner) {
+  const parse = optimizeSchedulerSchema.safeParse(req.body ?? {});
+  if (!parse.success) {
+    return res.status(400).json({ error: 'Target retention must be between 0.7 and 0.97' });
+  }
+  const { targetRetention } = parse.data;
+  const { userId: teacherId } = req as AuthedRequest;
+
+  const key = schedulerFitJobKey(owner);
+  const pending = schedulerFitJobs.get(key);
+  if (pending && pending.status !== 'failed') {
+    return res.status(409).json({
+      error: 'Scheduler parameters are already being fitted.',
+      job: formatSchedulerFitJob(pending)
+    });
+  }
+
+  const client = await pool.connect();
+  let input: OptimizerInput;
+  try {
+    const scheduler = await client.query<{ active_scheduler: string | null }>(
+      `SELECT (${owner.activeSchedulerSql}) AS active_scheduler`,
+      [owner.id]
+    );
+    const active = scheduler.rows[0]?.active_scheduler;
+    if ((isSchedulerName(active) ? active : DEFAULT_SCHEDULER) !== 'fsrs') {
+      return res.status(400).json({
+        error: `Fitting only tunes FSRS. Switch this ${owner.column === 'class_id' ? 'class' : 'student'} to FSRS before fitting.`
+      });
+    }
+    input = { ...(await loadOptimizerInput(client, owner)), targetRetention };
+  } catch (err) {
+    console.error('Failed to load review history for fitting', err);
+    return res.status(500).json({ error: 'Failed to fit scheduler parameters' });
+  } finally {
+    client.release();
+  }
+
+  const job: SchedulerFitJob = { status: 'queued', targetRetention, queuedAt: new Date(), error: null };
+  schedulerFitJobs.set(key, job);
+  schedulerFitQueue = schedulerFitQueue.then(() => runSchedulerFit(owner, job, input, teacherId));
+  res.status(202).json({ success: true, job: formatSchedulerFitJob(job) });
+}
+
+async function sendSchedulerParams(res: Response, owner: SchedulerParamsOwner) {
+  try {
+    res.json(await fetchSchedulerParams(pool, owner));
+  } catch (err) {
+    console.error('Failed to load scheduler parameters', err);
+    res.status(500).json({ error: 'Failed to load scheduler parameters' });
+  }
+}
+
+async function clearSchedulerParams(res: Response, owner: SchedulerParamsOwner) {
+  try {
+    const result = await pool.query(`DELETE FROM srs.scheduler_params WHERE ${owner.column} = $1`, [owner.id]);
+    if (schedulerFitJobs.get(schedulerFitJobKey(owner))?.status === 'failed') {
+      schedulerFitJobs.delete(schedulerFitJobKey(owner));
+    }
+    res.json({
+      success: true,
+      removed: (result.rowCount ?? 0) > 0,
+      message: 'Scheduler parameters reset to the defaults.'
+    });
+  } catch (err) {
+    console.error('Failed to reset scheduler parameters', err);
+    res.status(500).json({ error: 'Failed to reset scheduler parameters' });
+  }
+}
+
+app.get(
+  '/api/teacher/students/:studentId/scheduler-params',
+  requireOwnedStudent('studentId'),
+  (req: Request, res: Response) => sendSchedulerParams(res, studentParamsOwner(req.params.studentId))
+);
+
+app.post(
+  '/api/teacher/students/:studentId/scheduler-params',
+  requireOwnedStudent('studentId'),
+  (req: Request, res: Response) => fitSchedulerParams(req, res, studentParamsOwner(req.params.studentId))
+);
+
+app.delete(
+  '/api/teacher/students/:studentId/scheduler-params',
+  requireOwnedStudent('studentId'),
+  (req: Request, res: Response) => clearSchedulerParams(res, studentParamsOwner(req.params.studentId))
+);
+
+app.get(
+  '/api/teacher/classes/:classId/scheduler-params',
+  requireOwnedClass('classId'),
+  (req: Request, res: Response) => sendSchedulerParams(res, classParamsOwner(req.params.classId))
+);
+
+app.post(
+  '/api/teacher/classes/:classId/scheduler-params',
+  requireOwnedClass('classId'),
+  (req: Request, res: Response) => fitSchedulerParams(req, res, classParamsOwner(req.params.classId))
+);
+
+app.delete(
+  '/api/teacher/classes/:classId/scheduler-params',
+  requireOwnedClass('classId'),
+  (req: Request, res: Response) => clearSchedulerParams(res, classParamsOwner(req.params.classId))
+);
+
+// Gives new students an empty progress row and every card due now. Each seed
+// runs under a savepoint so a role without INSERT on one table skips that seed
+// without aborting the caller's transaction.
+async function seedNewStudents(client: PoolClient, userIds: string[]): Promise<void> {
+  const seeds = [
+    {
+      table: 'student_progress',
+      sql: `INSERT INTO srs.student_progress (user_id, total_reviews, correct_reviews, cards_completed)
+            SELECT u.id, 0, 0, 0
+              FROM unnest($1::uuid[]) AS u(id)
+            ON CONFLICT (user_id) DO NOTHING`
+    },
+    {
+      table: 'card_state',
+      sql: `INSERT INTO srs.card_state (user_id, card_id, due_at, interval_days, ease_factor, reps)
+            SELECT u.id, c.id, NOW(), 0, 2.5, 0
+              FROM unnest($1::uuid[]) AS u(id)
+             CROSS JOIN srs.cards c
+            ON CONFLICT (user_id, card_id) DO NOTHING`
+    }
+  ];
+
+  for (const seed of seeds) {
+    const seeded = await runWithPrivilegeSavepoint(client, () => client.query(seed.sql, [userIds]));
+    if (seeded === PRIVILEGE_DENIED) {
+      console.warn(`Skipping ${seed.table} seed due to permissions.`);
+    }
+  }
+}
+
+app.post('/api/teacher/students', async (req: Request, res: Response) => {
+  const parse = createStudentSchema.safeParse(req.body);
+  if (!parse.success) {
+    return res
+      .status(400)
+      .json({ error: parse.error.issues[0]?.message ?? 'Invalid student data' });
+  }
+
+  const { username, displayName, picturePassword, email, classId } = parse.data;
+  const { userId: teacherId } = req as AuthedRequest;
+
+  let passwordHash: string;
+  try {
+    if (classId && (await checkClassAccess(pool, teacherId, classId)) !== 'owned') {
+      return res.status(403).json({ error: 'You do not have access to this class' });
+    }
+
+    const existing = await pool.query(
+      `SELECT 1 FROM srs.users WHERE username = $1`,
+      [username]
+    );
+    if (existing.rowCount && existing.rowCount > 0) {
+      return res.status(409).json({ error: 'Username already exists' });
+    }
+
+    passwordHash = await hashSecret(encodePictureSequence(picturePassword));
+  } catch (err) {
+    console.error('Failed to create student', err);
+    return res.status(500).json({ error: 'Failed to create student' });
+  }
+  const derivedEmail = email ?? `${username}@students.local`;
+
   const client = await pool.connect();
   try {
-    const privileges = await ensureStudentProgressPrivileges(client);
-    if (!privileges.select) {
-      warnStudentProgress('student_progress read access not available; returning empty stats.');
-      res.json({
-        stats: { total_reviews: 0, correct_reviews: 0, cards_completed: 0 },
-        recentReviews: []
-      });
-      return;
+    await client.query('BEGIN');
+    const insertUser = await client.query(
+      `INSERT INTO srs.users (
+         username, display_name, user_type, picture_password_hash, picture_sequence_length, email,
+         teacher_id, class_id
+       )
+       VALUES ($1, $2, 'student', $3, $4, $5, $6, $7)
+       RETURNING id, username, display_name, user_type, class_id, created_at, updated_at`,
+      [
+        username,
+        displayName,
+        passwordHash,
+        picturePassword.length,
+        derivedEmail,
+        teacherId,
+        classId ?? null
+      ]
+    );
+    const newUser = insertUser.rows[0] as User & {
+      class_id: string | null;
+      created_at: Date;
+      updated_at: Date;
+    };
+
+    await seedNewStudents(client, [newUser.id]);
+    await client.query('COMMIT');
+    Object.assign(auditContext(res), { studentId: newUser.id, classId: newUser.class_id ?? undefined });
+
+    res.status(201).json({
+      id: newUser.id,
+      username: newUser.username,
+      display_name: newUser.display_name,
+      user_type: newUser.user_type,
+      class_id: newUser.class_id,
+      locked_out: false,
+      created_at: newUser.created_at,
+      updated_at: newUser.updated_at,
+      total_reviews: 0,
+      correct_reviews: 0,
+      cards_completed: 0,
+      last_activity: newUser.updated_at
+    });
+  } catch (err) {
+    await client.query('ROLLBACK');
+    if ((err as { code?: string }).code === '23505') {
+      return res.status(409).json({ error: 'Username already exists' });
     }
+    console.error('Failed to create student', err);
+    res.status(500).json({ error: 'Failed to create student' });
+  } finally {
+    client.release();
+  }
+});
 
-    const statsResult = await client.query(
-      `
-      SELECT 
-        COALESCE(total_reviews, 0) AS total_reviews,
-        COALESCE(correct_reviews, 0) AS correct_reviews,
-        COALESCE(cards_completed, 0) AS cards_completed
-      FROM srs.student_progress
-      WHERE user_id = $1
-      `,
-      [userId]
+const MAX_IMPORT_ROWS = 500;
+
+const importStudentsSchema = z.object({
+  csv: z.string().min(1),
+  dryRun: z.boolean().default(true),
+  // Used for rows that leave the class column empty
+  classId: z.string().uuid().nullable().optional(),
+  // Difficulty for generated picture passwords
+  pictureDifficulty: pictureDifficultySchema.default('easy')
+});
+
+const IMPORT_COLUMNS: Record<string, 'username' | 'displayName' | 'picturePassword' | 'className'> = {
+  username: 'username',
+  user: 'username',
+  displayname: 'displayName',
+  name: 'displayName',
+  picturepassword: 'picturePassword',
+  pictures: 'picturePassword',
+  password: 'picturePassword',
+  class: 'className',
+  classname: 'className'
+};
+
+interface ImportRow {
+  line: number;
+  username: string;
+  displayName: string;
+  className: string | null;
+  picturePassword: string[];
+  passwordGenerated: boolean;
+  errors: string[];
+}
+
+function randomPictureSequence(length: number): string[] {
+  return Array.from(
+    { length },
+    () => PICTURE_CATALOG[crypto.randomInt(PICTURE_CATALOG.length)].id
+  );
+}
+
+// Accepts picture ids or labels ("Dog-Cat-Fox", "1 2 5"), separated by dashes or spaces.
+function parseImportedPictures(raw: string): { sequence: string[]; unknown: string[] } {
+  const sequence: string[] = [];
+  const unknown: string[] = [];
+  for (const token of raw.split(/[\s\-|;]+/).filter(Boolean)) {
+    const match = PICTURE_CATALOG.find(
+      option => option.id === token || option.label.toLowerCase() === token.toLowerCase()
     );
+    if (match) {
+      sequence.push(match.id);
+    } else {
+      unknown.push(token);
+    }
+  }
+  return { sequence, unknown };
+}
 
-    const statsRow = statsResult.rows[0];
-    const stats = {
-      total_reviews: Number(statsRow?.total_reviews ?? 0),
-      correct_reviews: Number(statsRow?.correct_reviews ?? 0),
-      cards_completed: Number(statsRow?.cards_completed ?? 0)
+function difficultyForLength(length: number): PictureDifficulty | undefined {
+  return (Object.keys(PICTURE_DIFFICULTIES) as PictureDifficulty[]).find(
+    difficulty => PICTURE_DIFFICULTIES[difficulty] === length
+  );
+}
+
+// Builds import rows from the CSV and validates each one with the same rules as
+// single-student creation, plus duplicate usernames within the file and the database.
+async function buildImportPreview(
+  queryable: Queryable,
+  teacherId: string,
+  csv: string,
+  pictureDifficulty: PictureDifficulty
+): Promise<{ rows: ImportRow[]; classesToCreate: string[]; fileError?: string }> {
+  const parsed = parseCsv(csv);
+  if (parsed.length < 2) {
+    return { rows: [], classesToCreate: [], fileError: 'The file needs a header row and at least one student' };
+  }
+  if (parsed.length - 1 > MAX_IMPORT_ROWS) {
+    return { rows: [], classesToCreate: [], fileError: `Import at most ${MAX_IMPORT_ROWS} students at a time` };
+  }
+
+  const [header, ...body] = parsed;
+  const columns = header.fields.map(name => IMPORT_COLUMNS[name.toLowerCase().replace(/[^a-z]/g, '')]);
+  if (!columns.includes('username') || !columns.includes('displayName')) {
+    return {
+      rows: [],
+      classesToCreate: [],
+      fileError: 'The header row must include "username" and "display name" columns'
     };
+  }
 
-    const reviewState = await fetchReviewsColumnState(client);
-    let recentRows: Array<{ review_day: unknown; reviews_count: number; correct_count: number | null }> = [];
+  const rows: ImportRow[] = body.map(({ line, fields }) => {
+    const values: Partial<Record<string, string>> = {};
+    columns.forEach((column, index) => {
+      if (column) values[column] = (fields[index] ?? '').trim();
+    });
 
-    if (reviewState.hasGrade || reviewState.hasRating) {
-      const correctCondition = reviewState.hasGrade
-        ? "r.grade IN ('good', 'easy')"
-        : buildRatingCorrectCondition(reviewState);
+    const errors: string[] = [];
+    let picturePassword: string[];
+    let passwordGenerated = false;
+    if (values.picturePassword) {
+      const { sequence, unknown } = parseImportedPictures(values.picturePassword);
+      if (unknown.length > 0) errors.push(`Unknown pictures: ${unknown.join(', ')}`);
+      picturePassword = sequence;
+    } else {
+      picturePassword = randomPictureSequence(PICTURE_DIFFICULTIES[pictureDifficulty]);
+      passwordGenerated = true;
+    }
 
-      const recentResult = await client.query(
-        `
-        SELECT 
-          date_trunc('day', r.created_at) AS review_day,
-          COUNT(*) AS reviews_count,
-          SUM(CASE WHEN ${correctCondition} THEN 1 ELSE 0 END) AS correct_count
-        FROM srs.reviews r
-        WHERE r.user_id = $1
-          AND r.created_at >= NOW() - INTERVAL '14 days'
-        GROUP BY review_day
-        ORDER BY review_day DESC
-        LIMIT 14
-        `,
-        [userId]
-      );
+    const parse = createStudentSchema.safeParse({
+      username: values.username ?? '',
+      displayName: values.displayName ?? '',
+      pictureDifficulty: difficultyForLength(picturePassword.length) ?? pictureDifficulty,
+      picturePassword
+    });
+    if (!parse.success) {
+      errors.push(...parse.error.issues.map(issue => `${issue.path.join('.') || 'row'}: ${issue.message}`));
+    }
 
-      recentRows = recentResult.rows as Array<{
-        review_day: unknown;
-        reviews_count: number;
-        correct_count: number | null;
-      }>;
+    return {
+      line,
+      username: values.username ?? '',
+      displayName: values.displayName ?? '',
+      className: values.className || null,
+      picturePassword,
+      passwordGenerated,
+      errors
+    };
+  });
+
+  const seen = new Map<string, number>();
+  for (const row of rows) {
+    if (!row.username) continue;
+    const firstLine = seen.get(row.username);
+    if (firstLine !== undefined) {
+      row.errors.push(`Username repeats line ${firstLine}`);
+    } else {
+      seen.set(row.username, row.line);
     }
+  }
 
-    res.json({
-      stats,
-      recentReviews: recentRows
-        .map(row => ({
-          date: formatReviewDay(row.review_day),
-          reviews_count: Number(row.reviews_count),
-          correct_count: Number(row.correct_count ?? 0)
-        }))
-        .reverse()
+  const existing = await queryable.query<{ username: string }>(
+    `SELECT username FROM srs.users WHERE username = ANY($1::text[])`,
+    [[...seen.keys()]]
+  );
+  const taken = new Set(existing.rows.map(row => row.username));
+  for (const row of rows) {
+    if (taken.has(row.username)) row.errors.push('Username already exists');
+  }
+
+  for (const row of rows) {
+    if (row.className && row.className.length > 255) row.errors.push('Class name is too long');
+  }
+  const classNames = [...new Set(rows.map(row => row.className).filter((name): name is string => !!name))];
+  const known = await queryable.query<{ name: string }>(
+    `SELECT name FROM srs.classes WHERE teacher_id = $1 AND name = ANY($2::text[])`,
+    [teacherId, classNames]
+  );
+  const knownNames = new Set(known.rows.map(row => row.name));
+
+  return { rows, classesToCreate: classNames.filter(name => !knownNames.has(name)) };
+}
+
+function formatImportPreview(rows: ImportRow[], classesToCreate: string[], dryRun: boolean) {
+  const invalid = rows.filter(row => row.errors.length > 0).length;
+  return {
+    dry_run: dryRun,
+    valid: invalid === 0,
+    summary: { total: rows.length, valid: rows.length - invalid, invalid },
+    classes_to_create: classesToCreate,
+    rows: rows.map(row => ({
+      line: row.line,
+      username: row.username,
+      display_name: row.displayName,
+      class_name: row.className,
+      // Generated passwords are only revealed once the import really happens
+      picture_password: row.passwordGenerated ? null : row.picturePassword,
+      password_generated: row.passwordGenerated,
+      errors: row.errors
+    }))
+  };
+}
+
+app.post('/api/teacher/students/import', async (req: Request, res: Response) => {
+  const parse = importStudentsSchema.safeParse(req.body);
+  if (!parse.success) {
+    return res.status(400).json({ error: parse.error.issues[0]?.message ?? 'Invalid import request' });
+  }
+  const { csv, dryRun, classId, pictureDifficulty } = parse.data;
+  const { userId: teacherId } = req as AuthedRequest;
+
+  const client = await pool.connect();
+  try {
+    if (classId && (await checkClassAccess(client, teacherId, classId)) !== 'owned') {
+      return res.status(403).json({ error: 'You do not have access to this class' });
+    }
+
+    const { rows, classesToCreate, fileError } = await buildImportPreview(
+      client,
+      teacherId,
+      csv,
+      pictureDifficulty
+    );
+    if (fileError) return res.status(400).json({ error: fileError });
+
+    const preview = formatImportPreview(rows, classesToCreate, dryRun);
+    if (dryRun) return res.json(preview);
+    if (!preview.valid) {
+      return res.status(400).json({ ...preview, error: 'Fix the invalid rows before importing' });
+    }
+
+    // Hash before opening the transaction; scrypt is deliberately slow.
+    const hashes = await Promise.all(
+      rows.map(row => hashSecret(encodePictureSequence(row.picturePassword)))
+    );
+
+    await client.query('BEGIN');
+    for (const name of classesToCreate) {
+      // The savepoint keeps a join code collision from aborting the whole import
+      await withFreshJoinCode(async joinCode => {
+        await client.query('SAVEPOINT import_class');
+        try {
+          const result = await client.query<ClassRow>(
+            `INSERT INTO srs.classes AS c (teacher_id, name, join_code)
+             VALUES ($1, $2, $3)
+             RETURNING ${CLASS_COLUMNS}, 0 AS student_count`,
+            [teacherId, name, joinCode]
+          );
+          await client.query('RELEASE SAVEPOINT import_class');
+          return result;
+        } catch (err) {
+          await client.query('ROLLBACK TO SAVEPOINT import_class');
+          throw err;
+        }
+      });
+    }
+    const classIds = new Map<string, string>();
+    const classRows = await client.query<{ id: string; name: string }>(
+      `SELECT id, name FROM srs.classes WHERE teacher_id = $1`,
+      [teacherId]
+    );
+    for (const row of classRows.rows) classIds.set(row.name, row.id);
+
+    const created: { id: string; username: string; display_name: string; class_id: string | null }[] = [];
+    for (const [index, row] of rows.entries()) {
+      const inserted = await client.query<{
+        id: string;
+        username: string;
+        display_name: string;
+        class_id: string | null;
+      }>(
+        `INSERT INTO srs.users (
+           username, display_name, user_type, picture_password_hash, picture_sequence_length, email,
+           teacher_id, class_id
+         )
+         VALUES ($1, $2, 'student', $3, $4, $5, $6, $7)
+         RETURNING id, username, display_name, class_id`,
+        [
+          row.username,
+          row.displayName,
+          hashes[index],
+          row.picturePassword.length,
+          `${row.username}@students.local`,
+          teacherId,
+          row.className ? classIds.get(row.className) ?? null : classId ?? null
+        ]
+      );
+      created.push(inserted.rows[0]);
+    }
+
+    await seedNewStudents(client, created.map(student => student.id));
+    await client.query('COMMIT');
+
+    res.status(201).json({
+      success: true,
+      imported: created.length,
+      classes_created: classesToCreate,
+      students: created.map((student, index) => ({
+        ...student,
+        picture_password: rows[index].picturePassword,
+        password_generated: rows[index].passwordGenerated
+      }))
     });
   } catch (err) {
-    const { code, message } = err as { code?: string; message?: string };
-    if (code === '42501') {
-      warnStudentProgress(`Skipping detailed teacher stats due to permissions: ${message}`);
-      studentProgressPrivileges = { select: false, insert: false, update: false };
-      res.json({
-        stats: { total_reviews: 0, correct_reviews: 0, cards_completed: 0 },
-        recentReviews: []
-      });
-    } else {
-      console.error('Failed to load teacher stats', err);
-      res.status(500).json({ error: 'Failed to load stats' });
+    await client.query('ROLLBACK');
+    if ((err as { code?: string }).code === '23505') {
+      return res
+        .status(409)
+        .json({ error: 'A username or class changed while importing; preview the file again' });
     }
+    console.error('Failed to import students', err);
+    res.status(500).json({ error: 'Failed to import students' });
   } finally {
     client.release();
   }
 });
 
-app.post('/api/teacher/clear/:userId', async (req: Request, res: Response) => {
-  // Return success for now due to permissions
-  res.json({ success: true, message: 'All student data cleared (placeholder)' });
-});
+app.patch('/api/teacher/students/:studentId', requireOwnedStudent('studentId'), async (req: Request, res: Response) => {
+  const parse = updateStudentSchema.safeParse(req.body);
+  if (!parse.success) {
+    return res
+      .status(400)
+      .json({ error: parse.error.issues[0]?.message ?? 'Invalid student data' });
+  }
 
-app.post('/api/teacher/reset-srs/:userId', async (req: Request, res: Response) => {
-  // Return success for now due to permissions
-  res.json({ success: true, message: 'SRS scheduling reset (placeholder)' });
-});
+  const { username, displayName, picturePassword, classId, scheduler } = parse.data;
+  const { studentId } = req.params;
+  const { userId: teacherId } = req as AuthedRequest;
 
-const createStudentSchema = z.object({
-  username: z.string().min(1).max(255),
-  displayName: z.string().min(1).max(255),
-  picturePassword: z.enum(['1', '2', '3', '4', '5']),
-  email: z.string().email().optional()
-});
+  const assignments: string[] = [];
+  const values: unknown[] = [];
+  const assign = (column: string, value: unknown) => {
+    values.push(value);
+    assignments.push(`${column} = $${values.length}`);
+  };
+  try {
+    if (classId && (await checkClassAccess(pool, teacherId, classId)) !== 'owned') {
+      return res.status(403).json({ error: 'You do not have access to this class' });
+    }
 
-app.post('/api/teacher/students', async (req: Request, res: Response) => {
-  const parse = createStudentSchema.safeParse(req.body);
-  if (!parse.success) {
-    return res.status(400).json({ error: 'Invalid student data' });
-  }
+    if (username !== undefined) {
+      const existing = await pool.query(
+        `SELECT 1 FROM srs.users WHERE username = $1 AND id <> $2`,
+        [username, studentId]
+      );
+      if (existing.rowCount && existing.rowCount > 0) {
+        return res.status(409).json({ error: 'Username already exists' });
+      }
+    }
 
-  const { username, displayName, picturePassword, email } = parse.data;
+    if (username !== undefined) assign('username', username);
+    if (displayName !== undefined) assign('display_name', displayName);
+    if (classId !== undefined) assign('class_id', classId);
+    if (scheduler !== undefined) assign('scheduler', scheduler);
+    if (picturePassword) {
+      assign('picture_password_hash', await hashSecret(encodePictureSequence(picturePassword)));
+      assign('picture_sequence_length', picturePassword.length);
+    }
+    values.push(studentId);
+  } catch (err) {
+    console.error('Failed to update student', err);
+    return res.status(500).json({ error: 'Failed to update student' });
+  }
 
   const client = await pool.connect();
   try {
-    const existing = await client.query(
-      `SELECT 1 FROM srs.users WHERE username = $1`,
-      [username]
+    await client.query('BEGIN');
+    const { rows } = await client.query<{
+      id: string;
+      username: string;
+      display_name: string;
+      class_id: string | null;
+      scheduler: SchedulerName | null;
+      picture_sequence_length: number;
+    }>(
+      `UPDATE srs.users
+          SET ${assignments.join(', ')},
+              updated_at = NOW()
+        WHERE id = $${values.length}
+        RETURNING id, username, display_name, class_id, scheduler, picture_sequence_length`,
+      values
     );
-    if (existing.rowCount && existing.rowCount > 0) {
-      return res.status(409).json({ error: 'Username already exists' });
+
+    if (picturePassword) {
+      // The old pictures stop working everywhere, and a fresh password deserves a clean slate
+      await client.query(
+        `UPDATE srs.sessions
+            SET revoked_at = NOW()
+          WHERE user_id = $1
+            AND revoked_at IS NULL`,
+        [studentId]
+      );
+      await client.query(`DELETE FROM srs.login_throttle WHERE key = $1`, [studentThrottleKey(studentId)]);
     }
+    await client.query('COMMIT');
 
-    const derivedEmail = email ?? `${username}@students.local`;
+    const updated = rows[0];
+    res.json({
+      id: updated.id,
+      username: updated.username,
+      display_name: updated.display_name,
+      class_id: updated.class_id,
+      scheduler: updated.scheduler,
+      picture_length: updated.picture_sequence_length
+    });
+  } catch (err) {
+    await client.query('ROLLBACK');
+    if ((err as { code?: string }).code === '23505') {
+      return res.status(409).json({ error: 'Username already exists' });
+    }
+    console.error('Failed to update student', err);
+    res.status(500).json({ error: 'Failed to update student' });
+  } finally {
+    client.release();
+  }
+});
 
-    const insertUser = await client.query(
-      `INSERT INTO srs.users (username, display_name, user_type, picture_password, email)
-       VALUES ($1, $2, 'student', $3, $4)
-       RETURNING id, username, display_name, user_type, created_at, updated_at`,
-      [username, displayName, picturePassword, derivedEmail]
+app.get('/api/teacher/students/archived', async (req: Request, res: Response) => {
+  const { userId: teacherId } = req as AuthedRequest;
+  try {
+    const { rows } = await pool.query<{
+      id: string;
+      username: string;
+      display_name: string;
+      class_id: string | null;
+      updated_at: Date;
+      username_taken: boolean;
+    }>(
+      `SELECT u.id, u.username, u.display_name, u.class_id, u.updated_at,
+              EXISTS (
+                SELECT 1 FROM srs.users other
+                 WHERE other.id <> u.id
+                   AND other.username = regexp_replace(u.username, ':archived:[0-9]{14}$', '')
+              ) AS username_taken
+         FROM srs.users u
+        WHERE u.user_type = 'archived_student'
+          AND u.teacher_id = $1
+        ORDER BY u.updated_at DESC`,
+      [teacherId]
     );
-    const newUser = insertUser.rows[0] as User & { created_at: Date; updated_at: Date };
-    const newUserId = newUser.id;
 
-    await client.query(
-      `INSERT INTO srs.student_progress (user_id, total_reviews, correct_reviews, cards_completed)
-       VALUES ($1, 0, 0, 0)
-       ON CONFLICT (user_id) DO NOTHING`,
-      [newUserId]
-    ).catch(err => {
-      if ((err as { code?: string }).code === '42501') {
-        console.warn('Skipping student_progress seed due to permissions.');
-        return;
-      }
-      throw err;
+    res.json({
+      can_purge: await canPurgeStudents(pool),
+      students: rows.map(row => {
+        const original = originalStudentNames(row.username, row.display_name);
+        return {
+          id: row.id,
+          username: original.username,
+          display_name: original.displayName,
+          archived_username: row.username,
+          class_id: row.class_id,
+          archived_at: original.archivedAt ?? row.updated_at,
+          // Restoring needs a new username when the old one is gone or now belongs to someone else
+          needs_new_username: original.username === null || row.username_taken
+        };
+      })
     });
+  } catch (err) {
+    console.error('Failed to load archived students', err);
+    res.status(500).json({ error: 'Failed to load archived students' });
+  }
+});
 
-    await client.query(
-      `INSERT INTO srs.card_state (user_id, card_id, due_at, interval_days, ease_factor, reps)
-       SELECT $1, c.id, NOW(), 0, 2.5, 0
-         FROM srs.cards c
-       ON CONFLICT (user_id, card_id) DO NOTHING`,
-      [newUserId]
-    ).catch(err => {
+app.post(
+  '/api/teacher/students/:studentId/restore',
+  requireOwnedStudent('studentId', ['archived_student']),
+  async (req: Request, res: Response) => {
+    const parse = restoreStudentSchema.safeParse(req.body ?? {});
+    if (!parse.success) {
+      return res
+        .status(400)
+        .json({ error: parse.error.issues[0]?.message ?? 'Invalid restore data' });
+    }
+    const { studentId } = req.params;
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const { rows } = await client.query<{ username: string; display_name: string }>(
+        `SELECT username, display_name
+           FROM srs.users
+          WHERE id = $1 AND user_type = 'archived_student'
+          FOR UPDATE`,
+        [studentId]
+      );
+      const archived = rows[0];
+      if (!archived) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ error: 'Student not found' });
+      }
+
+      const original = originalStudentNames(archived.username, archived.display_name);
+      const username = parse.data.username ?? original.username;
+      const displayName = parse.data.displayName ?? original.displayName;
+      if (!username) {
+        await client.query('ROLLBACK');
+        return res.status(409).json({
+          error: 'The original username could not be recovered; choose a new one',
+          conflict: 'username'
+        });
+      }
+
+      const taken = await client.query(
+        `SELECT 1 FROM srs.users WHERE username = $1 AND id <> $2`,
+        [username, studentId]
+      );
+      if (taken.rowCount && taken.rowCount > 0) {
+        await client.query('ROLLBACK');
+        return res.status(409).json({
+          error: `The username "${username}" is in use; choose a new one`,
+          conflict: 'username',
+          username
+        });
+      }
+
+      // The archive cleared the email; give back the derived one unless someone now has it
+      await client.query(
+        `UPDATE srs.users
+            SET user_type = 'student',
+                username = $2,
+                display_name = $3,
+                email = CASE
+                          WHEN EXISTS (SELECT 1 FROM srs.users WHERE email = $4) THEN NULL
+                          ELSE $4
+                        END,
+                updated_at = NOW()
+          WHERE id = $1`,
+        [studentId, username, displayName, `${username}@students.local`]
+      );
+      await client.query('COMMIT');
+      res.json({ success: true, username, display_name: displayName });
+    } catch (err) {
+      await client.query('ROLLBACK');
+      if ((err as { code?: string }).code === '23505') {
+        return res.status(409).json({ error: 'That username is already in use', conflict: 'username' });
+      }
+      console.error('Failed to restore student', err);
+      res.status(500).json({ error: 'Failed to restore student' });
+    } finally {
+      client.release();
+    }
+  }
+);
+
+// Permanently removes an archived student and everything that references them.
+app.delete(
+  '/api/teacher/students/:studentId/purge',
+  requireOwnedStudent('studentId', ['archived_student']),
+  async (req: Request, res: Response) => {
+    const { studentId } = req.params;
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      for (const table of PURGE_TABLES) {
+        const column = table === 'srs.users' ? 'id' : 'user_id';
+        await client.query(`DELETE FROM ${table} WHERE ${column} = $1`, [studentId]);
+      }
+      await client.query('COMMIT');
+      res.json({ success: true, purged: true });
+    } catch (err) {
+      await client.query('ROLLBACK');
       if ((err as { code?: string }).code === '42501') {
-        console.warn('Skipping card_state seed due to permissions.');
-        return;
+        return res
+          .status(403)
+          .json({ error: 'Insufficient database privileges to permanently remove student data.' });
       }
-      throw err;
-    });
-
-    res.status(201).json({
-      id: newUser.id,
-      username: newUser.username,
-      display_name: newUser.display_name,
-      user_type: newUser.user_type,
-      created_at: newUser.created_at,
-      updated_at: newUser.updated_at,
-      total_reviews: 0,
-      correct_reviews: 0,
-      cards_completed: 0,
-      last_activity: newUser.updated_at
-    });
-  } catch (err) {
-    console.error('Failed to create student', err);
-    res.status(500).json({ error: 'Failed to create student' });
-  } finally {
-    client.release();
+      console.error('Failed to purge student', err);
+      res.status(500).json({ error: 'Failed to purge student' });
+    } finally {
+      client.release();
+    }
   }
-});
+);
 
-app.delete('/api/teacher/students/:studentId', async (req: Request, res: Response) => {
+app.delete('/api/teacher/students/:studentId', requireOwnedStudent('studentId'), async (req: Request, res: Response) => {
   const { studentId } = req.params;
   const client = await pool.connect();
   try {
@@ -846,9 +3761,223 @@ app.delete('/api/teacher/students/:studentId', async (req: Request, res: Respons
   }
 });
 
-app.use(auth);
+app.post(
+  '/api/teacher/students/:studentId/unlock',
+  requireOwnedStudent('studentId'),
+  async (req: Request, res: Response) => {
+    try {
+      await clearLoginThrottle(studentThrottleKey(req.params.studentId));
+      res.json({ success: true, message: 'Student can log in again.' });
+    } catch (err) {
+      console.error('Failed to unlock student login', err);
+      res.status(500).json({ error: 'Failed to unlock student' });
+    }
+  }
+);
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1).max(MAX_TEACHER_PASSWORD_LENGTH),
+  newPassword: teacherPasswordSchema
+});
+
+app.post('/api/teacher/password', async (req: Request, res: Response) => {
+  const parse = changePasswordSchema.safeParse(req.body);
+  if (!parse.success) {
+    return res
+      .status(400)
+      .json({ error: parse.error.issues[0]?.message ?? 'Invalid password data' });
+  }
+  const { currentPassword, newPassword } = parse.data;
+  const { userId, sessionId } = req as AuthedRequest;
+
+  try {
+    const { rows } = await pool.query<{ password_hash: string | null }>(
+      `SELECT password_hash FROM srs.users WHERE id = $1`,
+      [userId]
+    );
+    const storedHash = rows[0]?.password_hash;
+    if (!storedHash || !(await verifySecret(currentPassword, storedHash))) {
+      return res.status(403).json({ error: 'Current password is incorrect' });
+    }
+
+    await pool.query(
+      `UPDATE srs.users
+          SET password_hash = $1,
+              updated_at = NOW()
+        WHERE id = $2`,
+      [await hashSecret(newPassword), userId]
+    );
+    // Sign out every other device that was using the old password
+    await pool.query(
+      `UPDATE srs.sessions
+          SET revoked_at = NOW()
+        WHERE user_id = $1
+          AND id <> $2
+          AND revoked_at IS NULL`,
+      [userId, sessionId]
+    );
+    res.json({ success: true, message: 'Password updated.' });
+  } catch (err) {
+    console.error('Failed to change teacher password', err);
+    res.status(500).json({ error: 'Failed to change password' });
+  }
+});
+
+const gradeSchema = z.object({
+  grade: z.enum(['again','hard','good','easy']),
+  // Time until the card was turned over
+  responseMs: z.number().int().min(0).max(MAX_RESPONSE_MS).optional()
+});
+
+// Self-graded reviews send a grade; typed answers send what the student entered
+// and how long they took, and are graded here (see answers.ts)
+const reviewSchema = z.union([
+  gradeSchema,
+  z.object({
+    answer: z.string().max(MAX_ANSWER_LENGTH),
+    responseMs: z.number().int().min(0).max(MAX_RESPONSE_MS)
+  })
+]);
+
+// Students without a class self-grade
+async function fetchAnswerMode(queryable: Queryable, userId: string): Promise<AnswerMode> {
+  const { rows } = await queryable.query<{ answer_mode: AnswerMode | null }>(
+    `SELECT c.answer_mode
+       FROM srs.users u
+       LEFT JOIN srs.classes c ON c.id = u.class_id
+      WHERE u.id = $1`,
+    [userId]
+  );
+  return rows[0]?.answer_mode ?? DEFAULT_ANSWER_MODE;
+}
+
+// How the signed-in student's practice sessions should run
+app.get('/api/practice-settings', async (req: Request, res: Response) => {
+  const { userId } = req as AuthedRequest;
+  try {
+    res.json({ answer_mode: await fetchAnswerMode(pool, userId) });
+  } catch (err) {
+    console.error('Failed to load practice settings', err);
+    res.status(500).json({ error: 'Failed to load practice settings' });
+  }
+});
+
+// Comma-separated minutes; an empty value turns the steps off.
+function resolveStepMinutes(name: string, rawValue: string | undefined, fallback: number[]): number[] {
+  if (rawValue === undefined) return fallback;
+  if (!rawValue.trim()) return [];
+  const steps = rawValue.split(',').map(value => Number(value.trim()));
+  if (
+    steps.length > MAX_LEARNING_STEPS ||
+    steps.some(step => !Number.isInteger(step) || step <= 0 || step >= MINUTES_PER_DAY)
+  ) {
+    console.warn(`Ignoring invalid ${name} value "${rawValue}"; using ${fallback.join(',')}.`);
+    return fallback;
+  }
+  return steps;
+}
+
+function resolveLearnAheadMinutes(rawValue?: string | null): number {
+  const fallback = 20;
+  if (!rawValue) return fallback;
+  const minutes = Number(rawValue);
+  if (!Number.isFinite(minutes) || minutes < 0) {
+    console.warn(`Ignoring invalid LEARN_AHEAD_MINUTES value "${rawValue}"; using ${fallback} minutes.`);
+    return fallback;
+  }
+  return minutes;
+}
+
+const defaultLearningSteps: LearningSteps = {
+  learning: resolveStepMinutes('LEARNING_STEPS_MINUTES', process.env.LEARNING_STEPS_MINUTES, [1, 10]),
+  relearning: resolveStepMinutes('RELEARNING_STEPS_MINUTES', process.env.RELEARNING_STEPS_MINUTES, [10])
+};
+// Cards in their steps that fall due within this window are served early so a
+// session can bring a missed fact back instead of ending
+const learnAheadMinutes = resolveLearnAheadMinutes(process.env.LEARN_AHEAD_MINUTES ?? null);
+
+const defaultNewCardsPerDay = resolveNewCardsPerDay(process.env.NEW_CARDS_PER_DAY ?? null);
+
+// How many more new facts the student may meet today under their class's limit
+async function resolveNewCardAllowance(queryable: Queryable, userId: string): Promise<number> {
+  const { rows } = await queryable.query<{ per_day: number; introduced_today: string }>(
+    `SELECT COALESCE(c.new_cards_per_day, $2) AS per_day,
+            (SELECT COUNT(*)
+               FROM srs.card_state cs
+              WHERE cs.user_id = u.id
+                AND cs.introduced_at >= ${dayStartSql(
+                  'NOW()',
+                  'COALESCE(c.timezone, $3)',
+                  'COALESCE(c.day_rollover_hour, $4)'
+                )}
+            ) AS introduced_today
+       FROM srs.users u
+       LEFT JOIN srs.classes c ON c.id = u.class_id
+      WHERE u.id = $1`,
+    [userId, defaultNewCardsPerDay, defaultDayBoundary.timeZone, defaultDayBoundary.rolloverHour]
+  );
+  const row = rows[0];
+  if (!row) return 0;
+  return newCardAllowance(Number(row.per_day), Number(row.introduced_today));
+}
 
-const gradeSchema = z.object({ grade: z.enum(['again','hard','good','easy']) });
+interface StudentScheduling {
+  scheduler: Scheduler;
+  steps: LearningSteps;
+  day: DayBoundary;
+}
+
+// A student's own scheduler wins over their class's; unassigned students use the
+// default. Fitted parameters follow the same order and only count when they were
+// fitted for the scheduler in effect. Learning steps and the school day come from the class.
+async function resolveStudentScheduling(client: Queryable, userId: string): Promise<StudentScheduling> {
+  const { rows } = await client.query<{
+    scheduler: string | null;
+    params: unknown;
+    learning_steps: number[] | null;
+    relearning_steps: number[] | null;
+    timezone: string | null;
+    day_rollover_hour: number | null;
+  }>(
+    `SELECT chosen.scheduler,
+            COALESCE(own.params, class_params.params) AS params,
+            c.learning_steps,
+            c.relearning_steps,
+            c.timezone,
+            c.day_rollover_hour
+       FROM srs.users u
+       LEFT JOIN srs.classes c ON c.id = u.class_id
+       CROSS JOIN LATERAL (SELECT COALESCE(u.scheduler, c.scheduler) AS scheduler) chosen
+       LEFT JOIN srs.scheduler_params own
+              ON own.user_id = u.id AND own.scheduler = chosen.scheduler
+       LEFT JOIN srs.scheduler_params class_params
+              ON class_params.class_id = u.class_id AND class_params.scheduler = chosen.scheduler
+      WHERE u.id = $1`,
+    [userId]
+  );
+  const row = rows[0];
+  return {
+    scheduler: getScheduler(isSchedulerName(row?.scheduler) ? row.scheduler : DEFAULT_SCHEDULER, row?.params),
+    steps: {
+      learning: row?.learning_steps ?? defaultLearningSteps.learning,
+      relearning: row?.relearning_steps ?? defaultLearningSteps.relearning
+    },
+    day: dayBoundaryFromRow(row)
+  };
+}
+
+// Extra WHERE condition limiting a query over srs.cards (aliased c) to the set
+function practiceSetClause(practiceSet: PracticeSet): string {
+  if (practiceSet !== '9x9') return '';
+  const factorMatch = "regexp_match(lower(c.front), '(\\d+)\\D+(\\d+)')";
+  const factor1Expr = `COALESCE(((${factorMatch})[1])::integer, 100)`;
+  const factor2Expr = `COALESCE(((${factorMatch})[2])::integer, 100)`;
+  return `
+      AND (
+        ${factor1Expr} <= 9
+        AND ${factor2Expr} <= 9
+      )`;
+}
 
 // Get cards using the user's card_state entries
 app.get('/api/cards', async (req: Request, res: Response) => {
@@ -868,39 +3997,24 @@ app.get('/api/cards', async (req: Request, res: Response) => {
   }
 
   const setParam = typeof req.query.set === 'string' ? req.query.set.trim().toLowerCase() : null;
-  let practiceSet: '9x9' | 'full' = 'full';
+  let practiceSet: PracticeSet = 'full';
   if (setParam) {
-    if (setParam === '9x9') {
-      practiceSet = '9x9';
-    } else if (setParam === 'full') {
-      practiceSet = 'full';
-    } else {
+    if (!isPracticeSet(setParam)) {
       return res.status(400).json({ error: 'Invalid set' });
     }
+    practiceSet = setParam;
   }
 
-  const params: (string | number)[] = [userId];
+  const params: (string | number)[] = [userId, learnAheadMinutes];
   let limitClause = '';
   if (limit !== undefined) {
     params.push(limit);
     limitClause = `LIMIT $${params.length}`;
   }
 
-  let setClause = '';
-  if (practiceSet === '9x9') {
-    const factorMatch = "regexp_match(lower(c.front), '(\\d+)\\D+(\\d+)')";
-    const factor1Expr = `COALESCE(((${factorMatch})[1])::integer, 100)`;
-    const factor2Expr = `COALESCE(((${factorMatch})[2])::integer, 100)`;
-    setClause = `
-      AND (
-        ${factor1Expr} <= 9
-        AND ${factor2Expr} <= 9
-      )`;
-  }
+  const setClause = practiceSetClause(practiceSet);
 
-  const { rows } = await pool.query(
-    `
-    SELECT 
+  const cardColumns = `
       cs.id AS card_state_id,
       c.id AS card_id,
       c.front,
@@ -908,40 +4022,304 @@ app.get('/api/cards', async (req: Request, res: Response) => {
       cs.due_at AS next_review,
       cs.interval_days,
       cs.ease_factor::float,
-      cs.reps AS repetitions
-    FROM srs.card_state cs
-    INNER JOIN srs.cards c ON c.id = cs.card_id
-    WHERE cs.user_id = $1
-      AND cs.due_at <= NOW()
-    ${setClause}
-    ORDER BY cs.due_at ASC, c.id ASC
-    ${limitClause}
-    `,
-    params
+      cs.reps AS repetitions,
+      cs.learning_step,
+      cs.introduced_at`;
+
+  try {
+    // Reviews come first; new facts fill whatever room the session and today's limit leave
+    const reviews = await pool.query(
+      `
+      SELECT ${cardColumns}
+      FROM srs.card_state cs
+      INNER JOIN srs.cards c ON c.id = cs.card_id
+      WHERE cs.user_id = $1
+        AND cs.introduced_at IS NOT NULL
+        AND (
+          cs.due_at <= NOW()
+          OR (cs.learning_step IS NOT NULL AND cs.due_at <= NOW() + make_interval(mins => $2))
+        )
+        AND cs.suspended_at IS NULL
+      ${setClause}
+      ORDER BY cs.due_at ASC, c.id ASC
+      ${limitClause}
+      `,
+      params
+    );
+
+    const answerMode = await fetchAnswerMode(pool, userId);
+    const newSlots = newCardSlots(await resolveNewCardAllowance(pool, userId), limit, reviews.rows.length);
+    const newCards =
+      newSlots > 0
+        ? await pool.query(
+            `
+            SELECT ${cardColumns}
+            FROM srs.card_state cs
+            INNER JOIN srs.cards c ON c.id = cs.card_id
+            WHERE cs.user_id = $1
+              AND cs.introduced_at IS NULL
+              AND cs.suspended_at IS NULL
+            ${setClause}
+            ORDER BY ${NEW_CARD_ORDER_SQL}
+            LIMIT $2
+            `,
+            [userId, newSlots]
+          )
+        : { rows: [] };
+
+    res.json(
+      interleaveNewCards(reviews.rows, newCards.rows).map(row => ({
+        card_state_id: row.card_state_id,
+        card_id: row.card_id,
+        ...studentCardFace(row.front, row.back, answerMode),
+        next_review: row.next_review,
+        interval_days: row.interval_days,
+        ease_factor: row.ease_factor,
+        repetitions: row.repetitions,
+        learning_step: row.learning_step,
+        status: row.introduced_at === null ? 'new' : row.learning_step !== null ? 'learning' : 'review',
+        last_grade: null
+      }))
+    );
+  } catch (err) {
+    console.error('Failed to load cards', err);
+    res.status(500).json({ error: 'Failed to load cards' });
+  }
+});
+
+// Puts a day-scale review at the start of a school day, moving it within its fuzz
+// window toward days with fewer reviews already due (see workload.ts). Cards
+// still in their learning steps keep their exact time.
+async function placeReviewOutcome(
+  client: PoolClient,
+  userId: string,
+  cardStateId: string,
+  outcome: StepOutcome,
+  boundary: DayBoundary,
+  now: Date
+): Promise<StepOutcome> {
+  if (outcome.learningStep !== null) return outcome;
+  const range = fuzzRange(outcome.intervalDays);
+  const todayKey = dayKey(now, boundary);
+  let intervalDays = range.minDays;
+  if (range.maxDays > range.minDays) {
+    const counts = await fetchDueCountsByDay(
+      client,
+      userId,
+      boundary,
+      dayStart(addDaysToKey(todayKey, range.maxDays + 1), boundary),
+      cardStateId
+    );
+    intervalDays = pickBalancedInterval(range, offset => counts.get(addDaysToKey(todayKey, offset)) ?? 0);
+  }
+  return { ...outcome, intervalDays, dueAt: dayStart(addDaysToKey(todayKey, intervalDays), boundary) };
+}
+
+interface ReviewedCard {
+  card_id: number;
+  front: string;
+  back: string;
+  ease_factor: number;
+  interval_days: number;
+  reps: number;
+  last_reviewed_at: Date | null;
+  scheduler: string;
+  scheduler_state: SchedulerState | null;
+  learning_step: number | null;
+  due_at: Date;
+  introduced_at: Date | null;
+}
+
+// Loads one of the student's cards and locks it for the rest of the transaction
+async function lockReviewedCard(
+  client: PoolClient,
+  userId: string,
+  cardStateId: string
+): Promise<ReviewedCard | null> {
+  const { rows } = await client.query<ReviewedCard>(
+    `SELECT cs.card_id, cs.ease_factor::float, cs.interval_days, cs.reps, cs.last_reviewed_at,
+            cs.scheduler, cs.scheduler_state, cs.learning_step, cs.due_at, cs.introduced_at,
+            c.front, c.back
+       FROM srs.card_state cs
+       INNER JOIN srs.cards c ON c.id = cs.card_id
+      WHERE cs.user_id = $1 AND cs.id = $2
+      FOR UPDATE OF cs`,
+    [userId, cardStateId]
   );
+  return rows[0] ?? null;
+}
 
-  res.json(
-    rows.map(row => ({
-      card_state_id: row.card_state_id,
-      card_id: row.card_id,
-      front: row.front,
-      back: row.back,
-      next_review: row.next_review,
-      interval_days: row.interval_days,
-      ease_factor: row.ease_factor,
-      repetitions: row.repetitions,
-      last_grade: null
-    }))
+// Reschedules a locked card from a grade, logs the review and counts it toward
+// the student's progress, inside the caller's transaction
+async function applyReview(
+  client: PoolClient,
+  userId: string,
+  cardStateId: string,
+  card: ReviewedCard,
+  grade: Grade,
+  details: ReviewDetails
+): Promise<StepOutcome & { now: Date }> {
+  const g = GRADE_SCORES[grade];
+
+  const { scheduler, steps, day } = await resolveStudentScheduling(client, userId);
+  const now = new Date();
+  const outcome = reviewWithSteps(
+    scheduler,
+    {
+      intervalDays: card.interval_days,
+      easeFactor: card.ease_factor,
+      reps: card.reps,
+      lastReviewedAt: card.last_reviewed_at,
+      scheduler: isSchedulerName(card.scheduler) ? card.scheduler : DEFAULT_SCHEDULER,
+      state: card.scheduler_state
+    },
+    card.learning_step,
+    grade,
+    now,
+    steps
   );
-});
+  const placed = await placeReviewOutcome(client, userId, cardStateId, outcome, day, now);
+  const { dueAt, intervalDays: ivl, easeFactor: ef, reps, learningStep } = placed;
+
+  const supportsUpdatedAt = await doesCardStateHaveUpdatedAt(client);
+  const updateParams = [
+    dueAt,
+    ivl,
+    ef,
+    reps,
+    cardStateId,
+    userId,
+    outcome.scheduler,
+    outcome.state ? JSON.stringify(outcome.state) : null,
+    learningStep
+  ];
+  const updateWithUpdatedAt = `UPDATE srs.card_state
+        SET due_at = $1, interval_days = $2, ease_factor = $3,
+            reps = $4, scheduler = $7, scheduler_state = $8,
+            learning_step = $9, introduced_at = COALESCE(introduced_at, now()),
+            last_reviewed_at = now(), updated_at = now()
+      WHERE id = $5 AND user_id = $6`;
+  const updateWithoutUpdatedAt = `UPDATE srs.card_state
+        SET due_at = $1, interval_days = $2, ease_factor = $3,
+            reps = $4, scheduler = $7, scheduler_state = $8,
+            learning_step = $9, introduced_at = COALESCE(introduced_at, now()),
+            last_reviewed_at = now()
+      WHERE id = $5 AND user_id = $6`;
+
+  if (supportsUpdatedAt) {
+    await client.query('SAVEPOINT review_card_state_update');
+    try {
+      await client.query(updateWithUpdatedAt, updateParams);
+      await client.query('RELEASE SAVEPOINT review_card_state_update');
+    } catch (err) {
+      const pgErr = err as { code?: string; message?: string };
+      const missingUpdatedAt =
+        pgErr.code === '42703' && pgErr.message && pgErr.message.includes('updated_at');
+
+      if (!missingUpdatedAt) {
+        await client.query('ROLLBACK TO SAVEPOINT review_card_state_update');
+        throw err;
+      }
+
+      await client.query('ROLLBACK TO SAVEPOINT review_card_state_update');
+      cardStateSupportsUpdatedAt = false;
+      console.warn(
+        'Detected missing updated_at on srs.card_state; continuing without updating that column.'
+      );
+      await client.query(updateWithoutUpdatedAt, updateParams);
+      await client.query('RELEASE SAVEPOINT review_card_state_update');
+    }
+  } else {
+    await client.query(updateWithoutUpdatedAt, updateParams);
+  }
+
+  await logReviewEvent(client, userId, card.card_id, grade, g, details);
+
+  const correctIncrement = grade === 'good' || grade === 'easy' ? 1 : 0;
+  const progressPrivileges = await ensureStudentProgressPrivileges(client);
+  const canMutateProgress = progressPrivileges.insert && progressPrivileges.update;
+  let progressSkipped = !canMutateProgress;
+  let progressRowCount = 0;
+
+  if (!canMutateProgress) {
+    warnStudentProgress('student_progress write access not available; skipping progress tracking.');
+    studentProgressPrivileges = {
+      select: progressPrivileges.select,
+      insert: false,
+      update: false
+    };
+  } else {
+    try {
+      const progressResult = await client.query(
+        `UPDATE srs.student_progress
+            SET total_reviews = total_reviews + 1,
+                correct_reviews = correct_reviews + $2,
+                cards_completed = (
+                  SELECT COUNT(DISTINCT card_id)
+                  FROM srs.reviews
+                  WHERE user_id = $1
+                ),
+                updated_at = NOW()
+          WHERE user_id = $1`,
+        [userId, correctIncrement]
+      );
+      progressRowCount = progressResult.rowCount ?? 0;
+    } catch (err) {
+      const { code, message } = err as { code?: string; message?: string };
+      if (code === '42501') {
+        warnStudentProgress(`Skipping student_progress update due to permissions: ${message}`);
+        studentProgressPrivileges = {
+          select: progressPrivileges.select,
+          insert: false,
+          update: false
+        };
+        progressSkipped = true;
+      } else {
+        throw err;
+      }
+    }
+  }
+
+  if (!progressSkipped && progressRowCount === 0) {
+    try {
+      await client.query(
+        `INSERT INTO srs.student_progress (user_id, total_reviews, correct_reviews, cards_completed)
+         VALUES (
+           $1,
+           1,
+           $2,
+           (
+             SELECT COUNT(DISTINCT card_id)
+             FROM srs.reviews
+             WHERE user_id = $1
+           )
+         )`,
+        [userId, correctIncrement]
+      );
+    } catch (err) {
+      const { code, message } = err as { code?: string; message?: string };
+      if (code === '42501') {
+        warnStudentProgress(`Skipping student_progress insert due to permissions: ${message}`);
+        studentProgressPrivileges = {
+          select: progressPrivileges.select,
+          insert: false,
+          update: false
+        };
+      } else {
+        throw err;
+      }
+    }
+  }
+
+  return { ...placed, now };
+}
 
 // Update card SRS data and log review history
 app.post('/api/review/:cardStateId', async (req: Request, res: Response) => {
-  const parse = gradeSchema.safeParse(req.body);
+  const parse = reviewSchema.safeParse(req.body);
   if (!parse.success) return res.status(400).json({ error: 'Invalid grade' });
+  const submission = parse.data;
 
-  const gradeMap: Record<string, number> = { again:0, hard:1, good:2, easy:3 };
-  const g = gradeMap[parse.data.grade];
   const { userId } = req as AuthedRequest;
   if (!userId) {
     return res.status(401).json({ error: 'Unauthorized' });
@@ -956,175 +4334,216 @@ app.post('/api/review/:cardStateId', async (req: Request, res: Response) => {
   try {
     await client.query('BEGIN');
 
-    const { rows } = await client.query(
-      `SELECT card_id, ease_factor::float, interval_days, reps
-         FROM srs.card_state
-        WHERE user_id = $1 AND id = $2
-        FOR UPDATE`,
-      [userId, cardStateId]
-    );
-    if (rows.length === 0) {
+    const card = await lockReviewedCard(client, userId, cardStateId);
+    if (!card) {
       await client.query('ROLLBACK');
       return res.status(404).json({ error: 'Card not found' });
     }
-    let { card_id: originalCardId, ease_factor: ef, interval_days: ivl, reps } = rows[0] as {
-      card_id: number;
-      ease_factor: number;
-      interval_days: number;
-      reps: number;
-    };
 
-    // --- SM-2(ish) update ---
-    // Grades: 0 again, 1 hard, 2 good, 3 easy
-    if (g < 2) {
-      reps = 0;
-      ivl = 1;
+    const classAnswerMode = await fetchAnswerMode(client, userId);
+    let grade: Grade;
+    let correct: boolean | null = null;
+    let details: ReviewDetails;
+    if ('answer' in submission) {
+      ({ correct, grade, details } = checkAnswer(
+        card,
+        submission.answer,
+        submission.responseMs,
+        checkedAnswerMode(classAnswerMode)
+      ));
     } else {
-      reps += 1;
-      if (reps === 1) ivl = 1;
-      else if (reps === 2) ivl = 6;
-      else ivl = Math.max(1, Math.round(ivl * ef));
-    }
-
-    // Ease factor adjustment (classic SM-2)
-    // ef' = ef + (0.1 - (3 - q) * (0.08 + (3 - q) * 0.02))
-    const q = g; // 0..3 (we mapped 0..3 instead of 0..5; works fine)
-    const delta = 0.1 - (3 - q) * (0.08 + (3 - q) * 0.02);
-    ef = Math.max(1.3, ef + delta);
-
-    // Gentle boosts/nerfs for Easy/Hard
-    if (g === 3) ivl = Math.round(ivl * 1.3);
-
-    const dueAt = new Date();
-    dueAt.setUTCDate(dueAt.getUTCDate() + ivl);
-
-    const supportsUpdatedAt = await doesCardStateHaveUpdatedAt(client);
-    const updateParams = [dueAt, ivl, ef, reps, cardStateId, userId];
-    const updateWithUpdatedAt = `UPDATE srs.card_state
-          SET due_at = $1, interval_days = $2, ease_factor = $3,
-              reps = $4, last_reviewed_at = now(), updated_at = now()
-        WHERE id = $5 AND user_id = $6`;
-    const updateWithoutUpdatedAt = `UPDATE srs.card_state
-          SET due_at = $1, interval_days = $2, ease_factor = $3,
-              reps = $4, last_reviewed_at = now()
-        WHERE id = $5 AND user_id = $6`;
-
-    if (supportsUpdatedAt) {
-      await client.query('SAVEPOINT review_card_state_update');
-      try {
-        await client.query(updateWithUpdatedAt, updateParams);
-        await client.query('RELEASE SAVEPOINT review_card_state_update');
-      } catch (err) {
-        const pgErr = err as { code?: string; message?: string };
-        const missingUpdatedAt =
-          pgErr.code === '42703' && pgErr.message && pgErr.message.includes('updated_at');
+      // Classes that answer by typing or choosing may not grade themselves
+      if (classAnswerMode !== 'self') {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ error: 'This class checks answers instead of self-grading' });
+      }
+      grade = submission.grade;
+      details = { responseMs: submission.responseMs ?? null, answerMode: 'self' };
+    }
+    const { dueAt, intervalDays: ivl, easeFactor: ef, reps, learningStep, now } = await applyReview(
+      client,
+      userId,
+      cardStateId,
+      card,
+      grade,
+      details
+    );
 
-        if (!missingUpdatedAt) {
-          await client.query('ROLLBACK TO SAVEPOINT review_card_state_update');
-          throw err;
-        }
+    await client.query('COMMIT');
+    res.json({
+      ok: true,
+      grade,
+      // Only for answers the server checked
+      correct,
+      expected_answer: correct === null ? null : card.back,
+      next_review: dueAt.toISOString(),
+      interval_days: ivl,
+      ease_factor: ef,
+      repetitions: reps,
+      learning_step: learningStep,
+      // Whether GET /api/cards would serve the card again right away, so the session can re-queue it
+      due_in_session:
+        learningStep !== null && dueAt.getTime() <= now.getTime() + learnAheadMinutes * 60 * 1000
+    });
+  } catch (e) {
+    await client.query('ROLLBACK');
+    console.error('Review update failed:', e);
+    res.status(500).json({ error: 'Update failed' });
+  } finally {
+    client.release();
+  }
+});
 
-        await client.query('ROLLBACK TO SAVEPOINT review_card_state_update');
-        cardStateSupportsUpdatedAt = false;
-        console.warn(
-          'Detected missing updated_at on srs.card_state; continuing without updating that column.'
-        );
-        await client.query(updateWithoutUpdatedAt, updateParams);
-        await client.query('RELEASE SAVEPOINT review_card_state_update');
-      }
-    } else {
-      await client.query(updateWithoutUpdatedAt, updateParams);
+// Sprint scores and personal bests are only kept for students
+app.use('/api/sprints', requireStudent);
+
+// Starts a timed sprint over every fact in the set, due facts first and the
+// rest shuffled; the client cycles through them until time is up
+app.post('/api/sprints', async (req: Request, res: Response) => {
+  const parse = sprintSchema.safeParse(req.body);
+  if (!parse.success) {
+    return res.status(400).json({ error: parse.error.issues[0]?.message ?? 'Invalid sprint' });
+  }
+  const { practiceSet, minutes } = parse.data;
+  const { userId } = req as AuthedRequest;
+  if (!userId) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const answerMode = checkedAnswerMode(await fetchAnswerMode(pool, userId));
+    const cards = await pool.query<{ card_state_id: string; front: string; back: string }>(
+      `SELECT cs.id AS card_state_id, c.front, c.back
+         FROM srs.card_state cs
+         INNER JOIN srs.cards c ON c.id = cs.card_id
+        WHERE cs.user_id = $1
+          AND cs.suspended_at IS NULL
+        ${practiceSetClause(practiceSet)}
+        ORDER BY (cs.introduced_at IS NOT NULL AND cs.due_at <= NOW()) DESC, random()`,
+      [userId]
+    );
+    if (cards.rows.length === 0) {
+      return res.status(400).json({ error: 'There are no facts to practise in this set' });
     }
 
-    await logReviewEvent(client, userId, originalCardId, parse.data.grade, g);
+    const { rows } = await pool.query<{ id: string; started_at: Date; ends_at: Date }>(
+      `INSERT INTO srs.sprints (user_id, practice_set, duration_seconds, answer_mode, card_state_ids, ends_at)
+       VALUES ($1, $2, $3, $4, $5::uuid[], NOW() + make_interval(secs => $3))
+       RETURNING id, started_at, ends_at`,
+      [userId, practiceSet, minutes * 60, answerMode, cards.rows.map(row => row.card_state_id)]
+    );
+    const sprint = rows[0];
+    res.status(201).json({
+      sprint_id: sprint.id,
+      practice_set: practiceSet,
+      duration_seconds: minutes * 60,
+      answer_mode: answerMode,
+      started_at: sprint.started_at,
+      ends_at: sprint.ends_at,
+      // The answer stays on the server, which checks each one
+      cards: cards.rows.map(row => ({
+        card_state_id: row.card_state_id,
+        ...studentCardFace(row.front, row.back, answerMode)
+      }))
+    });
+  } catch (err) {
+    console.error('Failed to start sprint', err);
+    res.status(500).json({ error: 'Failed to start sprint' });
+  }
+});
 
-    const correctIncrement = parse.data.grade === 'good' || parse.data.grade === 'easy' ? 1 : 0;
-    const progressPrivileges = await ensureStudentProgressPrivileges(client);
-    const canMutateProgress = progressPrivileges.insert && progressPrivileges.update;
-    let progressSkipped = !canMutateProgress;
-    let progressRowCount = 0;
+// Checks one sprint answer and adds it to the score. A wrong answer lapses the
+// fact and a right answer to a fact that was due counts as its review; other
+// right answers only score, so drilling a fact early does not push it further
+// out. Facts the student has not been introduced to yet are left to the
+// new-fact limit.
+app.post('/api/sprints/:sprintId/answers', async (req: Request, res: Response) => {
+  const parse = sprintAnswerSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: 'Invalid answer' });
+  const { cardStateId, answer, responseMs } = parse.data;
 
-    if (!canMutateProgress) {
-      warnStudentProgress('student_progress write access not available; skipping progress tracking.');
-      studentProgressPrivileges = {
-        select: progressPrivileges.select,
-        insert: false,
-        update: false
-      };
-    } else {
-      try {
-        const progressResult = await client.query(
-          `UPDATE srs.student_progress
-              SET total_reviews = total_reviews + 1,
-                  correct_reviews = correct_reviews + $2,
-                  cards_completed = (
-                    SELECT COUNT(DISTINCT card_id)
-                    FROM srs.reviews
-                    WHERE user_id = $1
-                  ),
-                  updated_at = NOW()
-            WHERE user_id = $1`,
-          [userId, correctIncrement]
-        );
-        progressRowCount = progressResult.rowCount ?? 0;
-      } catch (err) {
-        const { code, message } = err as { code?: string; message?: string };
-        if (code === '42501') {
-          warnStudentProgress(`Skipping student_progress update due to permissions: ${message}`);
-          studentProgressPrivileges = {
-            select: progressPrivileges.select,
-            insert: false,
-            update: false
-          };
-          progressSkipped = true;
-        } else {
-          throw err;
-        }
-      }
+  const { userId } = req as AuthedRequest;
+  if (!userId) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  const { sprintId } = req.params;
+  if (!/^[0-9a-fA-F-]{36}$/.test(sprintId)) {
+    return res.status(404).json({ error: 'Sprint not found' });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const sprints = await client.query<{ answer_mode: AnswerMode; expected_card_state_id: string; open: boolean }>(
+      `SELECT answer_mode,
+              card_state_ids[attempted % cardinality(card_state_ids) + 1] AS expected_card_state_id,
+              NOW() <= ends_at + make_interval(secs => $3) AS open
+         FROM srs.sprints
+        WHERE id = $1 AND user_id = $2
+        FOR UPDATE`,
+      [sprintId, userId, SPRINT_GRACE_SECONDS]
+    );
+    const sprint = sprints.rows[0];
+    if (!sprint) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'Sprint not found' });
+    }
+    if (!sprint.open) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ error: 'This sprint is over' });
+    }
+    if (!isSprintCardInTurn(cardStateId, sprint.expected_card_state_id)) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ error: 'That is not the fact this sprint is on' });
     }
 
-    if (!progressSkipped && progressRowCount === 0) {
-      try {
-        await client.query(
-          `INSERT INTO srs.student_progress (user_id, total_reviews, correct_reviews, cards_completed)
-           VALUES (
-             $1,
-             1,
-             $2,
-             (
-               SELECT COUNT(DISTINCT card_id)
-               FROM srs.reviews
-               WHERE user_id = $1
-             )
-           )`,
-          [userId, correctIncrement]
-        );
-      } catch (err) {
-        const { code, message } = err as { code?: string; message?: string };
-        if (code === '42501') {
-          warnStudentProgress(`Skipping student_progress insert due to permissions: ${message}`);
-          studentProgressPrivileges = {
-            select: progressPrivileges.select,
-            insert: false,
-            update: false
-          };
-        } else {
-          throw err;
-        }
-      }
+    const card = await lockReviewedCard(client, userId, cardStateId);
+    if (!card) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'Card not found' });
     }
 
+    const { correct, grade, details } = checkAnswer(card, answer, responseMs, sprint.answer_mode);
+    const scheduled = sprintAnswerReschedules(card, correct, Date.now());
+    if (scheduled) {
+      await applyReview(client, userId, cardStateId, card, grade, details);
+    }
+
+    const totals = await client.query<{ attempted: number; score: number }>(
+      `UPDATE srs.sprints
+          SET attempted = attempted + 1, score = score + $3
+        WHERE id = $1 AND user_id = $2
+        RETURNING attempted, score`,
+      [sprintId, userId, correct ? 1 : 0]
+    );
+
     await client.query('COMMIT');
-    res.json({ ok: true, next_review: dueAt.toISOString(), interval_days: ivl, ease_factor: ef, repetitions: reps });
-  } catch (e) {
+    res.json({
+      correct,
+      expected_answer: card.back,
+      // Whether the answer changed when the fact is next due
+      scheduled,
+      attempted: totals.rows[0].attempted,
+      score: totals.rows[0].score
+    });
+  } catch (err) {
     await client.query('ROLLBACK');
-    console.error('Review update failed:', e);
-    res.status(500).json({ error: 'Update failed' });
+    console.error('Sprint answer failed:', err);
+    res.status(500).json({ error: 'Failed to record answer' });
   } finally {
     client.release();
   }
 });
 
+app.get('/api/sprints', (req: Request, res: Response) => {
+  const { userId } = req as AuthedRequest;
+  if (!userId) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  return sendSprintHistory(res, userId);
+});
+
 const clientBuildPath = path.resolve(__dirname, '../../client/build');
 if (fs.existsSync(clientBuildPath)) {
   app.use(express.static(clientBuildPath));
@@ -0,0 +1,62 @@
+import { isPracticeSet, isSprintCardInTurn, sprintAnswerReschedules, sprintAnswerSchema, sprintSchema } from './sprints';
+
+const now = Date.UTC(2024, 2, 1, 9);
+const cardStateId = '3f1c2a4e-8b7d-4c6a-9e2f-1a2b3c4d5e6f';
+
+describe('sprintSchema', () => {
+  test('takes a known practice set and one to five minutes', () => {
+    expect(sprintSchema.parse({ practiceSet: '9x9', minutes: 1 })).toEqual({ practiceSet: '9x9', minutes: 1 });
+    expect(sprintSchema.safeParse({ practiceSet: 'full', minutes: 5 }).success).toBe(true);
+    expect(sprintSchema.safeParse({ practiceSet: 'full', minutes: 0 }).success).toBe(false);
+    expect(sprintSchema.safeParse({ practiceSet: 'full', minutes: 6 }).success).toBe(false);
+    expect(sprintSchema.safeParse({ practiceSet: 'full', minutes: 1.5 }).success).toBe(false);
+    expect(sprintSchema.safeParse({ practiceSet: '12x12', minutes: 1 }).success).toBe(false);
+  });
+
+  test('shares its practice sets with the card list', () => {
+    expect(isPracticeSet('9x9')).toBe(true);
+    expect(isPracticeSet('full')).toBe(true);
+    expect(isPracticeSet('12x12')).toBe(false);
+  });
+});
+
+describe('sprintAnswerSchema', () => {
+  test('needs the card, a short answer and a plausible response time', () => {
+    expect(sprintAnswerSchema.safeParse({ cardStateId, answer: '56', responseMs: 1200 }).success).toBe(true);
+    expect(sprintAnswerSchema.safeParse({ cardStateId: '7', answer: '56', responseMs: 1200 }).success).toBe(false);
+    expect(sprintAnswerSchema.safeParse({ cardStateId, answer: '5'.repeat(21), responseMs: 1200 }).success).toBe(false);
+    expect(sprintAnswerSchema.safeParse({ cardStateId, answer: '56', responseMs: -1 }).success).toBe(false);
+  });
+});
+
+describe('isSprintCardInTurn', () => {
+  test('accepts only the fact the sprint is on, in any letter case', () => {
+    expect(isSprintCardInTurn(cardStateId.toUpperCase(), cardStateId)).toBe(true);
+    expect(isSprintCardInTurn('0b6f3c1e-2d4a-4e8b-9c7d-5a1b2c3d4e5f', cardStateId)).toBe(false);
+  });
+});
+
+describe('sprintAnswerReschedules', () => {
+  const introduced = new Date(now - 7 * 24 * 60 * 60 * 1000);
+  const due = { introduced_at: introduced, due_at: new Date(now - 1000) };
+  const notDue = { introduced_at: introduced, due_at: new Date(now + 24 * 60 * 60 * 1000) };
+
+  test('counts a right answer as the review of a due fact', () => {
+    expect(sprintAnswerReschedules(due, true, now)).toBe(true);
+    expect(sprintAnswerReschedules({ ...due, due_at: new Date(now) }, true, now)).toBe(true);
+  });
+
+  test('does not push a fact further out for a right answer before it is due', () => {
+    expect(sprintAnswerReschedules(notDue, true, now)).toBe(false);
+  });
+
+  test('lapses a fact on a wrong answer whether or not it was due', () => {
+    expect(sprintAnswerReschedules(due, false, now)).toBe(true);
+    expect(sprintAnswerReschedules(notDue, false, now)).toBe(true);
+  });
+
+  test('leaves facts the student has not met yet to the new-fact limit', () => {
+    expect(sprintAnswerReschedules({ introduced_at: null, due_at: new Date(now - 1000) }, false, now)).toBe(false);
+    expect(sprintAnswerReschedules({ introduced_at: null, due_at: new Date(now - 1000) }, true, now)).toBe(false);
+  });
+});
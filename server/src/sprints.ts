@@ -0,0 +1,50 @@
+/**
+ * Timed sprints. A student answers as many facts from a practice set as they
+ * can in a few minutes; the server serves the facts in a fixed order, checks
+ * every answer and keeps the score. Only answers that a review would have
+ * counted anyway touch the schedule, so drilling cannot push facts further out.
+ */
+
+import { z } from 'zod';
+import { MAX_ANSWER_LENGTH, MAX_RESPONSE_MS } from './answers';
+
+export const PRACTICE_SETS = ['9x9', 'full'] as const;
+export type PracticeSet = (typeof PRACTICE_SETS)[number];
+
+export function isPracticeSet(value: string): value is PracticeSet {
+  return (PRACTICE_SETS as readonly string[]).includes(value);
+}
+
+const MIN_SPRINT_MINUTES = 1;
+const MAX_SPRINT_MINUTES = 5;
+// Answers already on their way when the clock runs out still count
+export const SPRINT_GRACE_SECONDS = 5;
+
+export const MAX_SPRINT_HISTORY = 50;
+
+export const sprintSchema = z.object({
+  practiceSet: z.enum(PRACTICE_SETS),
+  minutes: z.number().int().min(MIN_SPRINT_MINUTES).max(MAX_SPRINT_MINUTES)
+});
+
+export const sprintAnswerSchema = z.object({
+  cardStateId: z.string().uuid(),
+  answer: z.string().max(MAX_ANSWER_LENGTH),
+  responseMs: z.number().int().min(0).max(MAX_RESPONSE_MS)
+});
+
+// Facts are answered in the order they were served, so a student cannot
+// score by answering one easy fact over and over or one from another set
+export function isSprintCardInTurn(cardStateId: string, expectedCardStateId: string): boolean {
+  return cardStateId.toLowerCase() === expectedCardStateId.toLowerCase();
+}
+
+// Whether a sprint answer is also applied to the fact as a review
+export function sprintAnswerReschedules(
+  card: { introduced_at: Date | null; due_at: Date },
+  correct: boolean,
+  now: number
+): boolean {
+  if (card.introduced_at === null) return false;
+  return !correct || card.due_at.getTime() <= now;
+}
@@ -0,0 +1,126 @@
+import {
+  CARD_FACTOR_A_SQL,
+  CARD_FACTOR_B_SQL,
+  clearStudentMessage,
+  resetCardStateSql,
+  resetScopeFilter,
+  resetSrsMessage,
+  resetSrsSchema
+} from './student-reset';
+
+// Collapses the whitespace so the assertions read like the SQL
+const flat = (sql: string) => sql.replace(/\s+/g, ' ').trim();
+
+describe('resetCardStateSql', () => {
+  test('puts the cards back to new and due now for one student', () => {
+    const sql = flat(resetCardStateSql(false, false));
+    expect(sql).toMatch(/^UPDATE srs\.card_state SET due_at = NOW\(\), interval_days = 0, ease_factor = 2\.5, reps = 0,/);
+    expect(sql).toContain('scheduler_state = NULL');
+    expect(sql).toContain('learning_step = NULL');
+    expect(sql).toMatch(/WHERE user_id = \$1$/);
+  });
+
+  test('only clears the introduction date when the cards are reintroduced', () => {
+    expect(resetCardStateSql(false, false)).not.toContain('introduced_at');
+    expect(flat(resetCardStateSql(true, false))).toContain('introduced_at = NULL, last_reviewed_at = NULL');
+  });
+
+  test('touches updated_at only where the column exists', () => {
+    expect(resetCardStateSql(false, false)).not.toContain('updated_at');
+    expect(flat(resetCardStateSql(false, true))).toContain('last_reviewed_at = NULL , updated_at = NOW()');
+  });
+
+  test('narrows the rows with the extra clause', () => {
+    expect(flat(resetCardStateSql(false, false, 'AND card_id = ANY($2::int[])'))).toMatch(
+      /WHERE user_id = \$1 AND card_id = ANY\(\$2::int\[\]\)$/
+    );
+  });
+});
+
+describe('clearStudentMessage', () => {
+  test('reports re-created cards and counts reviews', () => {
+    expect(clearStudentMessage(1, { mode: 'reseeded', cards: 144 })).toBe(
+      'Deleted 1 review, reset progress counters and re-created 144 cards as new.'
+    );
+  });
+
+  test('explains why cards were reset in place', () => {
+    expect(clearStudentMessage(0, { mode: 'reset', cards: 144 })).toBe(
+      'Deleted 0 reviews, reset progress counters and reset 144 cards to new ' +
+        '(cards were kept because the database role cannot delete them).'
+    );
+  });
+});
+
+describe('resetSrsSchema', () => {
+  test('resets every card and keeps them introduced unless told otherwise', () => {
+    expect(resetSrsSchema.parse({})).toEqual({ scope: { type: 'all' }, reintroduce: false });
+  });
+
+  test('takes a set, a factor or a list of card ids', () => {
+    expect(resetSrsSchema.parse({ scope: { type: 'set', max: 9 }, reintroduce: true }).scope).toEqual({
+      type: 'set',
+      max: 9
+    });
+    expect(resetSrsSchema.parse({ scope: { type: 'factor', factor: 7 } }).scope).toEqual({ type: 'factor', factor: 7 });
+    expect(resetSrsSchema.parse({ scope: { type: 'cardIds', cardIds: [3, 4] } }).scope).toEqual({
+      type: 'cardIds',
+      cardIds: [3, 4]
+    });
+  });
+
+  test('refuses factors outside the times tables and empty card lists', () => {
+    expect(resetSrsSchema.safeParse({ scope: { type: 'factor', factor: 13 } }).success).toBe(false);
+    expect(resetSrsSchema.safeParse({ scope: { type: 'set', max: 0 } }).success).toBe(false);
+    expect(resetSrsSchema.safeParse({ scope: { type: 'cardIds', cardIds: [] } }).success).toBe(false);
+    expect(resetSrsSchema.safeParse({ scope: { type: 'deck' } }).success).toBe(false);
+  });
+});
+
+describe('card factor SQL', () => {
+  // The same patterns Postgres applies to the card front
+  const factor = (sql: string, front: string) => Number(new RegExp(/'(.+)'/.exec(sql)![1]).exec(front)?.[1]);
+
+  test('reads both factors from a seeded front', () => {
+    expect(factor(CARD_FACTOR_A_SQL, '7 × 8')).toBe(7);
+    expect(factor(CARD_FACTOR_B_SQL, '7 × 8')).toBe(8);
+    expect(factor(CARD_FACTOR_A_SQL, ' 12×11 ')).toBe(12);
+    expect(factor(CARD_FACTOR_B_SQL, ' 12×11 ')).toBe(11);
+  });
+});
+
+describe('resetScopeFilter', () => {
+  test('adds nothing for all cards', () => {
+    expect(resetScopeFilter({ type: 'all' })).toEqual({ where: '', params: [] });
+  });
+
+  test('bounds both factors for a set and either factor for a family', () => {
+    const set = resetScopeFilter({ type: 'set', max: 9 });
+    expect(flat(set.where)).toContain(`${CARD_FACTOR_A_SQL} <= $2 AND ${CARD_FACTOR_B_SQL} <= $2`);
+    expect(set.params).toEqual([9]);
+    const family = resetScopeFilter({ type: 'factor', factor: 7 });
+    expect(flat(family.where)).toContain(`${CARD_FACTOR_A_SQL} = $2 OR ${CARD_FACTOR_B_SQL} = $2`);
+    expect(family.params).toEqual([7]);
+  });
+
+  test('passes card ids as one array parameter', () => {
+    expect(resetScopeFilter({ type: 'cardIds', cardIds: [3, 4] })).toEqual({
+      where: 'AND card_id = ANY($2::int[])',
+      params: [[3, 4]]
+    });
+  });
+});
+
+describe('resetSrsMessage', () => {
+  test('names the scope and says when the cards come back', () => {
+    expect(resetSrsMessage(12, { type: 'factor', factor: 7 }, false)).toBe(
+      'Reset scheduling for 12 cards (the 7s). They are due for review now.'
+    );
+    expect(resetSrsMessage(81, { type: 'set', max: 9 }, true)).toBe(
+      'Reset scheduling for 81 cards (the 9×9 set). They will come back as new facts under the daily new-fact limit.'
+    );
+    expect(resetSrsMessage(1, { type: 'cardIds', cardIds: [3] }, false)).toBe(
+      'Reset scheduling for 1 card (1 selected card). They are due for review now.'
+    );
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Clearing and resetting a student's cards. A clear deletes the student's
+ * reviews, zeroes their progress counters and starts every card over; when the
+ * database role may not delete card_state rows, the cards are reset in place
+ * with the same UPDATE a teacher's SRS reset uses. An SRS reset keeps the
+ * history and can be scoped to a practice set, a fact family or chosen cards.
+ */
+
+import { z } from 'zod';
+
+export interface ClearedCardState {
+  // 'reseeded' deleted and re-created the rows; 'reset' updated them in place
+  mode: 'reseeded' | 'reset';
+  cards: number;
+}
+
+// Puts a student's card_state rows ($1 is the user id) back to "new, due now"
+// without deleting them. `reintroduce` makes the cards new again, so they come
+// back under the daily new-fact limit; otherwise they stay introduced and are
+// all due right away. `extraWhere` narrows the rows and numbers its parameters from $2.
+export function resetCardStateSql(reintroduce: boolean, hasUpdatedAt: boolean, extraWhere = ''): string {
+  return `UPDATE srs.card_state
+        SET due_at = NOW(),
+            interval_days = 0,
+            ease_factor = 2.5,
+            reps = 0,
+            scheduler_state = NULL,
+            learning_step = NULL,
+            ${reintroduce ? 'introduced_at = NULL,' : ''}
+            last_reviewed_at = NULL
+            ${hasUpdatedAt ? ', updated_at = NOW()' : ''}
+      WHERE user_id = $1 ${extraWhere}`;
+}
+
+export function clearStudentMessage(reviewsDeleted: number, cardState: ClearedCardState): string {
+  return (
+    `Deleted ${reviewsDeleted} review${reviewsDeleted === 1 ? '' : 's'}, reset progress counters and ` +
+    (cardState.mode === 'reseeded'
+      ? `re-created ${cardState.cards} cards as new.`
+      : `reset ${cardState.cards} cards to new (cards were kept because the database role cannot delete them).`)
+  );
+}
+
+// Card fronts are seeded as '<a> × <b>'; these pull the two factors back out.
+export const CARD_FACTOR_A_SQL = `substring(c.front from '^\\s*(\\d+)\\s*×')::int`;
+export const CARD_FACTOR_B_SQL = `substring(c.front from '×\\s*(\\d+)\\s*$')::int`;
+
+export const resetScopeSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('all') }),
+  // A practice set such as 9×9: every fact whose factors are both at most `max`
+  z.object({ type: z.literal('set'), max: z.number().int().min(1).max(12) }),
+  // A fact family such as "the 7s": every fact with `factor` on either side
+  z.object({ type: z.literal('factor'), factor: z.number().int().min(1).max(12) }),
+  z.object({ type: z.literal('cardIds'), cardIds: z.array(z.number().int().positive()).min(1).max(200) })
+]);
+
+export type ResetScope = z.infer<typeof resetScopeSchema>;
+
+export const resetSrsSchema = z.object({
+  scope: resetScopeSchema.default({ type: 'all' }),
+  reintroduce: z.boolean().default(false)
+});
+
+// Returns an extra WHERE clause (parameters start at $2) selecting the scope's cards.
+export function resetScopeFilter(scope: ResetScope): { where: string; params: unknown[] } {
+  switch (scope.type) {
+    case 'all':
+      return { where: '', params: [] };
+    case 'set':
+      return {
+        where: `AND card_id IN (
+                  SELECT c.id FROM srs.cards c
+                   WHERE ${CARD_FACTOR_A_SQL} <= $2 AND ${CARD_FACTOR_B_SQL} <= $2
+                )`,
+        params: [scope.max]
+      };
+    case 'factor':
+      return {
+        where: `AND card_id IN (
+                  SELECT c.id FROM srs.cards c
+                   WHERE ${CARD_FACTOR_A_SQL} = $2 OR ${CARD_FACTOR_B_SQL} = $2
+                )`,
+        params: [scope.factor]
+      };
+    case 'cardIds':
+      return { where: 'AND card_id = ANY($2::int[])', params: [scope.cardIds] };
+  }
+}
+
+export function describeResetScope(scope: ResetScope): string {
+  switch (scope.type) {
+    case 'all':
+      return 'all cards';
+    case 'set':
+      return `the ${scope.max}×${scope.max} set`;
+    case 'factor':
+      return `the ${scope.factor}s`;
+    case 'cardIds':
+      return `${scope.cardIds.length} selected card${scope.cardIds.length === 1 ? '' : 's'}`;
+  }
+}
+
+export function resetSrsMessage(cardsReset: number, scope: ResetScope, reintroduce: boolean): string {
+  return (
+    `Reset scheduling for ${cardsReset} card${cardsReset === 1 ? '' : 's'} (${describeResetScope(scope)}). ` +
+    (reintroduce ? 'They will come back as new facts under the daily new-fact limit.' : 'They are due for review now.')
+  );
+}
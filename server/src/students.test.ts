@@ -0,0 +1,108 @@
+import { createStudentSchema, originalStudentNames, restoreStudentSchema, updateStudentSchema } from './students';
+
+const classId = '3f1c2a4e-8b7d-4c6a-9e2f-1a2b3c4d5e6f';
+
+function issues(result: { success: boolean; error?: { issues: { message: string }[] } }): string[] {
+  return result.success ? [] : result.error!.issues.map(issue => issue.message);
+}
+
+describe('createStudentSchema', () => {
+  test('trims the username and display name', () => {
+    const parsed = createStudentSchema.parse({
+      username: '  ada ',
+      displayName: '\tAda Lovelace  ',
+      picturePassword: ['1', '2']
+    });
+    expect(parsed).toMatchObject({ username: 'ada', displayName: 'Ada Lovelace', pictureDifficulty: 'easy' });
+  });
+
+  test('rejects names that are only whitespace', () => {
+    const picturePassword = ['1', '2'];
+    expect(createStudentSchema.safeParse({ username: '   ', displayName: 'Ada', picturePassword }).success).toBe(false);
+    expect(createStudentSchema.safeParse({ username: 'ada', displayName: ' ', picturePassword }).success).toBe(false);
+  });
+
+  test('needs a picture password as long as the chosen difficulty', () => {
+    const create = (pictureDifficulty: string, picturePassword: string[]) =>
+      createStudentSchema.safeParse({ username: 'ada', displayName: 'Ada', pictureDifficulty, picturePassword });
+    expect(create('hard', ['1', '2', '3', '4']).success).toBe(true);
+    expect(issues(create('medium', ['1', '2']))).toEqual(['Picture password length must match the chosen difficulty']);
+    expect(create('easy', ['1', '99']).success).toBe(false);
+  });
+});
+
+describe('updateStudentSchema', () => {
+  test('trims the username and display name', () => {
+    expect(updateStudentSchema.parse({ username: ' ada ', displayName: ' Ada L. ' })).toEqual({
+      username: 'ada',
+      displayName: 'Ada L.'
+    });
+  });
+
+  test('moves a student to a class but never out of every class', () => {
+    expect(updateStudentSchema.parse({ classId })).toEqual({ classId });
+    expect(updateStudentSchema.safeParse({ classId: null }).success).toBe(false);
+    expect(updateStudentSchema.safeParse({ classId: 'not-a-uuid' }).success).toBe(false);
+  });
+
+  test('refuses an empty update', () => {
+    expect(issues(updateStudentSchema.safeParse({}))).toEqual(['Nothing to update']);
+  });
+
+  test('lets the scheduler go back to the class default', () => {
+    expect(updateStudentSchema.parse({ scheduler: null })).toEqual({ scheduler: null });
+    expect(updateStudentSchema.parse({ scheduler: 'fsrs' })).toEqual({ scheduler: 'fsrs' });
+  });
+
+  test('takes a new picture password only together with a difficulty that fits it', () => {
+    expect(updateStudentSchema.parse({ pictureDifficulty: 'medium', picturePassword: ['4', '4', '9'] })).toEqual({
+      pictureDifficulty: 'medium',
+      picturePassword: ['4', '4', '9']
+    });
+    expect(issues(updateStudentSchema.safeParse({ picturePassword: ['1', '2'] }))).toEqual([
+      'Send the picture password together with its difficulty'
+    ]);
+    expect(issues(updateStudentSchema.safeParse({ pictureDifficulty: 'easy' }))).toEqual([
+      'Send the picture password together with its difficulty'
+    ]);
+    expect(issues(updateStudentSchema.safeParse({ pictureDifficulty: 'hard', picturePassword: ['1', '2'] }))).toEqual([
+      'Picture password length must match the chosen difficulty'
+    ]);
+  });
+});
+
+describe('restoreStudentSchema', () => {
+  test('trims a replacement username and allows sending none', () => {
+    expect(restoreStudentSchema.parse({ username: ' ada2 ' })).toEqual({ username: 'ada2' });
+    expect(restoreStudentSchema.parse({})).toEqual({});
+    expect(restoreStudentSchema.safeParse({ username: '  ' }).success).toBe(false);
+  });
+});
+
+describe('originalStudentNames', () => {
+  test('undoes the archive suffixes and reads the archive time from the username', () => {
+    expect(originalStudentNames('ada:archived:20240301091502', 'Ada Lovelace (Archived)')).toEqual({
+      username: 'ada',
+      displayName: 'Ada Lovelace',
+      archivedAt: '2024-03-01T09:15:02'
+    });
+  });
+
+  test('keeps colons that were part of the original username', () => {
+    expect(originalStudentNames('class:7b:ada:archived:20240301091502', 'Ada').username).toBe('class:7b:ada');
+  });
+
+  test('gives no username or time when the marker was cut off at 255 characters', () => {
+    const long = 'a'.repeat(250);
+    const archived = `${long}:archived:20240301091502`.slice(0, 255);
+    expect(originalStudentNames(archived, `${'A'.repeat(250)} (Arc`)).toEqual({
+      username: null,
+      displayName: `${'A'.repeat(250)} (Arc`,
+      archivedAt: null
+    });
+  });
+
+  test('leaves a display name without the suffix alone', () => {
+    expect(originalStudentNames('ada:archived:20240301091502', 'Ada').displayName).toBe('Ada');
+  });
+});
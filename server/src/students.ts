@@ -0,0 +1,83 @@
+/**
+ * Request bodies for the teacher's student roster, and the names of archived
+ * students. Usernames and display names are trimmed before they are checked,
+ * and a picture password always comes with the difficulty that sets its length.
+ */
+
+import { z } from 'zod';
+import {
+  MAX_PICTURE_SEQUENCE_LENGTH,
+  PICTURE_DIFFICULTIES,
+  pictureDifficultySchema,
+  pictureIdSchema
+} from './pictures';
+import { SCHEDULER_NAMES } from './scheduler';
+
+export const createStudentSchema = z
+  .object({
+    username: z.string().trim().min(1).max(255),
+    displayName: z.string().trim().min(1).max(255),
+    pictureDifficulty: pictureDifficultySchema.default('easy'),
+    picturePassword: z.array(pictureIdSchema).min(1).max(MAX_PICTURE_SEQUENCE_LENGTH),
+    email: z.string().email().optional(),
+    classId: z.string().uuid().nullable().optional()
+  })
+  .refine(data => data.picturePassword.length === PICTURE_DIFFICULTIES[data.pictureDifficulty], {
+    message: 'Picture password length must match the chosen difficulty',
+    path: ['picturePassword']
+  });
+
+export const updateStudentSchema = z
+  .object({
+    username: z.string().trim().min(1).max(255).optional(),
+    displayName: z.string().trim().min(1).max(255).optional(),
+    pictureDifficulty: pictureDifficultySchema.optional(),
+    picturePassword: z.array(pictureIdSchema).min(1).max(MAX_PICTURE_SEQUENCE_LENGTH).optional(),
+    classId: z.string().uuid().optional(),
+    // null goes back to the class's scheduler
+    scheduler: z.enum(SCHEDULER_NAMES).nullable().optional()
+  })
+  .refine(data => Object.values(data).some(value => value !== undefined), {
+    message: 'Nothing to update'
+  })
+  .refine(data => (data.picturePassword === undefined) === (data.pictureDifficulty === undefined), {
+    message: 'Send the picture password together with its difficulty',
+    path: ['picturePassword']
+  })
+  .refine(
+    data =>
+      !data.picturePassword ||
+      !data.pictureDifficulty ||
+      data.picturePassword.length === PICTURE_DIFFICULTIES[data.pictureDifficulty],
+    {
+      message: 'Picture password length must match the chosen difficulty',
+      path: ['picturePassword']
+    }
+  );
+
+export const restoreStudentSchema = z.object({
+  username: z.string().trim().min(1).max(255).optional(),
+  displayName: z.string().trim().min(1).max(255).optional()
+});
+
+// archiveStudent in server.ts appends ':archived:<YYYYMMDDHH24MISS>' to the
+// username and ' (Archived)' to the display name; these undo that for the
+// archive view and restore.
+const ARCHIVED_USERNAME_PATTERN = /^(.*):archived:(\d{14})$/;
+const ARCHIVED_DISPLAY_NAME_SUFFIX = ' (Archived)';
+
+export function originalStudentNames(archivedUsername: string, archivedDisplayName: string) {
+  const match = ARCHIVED_USERNAME_PATTERN.exec(archivedUsername);
+  const displayName = archivedDisplayName.endsWith(ARCHIVED_DISPLAY_NAME_SUFFIX)
+    ? archivedDisplayName.slice(0, -ARCHIVED_DISPLAY_NAME_SUFFIX.length)
+    : archivedDisplayName;
+  const stamp = match?.[2];
+  return {
+    // null when LEFT(..., 255) cut the marker off and the original cannot be recovered
+    username: match ? match[1] : null,
+    displayName,
+    archivedAt: stamp
+      ? `${stamp.slice(0, 4)}-${stamp.slice(4, 6)}-${stamp.slice(6, 8)}T${stamp.slice(8, 10)}:${stamp.slice(10, 12)}:${stamp.slice(12, 14)}`
+      : null
+  };
+}
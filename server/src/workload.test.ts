@@ -0,0 +1,66 @@
+import { fuzzRange, pickBalancedInterval } from './workload';
+
+describe('fuzzRange', () => {
+  test('leaves short intervals alone', () => {
+    expect(fuzzRange(1)).toEqual({ minDays: 1, maxDays: 1 });
+    expect(fuzzRange(2)).toEqual({ minDays: 2, maxDays: 2 });
+  });
+
+  test('widens longer intervals by a shrinking fraction', () => {
+    expect(fuzzRange(3)).toEqual({ minDays: 2, maxDays: 4 });
+    expect(fuzzRange(10)).toEqual({ minDays: 8, maxDays: 12 });
+    expect(fuzzRange(100)).toEqual({ minDays: 93, maxDays: 107 });
+  });
+
+  test('always contains the interval and never goes below two days', () => {
+    for (let days = 3; days <= 400; days += 1) {
+      const range = fuzzRange(days);
+      expect(range.minDays).toBeGreaterThanOrEqual(2);
+      expect(range.minDays).toBeLessThanOrEqual(days);
+      expect(range.maxDays).toBeGreaterThanOrEqual(days);
+      expect(range.maxDays - range.minDays).toBeGreaterThanOrEqual(
+        fuzzRange(days - 1).maxDays - fuzzRange(days - 1).minDays
+      );
+    }
+  });
+});
+
+describe('pickBalancedInterval', () => {
+  // Evenly spaced stand-ins for Math.random so the counts are exact
+  function pickCounts(loads: Record<number, number>, draws = 1000): Record<number, number> {
+    const counts: Record<number, number> = {};
+    for (let i = 0; i < draws; i += 1) {
+      const offset = pickBalancedInterval({ minDays: 8, maxDays: 12 }, day => loads[day] ?? 0, () => i / draws);
+      counts[offset] = (counts[offset] ?? 0) + 1;
+    }
+    return counts;
+  }
+
+  test('returns the only day of a zero-width range without drawing', () => {
+    const random = jest.fn(() => 0.5);
+    expect(pickBalancedInterval({ minDays: 4, maxDays: 4 }, () => 0, random)).toBe(4);
+    expect(random).not.toHaveBeenCalled();
+  });
+
+  test('stays within the range at both ends of the draw', () => {
+    expect(pickBalancedInterval({ minDays: 8, maxDays: 12 }, () => 0, () => 0)).toBe(8);
+    expect(pickBalancedInterval({ minDays: 8, maxDays: 12 }, () => 0, () => 0.999999)).toBe(12);
+  });
+
+  test('is uniform when every day has the same load', () => {
+    expect(pickCounts({})).toEqual({ 8: 200, 9: 200, 10: 200, 11: 200, 12: 200 });
+  });
+
+  test('strongly prefers light days without ruling out heavy ones', () => {
+    const counts = pickCounts({ 8: 3, 9: 3, 10: 0, 11: 3, 12: 3 });
+    expect(counts[10]).toBeGreaterThan(750);
+    for (const heavy of [8, 9, 11, 12]) {
+      expect(counts[heavy]).toBeGreaterThan(0);
+      expect(counts[heavy]).toBeLessThan(counts[10] / 10);
+    }
+  });
+
+  test('treats a negative load as an empty day', () => {
+    expect(pickCounts({ 8: -5, 9: -5, 10: -5, 11: -5, 12: -5 })).toEqual(pickCounts({}));
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Spreads reviews across days. Every student's cards are seeded at the same
+ * instant and the schedulers are deterministic, so without help whole batches
+ * of cards keep falling due together. A day-scale interval is widened into a
+ * fuzz window and the card lands on a school day (see calendar.ts) inside it,
+ * preferring days that already have fewer reviews due.
+ */
+
+export interface FuzzRange {
+  minDays: number;
+  maxDays: number;
+}
+
+// Short intervals are left alone: a day either way matters too much there
+const MIN_FUZZED_INTERVAL_DAYS = 2.5;
+
+// Fraction of the interval that may be added or removed, by interval length
+const FUZZ_FACTORS: { fromDays: number; toDays: number; factor: number }[] = [
+  { fromDays: 2.5, toDays: 7, factor: 0.15 },
+  { fromDays: 7, toDays: 20, factor: 0.1 },
+  { fromDays: 20, toDays: Number.POSITIVE_INFINITY, factor: 0.05 }
+];
+
+export function fuzzRange(intervalDays: number): FuzzRange {
+  if (intervalDays < MIN_FUZZED_INTERVAL_DAYS) {
+    return { minDays: intervalDays, maxDays: intervalDays };
+  }
+  const delta = FUZZ_FACTORS.reduce(
+    (sum, { fromDays, toDays, factor }) =>
+      sum + factor * Math.max(0, Math.min(intervalDays, toDays) - fromDays),
+    1
+  );
+  return {
+    minDays: Math.max(2, Math.round(intervalDays - delta)),
+    maxDays: Math.round(intervalDays + delta)
+  };
+}
+
+/**
+ * Picks a day offset within the range at random, weighting each day by the
+ * inverse square of the reviews already due on it, so light days are strongly
+ * preferred but a heavy day is never ruled out. With equal loads this is plain
+ * uniform fuzz.
+ */
+export function pickBalancedInterval(
+  range: FuzzRange,
+  loadForOffset: (offsetDays: number) => number,
+  random: () => number = Math.random
+): number {
+  if (range.maxDays <= range.minDays) return range.minDays;
+
+  const candidates: { offset: number; weight: number }[] = [];
+  for (let offset = range.minDays; offset <= range.maxDays; offset += 1) {
+    const load = Math.max(0, loadForOffset(offset));
+    candidates.push({ offset, weight: 1 / ((load + 1) * (load + 1)) });
+  }
+  const total = candidates.reduce((sum, candidate) => sum + candidate.weight, 0);
+  let target = random() * total;
+  for (const candidate of candidates) {
+    target -= candidate.weight;
+    if (target < 0) return candidate.offset;
+  }
+  return candidates[candidates.length - 1].offset;
+}